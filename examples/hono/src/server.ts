@@ -6,9 +6,11 @@ import {
 	MemoryKeyStore,
 	MemoryRateLimitStore,
 	permissionsScopes,
+	rateLimitHeaders,
 	ratelimit,
 	usageLimitsPerKey,
 	usefulkey,
+	type VerifyResult,
 } from "usefulkey";
 
 /**
@@ -120,6 +122,21 @@ const uk = usefulkey(
 	},
 );
 
+// Send the standard RateLimit headers on every response, and a 429 with
+// Retry-After once the limit is hit
+const applyRateLimit = (
+	c: Context,
+	result: VerifyResult | null | undefined,
+) => {
+	for (const [name, value] of Object.entries(
+		rateLimitHeaders(result?.ratelimit),
+	)) {
+		c.header(name, value);
+	}
+	if (!result?.reason?.startsWith("rate_limited")) return null;
+	return c.json({ error: "Rate limit exceeded", code: result.reason }, 429);
+};
+
 // Middleware to verify API key with rate limiting, namespace is required for rate limiting plugin
 const verifyApiKey = async (c: Context, next: () => Promise<void>) => {
 	const key = c.req.header("x-api-key") || "";
@@ -145,6 +162,9 @@ const verifyApiKey = async (c: Context, next: () => Promise<void>) => {
 		);
 	}
 
+	const limited = applyRateLimit(c, res.result);
+	if (limited) return limited;
+
 	if (!res.result?.valid) {
 		const statusCode =
 			res.result?.reason === "usage_exceeded"
@@ -203,6 +223,9 @@ const verifyApiKeyWithScopes =
 			);
 		}
 
+		const limited = applyRateLimit(c, res.result);
+		if (limited) return limited;
+
 		if (!res.result?.valid) {
 			const statusCode =
 				res.result?.reason === "usage_exceeded"
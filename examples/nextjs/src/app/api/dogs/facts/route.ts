@@ -1,5 +1,6 @@
 import { headers } from "next/headers";
 import { NextResponse } from "next/server";
+import { rateLimitedResponse, withRateLimitHeaders } from "@/lib/ratelimit";
 import { uk } from "@/lib/usefulkey";
 
 export async function GET() {
@@ -24,6 +25,9 @@ export async function GET() {
 		);
 	}
 
+	const limited = rateLimitedResponse(res.result);
+	if (limited) return limited;
+
 	if (!res.result?.valid) {
 		const statusCode =
 			res.result?.reason === "usage_exceeded"
@@ -60,8 +64,11 @@ export async function GET() {
 	];
 
 	const randomFact = facts[Math.floor(Math.random() * facts.length)];
-	return NextResponse.json({
-		fact: randomFact,
-		category: "premium",
-	});
+	return withRateLimitHeaders(
+		NextResponse.json({
+			fact: randomFact,
+			category: "premium",
+		}),
+		res.result,
+	);
 }
@@ -1,6 +1,7 @@
 import { headers } from "next/headers";
 import { NextResponse } from "next/server";
 import { DOG_NAMES } from "@/lib/constants";
+import { rateLimitedResponse, withRateLimitHeaders } from "@/lib/ratelimit";
 import { uk } from "@/lib/usefulkey";
 
 export async function POST(req: Request) {
@@ -25,6 +26,9 @@ export async function POST(req: Request) {
 		);
 	}
 
+	const limited = rateLimitedResponse(res.result);
+	if (limited) return limited;
+
 	if (!res.result?.valid) {
 		const statusCode =
 			res.result?.reason === "usage_exceeded"
@@ -75,10 +79,13 @@ export async function POST(req: Request) {
 		const dogNameStr = String(dogName);
 		if (!DOG_NAMES.includes(dogNameStr)) {
 			DOG_NAMES.push(dogNameStr);
-			return NextResponse.json({
-				success: true,
-				message: `Added ${dogName} to the list`,
-			});
+			return withRateLimitHeaders(
+				NextResponse.json({
+					success: true,
+					message: `Added ${dogName} to the list`,
+				}),
+				res.result,
+			);
 		}
 		return NextResponse.json(
 			{ error: "Dog name already exists" },
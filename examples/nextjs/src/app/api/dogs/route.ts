@@ -1,6 +1,7 @@
 import { headers } from "next/headers";
 import { NextResponse } from "next/server";
 import { DOG_NAMES } from "@/lib/constants";
+import { rateLimitedResponse, withRateLimitHeaders } from "@/lib/ratelimit";
 import { uk } from "@/lib/usefulkey";
 
 export async function GET() {
@@ -25,6 +26,9 @@ export async function GET() {
 		);
 	}
 
+	const limited = rateLimitedResponse(res.result);
+	if (limited) return limited;
+
 	if (!res.result?.valid) {
 		const statusCode =
 			res.result?.reason === "usage_exceeded"
@@ -55,9 +59,12 @@ export async function GET() {
 	const shuffled = [...DOG_NAMES].sort(() => 0.5 - Math.random());
 	const selectedNames = shuffled.slice(0, count);
 
-	return NextResponse.json({
-		dogs: selectedNames,
-		count,
-		plan: res.result?.metadata?.plan || "basic",
-	});
+	return withRateLimitHeaders(
+		NextResponse.json({
+			dogs: selectedNames,
+			count,
+			plan: res.result?.metadata?.plan || "basic",
+		}),
+		res.result,
+	);
 }
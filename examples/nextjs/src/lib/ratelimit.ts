@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { rateLimitHeaders, type VerifyResult } from "usefulkey";
+
+// Rate limited: answer with the standard RateLimit and Retry-After headers
+export function rateLimitedResponse(result: VerifyResult | null | undefined) {
+	if (!result?.reason?.startsWith("rate_limited")) return null;
+	return NextResponse.json(
+		{ error: "Rate limit exceeded", code: result.reason },
+		{ status: 429, headers: rateLimitHeaders(result.ratelimit) },
+	);
+}
+
+// Tell clients how much of their limit is left on successful responses too
+export function withRateLimitHeaders(
+	response: NextResponse,
+	result: VerifyResult | null | undefined,
+) {
+	for (const [name, value] of Object.entries(
+		rateLimitHeaders(result?.ratelimit),
+	)) {
+		response.headers.set(name, value);
+	}
+	return response;
+}
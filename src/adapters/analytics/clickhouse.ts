@@ -60,7 +60,7 @@ export class ClickHouseAnalytics implements AnalyticsAdapter {
 
 	private readonly queue: QueuedEvent[] = [];
 	private flushTimer: ReturnType<typeof setInterval> | null = null;
-	private isFlushing = false;
+	private flushing: Promise<void> | null = null;
 
 	readonly ready?: Promise<void>;
 
@@ -152,57 +152,62 @@ export class ClickHouseAnalytics implements AnalyticsAdapter {
 			.join("\n");
 	}
 
-	private async flush(): Promise<void> {
-		if (this.isFlushing) return;
+	/**
+	 * Send queued events. Waits for a flush that is already in progress, then
+	 * drains whatever is still queued; a failed batch stays queued.
+	 */
+	public async flush(): Promise<void> {
+		while (this.flushing) await this.flushing;
 		if (this.queue.length === 0) return;
-		this.isFlushing = true;
-
-		try {
-			while (this.queue.length > 0) {
-				const batch = this.queue.splice(0, this.batchSize);
-				if (batch.length === 0) break;
-
-				// Prefer direct client if provided
-				if (this.client) {
-					const values = batch.map((r) => ({
-						event: r.event,
-						payload: JSON.stringify(r.payload),
-						ts: r.ts,
-					}));
-					try {
-						await this.client.insert({
-							database: this.database,
-							table: this.table,
-							values,
-							format: "JSONEachRow",
-						});
-					} catch {
-						// Re-queue and stop draining on failure
-						this.queue.unshift(...batch);
-						break;
-					}
-				} else {
-					const url = this.buildInsertUrl();
-					const body = this.buildBody(batch);
-					const req = fetch(url, {
-						method: "POST",
-						headers: this.headers,
-						body,
+		this.flushing = this.drain().finally(() => {
+			this.flushing = null;
+		});
+		await this.flushing;
+	}
+
+	private async drain(): Promise<void> {
+		while (this.queue.length > 0) {
+			const batch = this.queue.splice(0, this.batchSize);
+			if (batch.length === 0) break;
+
+			// Prefer direct client if provided
+			if (this.client) {
+				const values = batch.map((r) => ({
+					event: r.event,
+					payload: JSON.stringify(r.payload),
+					ts: r.ts,
+				}));
+				try {
+					await this.client.insert({
+						database: this.database,
+						table: this.table,
+						values,
+						format: "JSONEachRow",
 					});
-					try {
-						const res = await this.withTimeout(req, this.timeoutMs);
-						if (!res.ok) {
-							this.queue.unshift(...batch);
-							break; // stop draining on failure
-						}
-					} catch {
+				} catch {
+					// Re-queue and stop draining on failure
+					this.queue.unshift(...batch);
+					break;
+				}
+			} else {
+				const url = this.buildInsertUrl();
+				const body = this.buildBody(batch);
+				const req = fetch(url, {
+					method: "POST",
+					headers: this.headers,
+					body,
+				});
+				try {
+					const res = await this.withTimeout(req, this.timeoutMs);
+					if (!res.ok) {
 						this.queue.unshift(...batch);
 						break; // stop draining on failure
 					}
+				} catch {
+					this.queue.unshift(...batch);
+					break; // stop draining on failure
 				}
 			}
-		} finally {
-			this.isFlushing = false;
 		}
 	}
 
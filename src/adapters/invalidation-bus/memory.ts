@@ -0,0 +1,30 @@
+/**
+ * In-memory invalidation bus.
+ *
+ * Delivers invalidations to every subscriber in the same process. Share one
+ * instance between several caches, e.g. in tests or between workers of a
+ * single process.
+ */
+import type { InvalidationBus, KeyId } from "../../types/common";
+
+export class MemoryInvalidationBus implements InvalidationBus {
+	readonly ready?: Promise<void>;
+	private readonly handlers = new Set<(keyIds: KeyId[]) => void>();
+
+	async publish(keyIds: KeyId[]): Promise<void> {
+		for (const handler of Array.from(this.handlers)) handler([...keyIds]);
+	}
+
+	async subscribe(
+		handler: (keyIds: KeyId[]) => void,
+	): Promise<() => Promise<void>> {
+		this.handlers.add(handler);
+		return async () => {
+			this.handlers.delete(handler);
+		};
+	}
+
+	async close(): Promise<void> {
+		this.handlers.clear();
+	}
+}
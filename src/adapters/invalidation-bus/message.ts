@@ -0,0 +1,13 @@
+import type { KeyId } from "../../types/common";
+
+/** Decode a published message (a JSON array of key ids); null if malformed. */
+export function parseKeyIds(message: unknown): KeyId[] | null {
+	if (typeof message !== "string") return null;
+	try {
+		const parsed = JSON.parse(message);
+		if (!Array.isArray(parsed)) return null;
+		return parsed.filter((id): id is KeyId => typeof id === "string");
+	} catch {
+		return null;
+	}
+}
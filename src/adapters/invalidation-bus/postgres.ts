@@ -0,0 +1,76 @@
+/**
+ * Postgres LISTEN/NOTIFY invalidation bus.
+ *
+ * Publishes key ids as JSON with `pg_notify`. Notifications are only delivered
+ * to the connection that ran `LISTEN`, so pass a dedicated `listener` client
+ * (a `pg.Client`, not a pool) that stays connected.
+ */
+import type { PgLikeClient } from "../../types/adapters";
+import type { InvalidationBus, KeyId } from "../../types/common";
+import { parseKeyIds } from "./message";
+
+/** A connection that can LISTEN and emits `notification` events (like `pg.Client`). */
+export type PgListenerClient = PgLikeClient & {
+	on: (
+		event: "notification",
+		listener: (msg: { channel: string; payload?: string }) => void,
+	) => unknown;
+};
+
+export class PostgresInvalidationBus implements InvalidationBus {
+	readonly ready?: Promise<void>;
+	private readonly channel: string;
+	private readonly handlers = new Set<(keyIds: KeyId[]) => void>();
+	private listening: Promise<void> | null = null;
+	private attached = false;
+
+	constructor(
+		private readonly client: PgLikeClient,
+		private readonly listener: PgListenerClient,
+		options: { channel?: string } = {},
+	) {
+		this.channel = options.channel ?? "usefulkey_invalidate";
+		if (!/^[a-z_][a-z0-9_]*$/i.test(this.channel)) {
+			throw new Error(`Invalid Postgres channel name: ${this.channel}`);
+		}
+	}
+
+	async publish(keyIds: KeyId[]): Promise<void> {
+		if (keyIds.length === 0) return;
+		await this.client.query("SELECT pg_notify($1, $2)", [
+			this.channel,
+			JSON.stringify(keyIds),
+		]);
+	}
+
+	async subscribe(
+		handler: (keyIds: KeyId[]) => void,
+	): Promise<() => Promise<void>> {
+		this.handlers.add(handler);
+		this.listening ??= this.listen();
+		await this.listening;
+		return async () => {
+			this.handlers.delete(handler);
+		};
+	}
+
+	async close(): Promise<void> {
+		this.handlers.clear();
+		if (!this.listening) return;
+		this.listening = null;
+		await this.listener.query(`UNLISTEN ${this.channel}`);
+	}
+
+	private async listen(): Promise<void> {
+		if (!this.attached) {
+			this.attached = true;
+			this.listener.on("notification", (msg) => {
+				if (msg.channel !== this.channel) return;
+				const keyIds = parseKeyIds(msg.payload);
+				if (!keyIds) return;
+				for (const handler of Array.from(this.handlers)) handler(keyIds);
+			});
+		}
+		await this.listener.query(`LISTEN ${this.channel}`);
+	}
+}
@@ -0,0 +1,77 @@
+/**
+ * Redis pub/sub invalidation bus.
+ *
+ * Publishes key ids as JSON on a channel. Redis puts a subscribed connection
+ * into subscriber mode, so pass a dedicated `subscriber` client (for example
+ * `client.duplicate()` with node-redis, or a second ioredis instance).
+ */
+import type { InvalidationBus, KeyId } from "../../types/common";
+import { parseKeyIds } from "./message";
+
+export class RedisInvalidationBus implements InvalidationBus {
+	readonly ready?: Promise<void>;
+	private readonly channel: string;
+	private readonly handlers = new Set<(keyIds: KeyId[]) => void>();
+	private subscribed: Promise<void> | null = null;
+	private attached = false;
+
+	constructor(
+		private readonly publisher: any,
+		private readonly subscriber: any,
+		options: { channel?: string } = {},
+	) {
+		this.channel = options.channel ?? "usefulkey:invalidate";
+	}
+
+	async publish(keyIds: KeyId[]): Promise<void> {
+		if (keyIds.length === 0) return;
+		if (typeof this.publisher.publish !== "function") {
+			throw new Error("Redis publisher must support publish");
+		}
+		await this.publisher.publish(this.channel, JSON.stringify(keyIds));
+	}
+
+	async subscribe(
+		handler: (keyIds: KeyId[]) => void,
+	): Promise<() => Promise<void>> {
+		this.handlers.add(handler);
+		this.subscribed ??= this.listen();
+		await this.subscribed;
+		return async () => {
+			this.handlers.delete(handler);
+		};
+	}
+
+	async close(): Promise<void> {
+		this.handlers.clear();
+		if (!this.subscribed) return;
+		this.subscribed = null;
+		if (this.subscriber.unsubscribe) {
+			await this.subscriber.unsubscribe(this.channel);
+		}
+	}
+
+	private dispatch(message: unknown): void {
+		const keyIds = parseKeyIds(message);
+		if (!keyIds) return;
+		for (const handler of Array.from(this.handlers)) handler(keyIds);
+	}
+
+	private async listen(): Promise<void> {
+		if (typeof this.subscriber.subscribe !== "function") {
+			throw new Error("Redis subscriber must support subscribe");
+		}
+		// ioredis emits "message" events; node-redis passes messages to the
+		// listener given to subscribe (ioredis calls it once with (err, count),
+		// which parseKeyIds ignores).
+		if (!this.attached && typeof this.subscriber.on === "function") {
+			this.attached = true;
+			this.subscriber.on("message", (channel: string, message: unknown) => {
+				if (channel === this.channel) this.dispatch(message);
+			});
+		}
+		await this.subscriber.subscribe(this.channel, (message: unknown) =>
+			this.dispatch(message),
+		);
+	}
+}
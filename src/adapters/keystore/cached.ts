@@ -0,0 +1,246 @@
+/**
+ * Caching keystore adapter.
+ *
+ * Wraps another `KeyStoreAdapter` and keeps `findKeyByHash` results in an LRU
+ * bounded by size and TTL, so repeated verifications of the same key skip the
+ * database. Unknown hashes are cached too (for a shorter time). Writes made
+ * through this adapter invalidate the affected entries and, with a `bus`, the
+ * entries cached by other processes; use `invalidate()` for writes made
+ * elsewhere.
+ */
+import {
+	ErrorCodes,
+	type FindKeysQuery,
+	type InvalidationBus,
+	type KeyCacheOptions,
+	type KeyId,
+	type KeyRecord,
+	type KeyStoreAdapter,
+	type ListKeysInput,
+	type ListKeysResult,
+} from "../../types/common";
+import { toError } from "../../utils/error";
+import { now, parseDuration } from "../../utils/time";
+
+type CacheEntry = { record: KeyRecord | null; expiresAt: number };
+
+export class CachedKeyStore implements KeyStoreAdapter {
+	readonly ready?: Promise<void>;
+	private readonly maxSize: number;
+	private readonly ttlMs: number;
+	private readonly negativeTtlMs: number;
+	private readonly onLookup?: KeyCacheOptions["onLookup"];
+	private readonly bus?: InvalidationBus;
+	private unsubscribe: (() => Promise<void>) | null = null;
+	/** Entries by key hash, least recently used first. */
+	private readonly entries = new Map<string, CacheEntry>();
+	private readonly idToHash = new Map<KeyId, string>();
+	/** Bumped on every invalidation so in-flight lookups do not cache stale records. */
+	private generation = 0;
+	private hitCount = 0;
+	private missCount = 0;
+
+	// Optional methods exist only when the wrapped store has them, so callers
+	// can keep feature-detecting them.
+	readonly createKeys?: (records: KeyRecord[]) => Promise<void>;
+	readonly findExpiredIds?: (
+		olderThan: number,
+		limit: number,
+	) => Promise<KeyId[]>;
+	readonly listKeys?: (input: ListKeysInput) => Promise<ListKeysResult>;
+	readonly findKeys?: (query: FindKeysQuery) => Promise<ListKeysResult>;
+
+	constructor(
+		private readonly inner: KeyStoreAdapter,
+		options: KeyCacheOptions = {},
+	) {
+		this.maxSize = Math.max(1, options.maxSize ?? 10000);
+		this.ttlMs = parseDuration(options.ttl ?? "30s");
+		this.negativeTtlMs = parseDuration(options.negativeTtl ?? "5s");
+		this.onLookup = options.onLookup;
+		this.bus = options.bus;
+		this.ready = this.bus ? this.initialize() : inner.ready;
+
+		const createKeys = inner.createKeys?.bind(inner);
+		if (createKeys) {
+			this.createKeys = async (records) => {
+				await createKeys(records);
+				for (const record of records) this.invalidateRecord(record);
+			};
+		}
+		this.findExpiredIds = inner.findExpiredIds?.bind(inner);
+		this.listKeys = inner.listKeys?.bind(inner);
+		this.findKeys = inner.findKeys?.bind(inner);
+	}
+
+	private async initialize(): Promise<void> {
+		await Promise.all([this.inner.ready, this.bus?.ready]);
+		this.unsubscribe =
+			(await this.bus?.subscribe((keyIds) => {
+				for (const id of keyIds) this.invalidate(id);
+			})) ?? null;
+	}
+
+	/** Hit and miss counts since creation, and the current number of entries. */
+	stats(): { hits: number; misses: number; size: number } {
+		return {
+			hits: this.hitCount,
+			misses: this.missCount,
+			size: this.entries.size,
+		};
+	}
+
+	/** Drop the cached record of a key. */
+	invalidate(id: KeyId): void {
+		this.generation++;
+		const keyHash = this.idToHash.get(id);
+		if (keyHash !== undefined) this.evict(keyHash);
+	}
+
+	/** Drop every cached entry. */
+	clear(): void {
+		this.generation++;
+		this.entries.clear();
+		this.idToHash.clear();
+	}
+
+	async createKey(record: KeyRecord): Promise<void> {
+		await this.inner.createKey(record);
+		this.invalidateRecord(record);
+	}
+
+	async findKeyById(id: KeyId): Promise<KeyRecord | null> {
+		return this.inner.findKeyById(id);
+	}
+
+	/** Serve from the cache when fresh, otherwise load and cache the result. */
+	async findKeyByHash(keyHash: string): Promise<KeyRecord | null> {
+		const cached = this.lookup(keyHash);
+		if (cached) return cached.record;
+		const generation = this.generation;
+		const record = await this.inner.findKeyByHash(keyHash);
+		if (generation === this.generation) this.store(keyHash, record);
+		return record;
+	}
+
+	/** Serve cached hashes and load the rest in one call to the wrapped store. */
+	async findKeysByHashes(keyHashes: string[]): Promise<KeyRecord[]> {
+		const records: KeyRecord[] = [];
+		const missing: string[] = [];
+		for (const keyHash of keyHashes) {
+			const cached = this.lookup(keyHash);
+			if (!cached) missing.push(keyHash);
+			else if (cached.record) records.push(cached.record);
+		}
+		if (missing.length === 0) return records;
+
+		const generation = this.generation;
+		let loaded: KeyRecord[];
+		if (typeof this.inner.findKeysByHashes === "function") {
+			loaded = await this.inner.findKeysByHashes(missing);
+		} else {
+			loaded = [];
+			for (const keyHash of missing) {
+				const record = await this.inner.findKeyByHash(keyHash);
+				if (record) loaded.push(record);
+			}
+		}
+		if (generation === this.generation) {
+			const byHash = new Map(loaded.map((r) => [r.keyHash, r]));
+			for (const keyHash of missing) {
+				this.store(keyHash, byHash.get(keyHash) ?? null);
+			}
+		}
+		return records.concat(loaded);
+	}
+
+	async updateKey(record: KeyRecord): Promise<void> {
+		await this.inner.updateKey(record);
+		this.invalidateRecord(record);
+		await this.broadcast(record.id);
+	}
+
+	async revokeKeyById(id: KeyId): Promise<void> {
+		await this.inner.revokeKeyById(id);
+		this.invalidate(id);
+		await this.broadcast(id);
+	}
+
+	async hardRemoveKeyById(id: KeyId): Promise<void> {
+		await this.inner.hardRemoveKeyById(id);
+		this.invalidate(id);
+		await this.broadcast(id);
+	}
+
+	async flush(): Promise<void> {
+		await this.inner.flush?.();
+	}
+
+	async close(): Promise<void> {
+		this.clear();
+		if (this.unsubscribe) {
+			await this.unsubscribe();
+			this.unsubscribe = null;
+		}
+		await this.bus?.close?.();
+		if (typeof this.inner.close === "function") await this.inner.close();
+		else await this.inner.flush?.();
+	}
+
+	private lookup(keyHash: string): CacheEntry | null {
+		let fresh = this.entries.get(keyHash) ?? null;
+		if (fresh && fresh.expiresAt <= now()) {
+			this.evict(keyHash);
+			fresh = null;
+		}
+		if (fresh) {
+			// Move to the most recently used end.
+			this.entries.delete(keyHash);
+			this.entries.set(keyHash, fresh);
+			this.hitCount++;
+		} else {
+			this.missCount++;
+		}
+		this.onLookup?.({ hit: !!fresh, negative: fresh?.record === null });
+		return fresh;
+	}
+
+	private store(keyHash: string, record: KeyRecord | null): void {
+		const ttl = record ? this.ttlMs : this.negativeTtlMs;
+		if (ttl <= 0) return;
+		this.evict(keyHash);
+		this.entries.set(keyHash, { record, expiresAt: now() + ttl });
+		if (record) this.idToHash.set(record.id, keyHash);
+		while (this.entries.size > this.maxSize) {
+			const oldest = this.entries.keys().next().value as string;
+			this.evict(oldest);
+		}
+	}
+
+	private evict(keyHash: string): void {
+		const entry = this.entries.get(keyHash);
+		if (!entry) return;
+		this.entries.delete(keyHash);
+		if (entry.record && this.idToHash.get(entry.record.id) === keyHash) {
+			this.idToHash.delete(entry.record.id);
+		}
+	}
+
+	/** Tell other processes about a write; the write itself already succeeded. */
+	private async broadcast(id: KeyId): Promise<void> {
+		if (!this.bus) return;
+		try {
+			await this.bus.publish([id]);
+		} catch (err) {
+			console.error(
+				"Error publishing key invalidation",
+				toError(err, ErrorCodes.INVALIDATION_PUBLISH_FAILED, { keyId: id }),
+			);
+		}
+	}
+
+	private invalidateRecord(record: KeyRecord): void {
+		this.invalidate(record.id);
+		this.evict(record.keyHash);
+	}
+}
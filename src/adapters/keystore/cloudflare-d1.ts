@@ -6,9 +6,24 @@
  */
 
 import type { D1LikeClient } from "../../types/adapters";
-import type { KeyId, KeyRecord, KeyStoreAdapter } from "../../types/common";
+import type {
+	FindKeysQuery,
+	KeyId,
+	KeyRecord,
+	KeyStoreAdapter,
+	ListKeysInput,
+	ListKeysResult,
+} from "../../types/common";
+import { sqliteFindKeysWhere } from "../../utils/filter";
 import { now } from "../../utils/time";
 
+/** Columns read and written for a `KeyRecord`, in insert order. */
+const KEY_COLUMNS =
+	"id, user_id, prefix, key_hash, created_at, expires_at, metadata, uses_remaining, revoked_at, secret_id, hint, tenant_id, environment";
+
+/** Columns added after the first schema; older tables get them on startup. */
+const ADDED_COLUMNS = ["secret_id", "hint", "tenant_id", "environment"];
+
 /**
  * Cloudflare D1-backed keystore adapter.
  *
@@ -31,8 +46,9 @@ export class D1KeyStore implements KeyStoreAdapter {
 	private async initialize(): Promise<void> {
 		await this.db.prepare("SELECT 1").bind().run();
 
-		const statements = [
-			`CREATE TABLE IF NOT EXISTS ${this.tableName} (
+		await this.db
+			.prepare(
+				`CREATE TABLE IF NOT EXISTS ${this.tableName} (
 				id TEXT PRIMARY KEY,
 				user_id TEXT,
 				prefix TEXT NOT NULL,
@@ -41,9 +57,20 @@ export class D1KeyStore implements KeyStoreAdapter {
 				expires_at INTEGER,
 				metadata TEXT,
 				uses_remaining INTEGER,
-				revoked_at INTEGER
+				revoked_at INTEGER,
+				secret_id TEXT,
+				hint TEXT,
+				tenant_id TEXT,
+				environment TEXT
 			)`,
+			)
+			.bind()
+			.run();
+		await this.addMissingColumns();
+
+		const statements = [
 			`CREATE INDEX IF NOT EXISTS idx_${this.tableName}_user_id ON ${this.tableName}(user_id)`,
+			`CREATE INDEX IF NOT EXISTS idx_${this.tableName}_tenant_id ON ${this.tableName}(tenant_id)`,
 			`CREATE UNIQUE INDEX IF NOT EXISTS idx_${this.tableName}_key_hash ON ${this.tableName}(key_hash)`,
 		];
 
@@ -52,11 +79,32 @@ export class D1KeyStore implements KeyStoreAdapter {
 		}
 	}
 
+	/**
+	 * `CREATE TABLE IF NOT EXISTS` leaves an existing table untouched, so add
+	 * the columns it predates. Skipped when the driver cannot list columns.
+	 */
+	private async addMissingColumns(): Promise<void> {
+		const res = await this.db
+			.prepare(`PRAGMA table_info(${this.tableName})`)
+			.bind()
+			.all?.<{ name: string }>();
+		const rows = res?.results ?? [];
+		if (rows.length === 0) return;
+		const existing = new Set(rows.map((row) => row.name));
+		for (const column of ADDED_COLUMNS) {
+			if (existing.has(column)) continue;
+			await this.db
+				.prepare(`ALTER TABLE ${this.tableName} ADD COLUMN ${column} TEXT`)
+				.bind()
+				.run();
+		}
+	}
+
 	async createKey(record: KeyRecord): Promise<void> {
 		const stmt = this.db.prepare(
 			`INSERT INTO ${this.tableName} (
-        id, user_id, prefix, key_hash, created_at, expires_at, metadata, uses_remaining, revoked_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        ${KEY_COLUMNS}
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
 		);
 		await stmt
 			.bind(
@@ -69,13 +117,17 @@ export class D1KeyStore implements KeyStoreAdapter {
 				record.metadata ? JSON.stringify(record.metadata) : null,
 				record.usesRemaining ?? null,
 				record.revokedAt ?? null,
+				record.secretId ?? null,
+				record.hint ?? null,
+				record.tenantId ?? null,
+				record.environment ?? null,
 			)
 			.run();
 	}
 
 	async findKeyByHash(keyHash: string): Promise<KeyRecord | null> {
 		const stmt = this.db.prepare(
-			`SELECT id, user_id, prefix, key_hash, created_at, expires_at, metadata, uses_remaining, revoked_at
+			`SELECT ${KEY_COLUMNS}
        FROM ${this.tableName} WHERE key_hash = ? LIMIT 1`,
 		);
 		const row = await this.firstOrFirstResult(stmt.bind(keyHash));
@@ -83,9 +135,27 @@ export class D1KeyStore implements KeyStoreAdapter {
 		return this.rowToRecord(row);
 	}
 
+	async findKeysByHashes(keyHashes: string[]): Promise<KeyRecord[]> {
+		const records: KeyRecord[] = [];
+		// D1 caps bound parameters per statement, so query in slices
+		for (let start = 0; start < keyHashes.length; start += 100) {
+			const chunk = keyHashes.slice(start, start + 100);
+			const stmt = this.db.prepare(
+				`SELECT ${KEY_COLUMNS}
+       FROM ${this.tableName} WHERE key_hash IN (${chunk.map(() => "?").join(", ")})`,
+			);
+			const res = await stmt.bind(...chunk).all?.();
+			const rows =
+				(res as { results?: Record<string, unknown>[] } | undefined)?.results ??
+				[];
+			for (const row of rows) records.push(this.rowToRecord(row));
+		}
+		return records;
+	}
+
 	async findKeyById(id: KeyId): Promise<KeyRecord | null> {
 		const stmt = this.db.prepare(
-			`SELECT id, user_id, prefix, key_hash, created_at, expires_at, metadata, uses_remaining, revoked_at
+			`SELECT ${KEY_COLUMNS}
        FROM ${this.tableName} WHERE id = ? LIMIT 1`,
 		);
 		const row = await this.firstOrFirstResult(stmt.bind(id));
@@ -96,7 +166,7 @@ export class D1KeyStore implements KeyStoreAdapter {
 	async updateKey(record: KeyRecord): Promise<void> {
 		const stmt = this.db.prepare(
 			`UPDATE ${this.tableName}
-       SET user_id = ?, prefix = ?, key_hash = ?, created_at = ?, expires_at = ?, metadata = ?, uses_remaining = ?, revoked_at = ?
+       SET user_id = ?, prefix = ?, key_hash = ?, created_at = ?, expires_at = ?, metadata = ?, uses_remaining = ?, revoked_at = ?, secret_id = ?, hint = ?, tenant_id = ?, environment = ?
        WHERE id = ?`,
 		);
 		await stmt
@@ -109,6 +179,10 @@ export class D1KeyStore implements KeyStoreAdapter {
 				record.metadata ? JSON.stringify(record.metadata) : null,
 				record.usesRemaining ?? null,
 				record.revokedAt ?? null,
+				record.secretId ?? null,
+				record.hint ?? null,
+				record.tenantId ?? null,
+				record.environment ?? null,
 				record.id,
 			)
 			.run();
@@ -138,6 +212,47 @@ export class D1KeyStore implements KeyStoreAdapter {
 		return rows.map((r) => String((r as Record<string, unknown>).id as string));
 	}
 
+	async listKeys(input: ListKeysInput): Promise<ListKeysResult> {
+		let where = "user_id = ?";
+		const args: unknown[] = [input.userId];
+		if (input.tenantId !== undefined) {
+			where += " AND tenant_id = ?";
+			args.push(input.tenantId);
+		}
+		if (input.cursor != null) {
+			where += " AND id > ?";
+			args.push(input.cursor);
+		}
+		const stmt = this.db.prepare(
+			`SELECT ${KEY_COLUMNS}
+       FROM ${this.tableName} WHERE ${where} ORDER BY id ASC LIMIT ?`,
+		);
+		const res = await stmt.bind(...args, input.limit + 1).all?.();
+		const rows =
+			(res as { results?: Record<string, unknown>[] } | undefined)?.results ??
+			[];
+		const items = rows.slice(0, input.limit).map((r) => this.rowToRecord(r));
+		const nextCursor =
+			rows.length > input.limit ? items[items.length - 1].id : null;
+		return { items, nextCursor };
+	}
+
+	async findKeys(query: FindKeysQuery): Promise<ListKeysResult> {
+		const { where, args } = sqliteFindKeysWhere(query);
+		const stmt = this.db.prepare(
+			`SELECT ${KEY_COLUMNS}
+       FROM ${this.tableName}${where} ORDER BY id ASC LIMIT ?`,
+		);
+		const res = await stmt.bind(...args, query.limit + 1).all?.();
+		const rows =
+			(res as { results?: Record<string, unknown>[] } | undefined)?.results ??
+			[];
+		const items = rows.slice(0, query.limit).map((r) => this.rowToRecord(r));
+		const nextCursor =
+			rows.length > query.limit ? items[items.length - 1].id : null;
+		return { items, nextCursor };
+	}
+
 	private async firstOrFirstResult(bound: {
 		run: () => Promise<unknown>;
 		first?: <T = Record<string, unknown>>() => Promise<T | null>;
@@ -182,6 +297,22 @@ export class D1KeyStore implements KeyStoreAdapter {
 				(row.revoked_at as number | null | undefined) == null
 					? null
 					: Number(row.revoked_at as number),
+			secretId:
+				(row.secret_id as string | null | undefined) == null
+					? null
+					: String(row.secret_id as string),
+			hint:
+				(row.hint as string | null | undefined) == null
+					? null
+					: String(row.hint as string),
+			tenantId:
+				(row.tenant_id as string | null | undefined) == null
+					? null
+					: String(row.tenant_id as string),
+			environment:
+				row.environment === "test" || row.environment === "live"
+					? row.environment
+					: null,
 		};
 	}
 
@@ -7,7 +7,13 @@
 
 //TODO This adapter needs work.
 
-import type { KeyId, KeyRecord, KeyStoreAdapter } from "../../types/common";
+import type {
+	KeyId,
+	KeyRecord,
+	KeyStoreAdapter,
+	ListKeysInput,
+	ListKeysResult,
+} from "../../types/common";
 
 type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
 
@@ -24,6 +30,7 @@ export type HttpKeyStoreRoutes = {
 	revokeKeyById: (id: KeyId) => string;
 	hardRemoveKeyById: (id: KeyId) => string;
 	findExpiredIds?: (olderThan: number, limit: number) => string;
+	listKeys?: (input: ListKeysInput) => string;
 };
 
 export interface HttpKeyStoreOptions {
@@ -50,6 +57,7 @@ export interface HttpKeyStoreOptions {
 	 * - PUT    /keys/:id
 	 * - POST   /keys/:id/revoke
 	 * - DELETE /keys/:id
+	 * - GET    /keys?userId=:userId&limit=:limit&cursor=:cursor&tenantId=:tenantId
 	 */
 	routes?: Partial<HttpKeyStoreRoutes>;
 	/**
@@ -105,6 +113,16 @@ export class HttpKeyStore implements KeyStoreAdapter {
 			hardRemoveKeyById: (id) => `/keys/${encodeURIComponent(id)}`,
 			findExpiredIds: (olderThan, limit) =>
 				`/keys/expired?olderThan=${encodeURIComponent(String(olderThan))}&limit=${encodeURIComponent(String(limit))}`,
+			listKeys: (input) =>
+				`/keys?userId=${encodeURIComponent(input.userId)}&limit=${encodeURIComponent(String(input.limit))}${
+					input.cursor != null
+						? `&cursor=${encodeURIComponent(input.cursor)}`
+						: ""
+				}${
+					input.tenantId !== undefined
+						? `&tenantId=${encodeURIComponent(input.tenantId)}`
+						: ""
+				}`,
 		};
 		this.routes = { ...base, ...(options.routes ?? {}) } as HttpKeyStoreRoutes;
 
@@ -308,4 +326,31 @@ export class HttpKeyStore implements KeyStoreAdapter {
 			return (payload as any).ids.map((x: unknown) => String(x));
 		return [];
 	}
+
+	/**
+	 * List a user's keys. Accepts either `{ items, nextCursor }` or a bare array
+	 * of records (in which case there is no next page).
+	 */
+	async listKeys(input: ListKeysInput): Promise<ListKeysResult> {
+		if (!this.routes.listKeys) return { items: [], nextCursor: null };
+		const res = await this.request(this.routes.listKeys(input), {
+			method: "GET",
+			expectedStatus: 200,
+		});
+		const payload = (await res.json()) as
+			| { items?: unknown[]; nextCursor?: string | null }
+			| unknown[]
+			| null;
+		if (!payload) return { items: [], nextCursor: null };
+		if (Array.isArray(payload)) {
+			return {
+				items: payload.map((p) => this.deserializeRecord(p)),
+				nextCursor: null,
+			};
+		}
+		return {
+			items: (payload.items ?? []).map((p) => this.deserializeRecord(p)),
+			nextCursor: payload.nextCursor ?? null,
+		};
+	}
 }
@@ -4,7 +4,15 @@
  * Intended for tests, examples, and ephemeral environments. Stores `KeyRecord`s
  * in local `Map`s keyed by hash and by id.
  */
-import type { KeyId, KeyRecord, KeyStoreAdapter } from "../../types/common";
+import type {
+	FindKeysQuery,
+	KeyId,
+	KeyRecord,
+	KeyStoreAdapter,
+	ListKeysInput,
+	ListKeysResult,
+} from "../../types/common";
+import { matchesFindKeysQuery } from "../../utils/filter";
 import { now } from "../../utils/time";
 
 export class MemoryKeyStore implements KeyStoreAdapter {
@@ -23,13 +31,27 @@ export class MemoryKeyStore implements KeyStoreAdapter {
 		return this.keyHashToRecord.get(keyHash) ?? null;
 	}
 
+	/** Retrieve the records for any of the given key hashes. */
+	async findKeysByHashes(keyHashes: string[]): Promise<KeyRecord[]> {
+		const records: KeyRecord[] = [];
+		for (const keyHash of keyHashes) {
+			const record = this.keyHashToRecord.get(keyHash);
+			if (record) records.push(record);
+		}
+		return records;
+	}
+
 	/** Retrieve a record by its id. */
 	async findKeyById(id: KeyId): Promise<KeyRecord | null> {
 		return this.idToRecord.get(id) ?? null;
 	}
 
-	/** Upsert the record in both maps. */
+	/** Upsert the record in both maps, dropping its previous hash entry. */
 	async updateKey(record: KeyRecord): Promise<void> {
+		const previous = this.idToRecord.get(record.id);
+		if (previous && previous.keyHash !== record.keyHash) {
+			this.keyHashToRecord.delete(previous.keyHash);
+		}
 		this.keyHashToRecord.set(record.keyHash, record);
 		this.idToRecord.set(record.id, record);
 	}
@@ -65,4 +87,42 @@ export class MemoryKeyStore implements KeyStoreAdapter {
 		}
 		return out;
 	}
+
+	/**
+	 * Return a page of records owned by `userId`, ordered by id and starting
+	 * after `cursor` when provided.
+	 */
+	async listKeys(input: ListKeysInput): Promise<ListKeysResult> {
+		return this.page(
+			(r) =>
+				r.userId === input.userId &&
+				(input.tenantId === undefined ||
+					(r.tenantId ?? null) === input.tenantId),
+			input.cursor ?? null,
+			input.limit,
+		);
+	}
+
+	/** Scan all records for ones matching the metadata and state filters. */
+	async findKeys(query: FindKeysQuery): Promise<ListKeysResult> {
+		return this.page(
+			(r) => matchesFindKeysQuery(r, query),
+			query.cursor ?? null,
+			query.limit,
+		);
+	}
+
+	private page(
+		predicate: (r: KeyRecord) => boolean,
+		cursor: string | null,
+		limit: number,
+	): ListKeysResult {
+		const matches = Array.from(this.idToRecord.values())
+			.filter((r) => (cursor == null || r.id > cursor) && predicate(r))
+			.sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+		const items = matches.slice(0, limit);
+		const nextCursor =
+			matches.length > limit ? items[items.length - 1].id : null;
+		return { items, nextCursor };
+	}
 }
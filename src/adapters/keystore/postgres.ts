@@ -5,9 +5,21 @@
  * the table and indexes if they do not exist.
  */
 import type { PgLikeClient } from "../../types/adapters";
-import type { KeyId, KeyRecord, KeyStoreAdapter } from "../../types/common";
+import type {
+	FindKeysQuery,
+	KeyId,
+	KeyRecord,
+	KeyStoreAdapter,
+	ListKeysInput,
+	ListKeysResult,
+} from "../../types/common";
+import { isContainsFilter } from "../../utils/filter";
 import { now } from "../../utils/time";
 
+/** Columns read and written for a `KeyRecord`, in insert order. */
+const KEY_COLUMNS =
+	"id, user_id, prefix, key_hash, created_at, expires_at, metadata, uses_remaining, revoked_at, secret_id, hint, tenant_id, environment";
+
 export class PostgresKeyStore implements KeyStoreAdapter {
 	private readonly tableName: string;
 	private readonly useJsonbMetadata: boolean;
@@ -35,39 +47,93 @@ export class PostgresKeyStore implements KeyStoreAdapter {
         expires_at BIGINT,
         metadata ${this.useJsonbMetadata ? "JSONB" : "TEXT"},
         uses_remaining INTEGER,
-        revoked_at BIGINT
+        revoked_at BIGINT,
+        secret_id TEXT,
+        hint TEXT,
+        tenant_id TEXT,
+        environment TEXT
       )`,
 		);
+		await this.client.query(
+			`ALTER TABLE ${this.tableName} ADD COLUMN IF NOT EXISTS secret_id TEXT`,
+		);
+		await this.client.query(
+			`ALTER TABLE ${this.tableName} ADD COLUMN IF NOT EXISTS hint TEXT`,
+		);
+		await this.client.query(
+			`ALTER TABLE ${this.tableName} ADD COLUMN IF NOT EXISTS tenant_id TEXT`,
+		);
+		await this.client.query(
+			`ALTER TABLE ${this.tableName} ADD COLUMN IF NOT EXISTS environment TEXT`,
+		);
 		await this.client.query(
 			`CREATE INDEX IF NOT EXISTS idx_${this.tableName}_user_id ON ${this.tableName}(user_id)`,
 		);
+		await this.client.query(
+			`CREATE INDEX IF NOT EXISTS idx_${this.tableName}_tenant_id ON ${this.tableName}(tenant_id)`,
+		);
 		await this.client.query(
 			`CREATE UNIQUE INDEX IF NOT EXISTS idx_${this.tableName}_key_hash ON ${this.tableName}(key_hash)`,
 		);
+		if (this.useJsonbMetadata) {
+			await this.client.query(
+				`CREATE INDEX IF NOT EXISTS idx_${this.tableName}_metadata ON ${this.tableName} USING GIN (metadata)`,
+			);
+		}
 	}
 
 	async createKey(record: KeyRecord): Promise<void> {
+		await this.insertRecords([record]);
+	}
+
+	/** Store all records with a single multi-row `INSERT`. */
+	async createKeys(records: KeyRecord[]): Promise<void> {
+		if (records.length === 0) return;
+		await this.insertRecords(records);
+	}
+
+	private async insertRecords(records: KeyRecord[]): Promise<void> {
+		const values: unknown[] = [];
+		const rows = records.map((record) => {
+			const params = this.recordValues(record).map((v, column) => {
+				values.push(v);
+				// metadata is the 7th column
+				return column === 6 && this.useJsonbMetadata
+					? `$${values.length}::jsonb`
+					: `$${values.length}`;
+			});
+			return `(${params.join(", ")})`;
+		});
 		await this.client.query(
 			`INSERT INTO ${this.tableName} (
-        id, user_id, prefix, key_hash, created_at, expires_at, metadata, uses_remaining, revoked_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, ${this.useJsonbMetadata ? "$7::jsonb" : "$7"}, $8, $9)`,
-			[
-				record.id,
-				record.userId,
-				record.prefix,
-				record.keyHash,
-				record.createdAt,
-				record.expiresAt ?? null,
-				record.metadata ? JSON.stringify(record.metadata) : null,
-				record.usesRemaining ?? null,
-				record.revokedAt ?? null,
-			],
+        ${KEY_COLUMNS}
+      ) VALUES ${rows.join(", ")}`,
+			values,
 		);
 	}
 
+	/** Values for `KEY_COLUMNS`, in order. */
+	private recordValues(record: KeyRecord): unknown[] {
+		return [
+			record.id,
+			record.userId,
+			record.prefix,
+			record.keyHash,
+			record.createdAt,
+			record.expiresAt ?? null,
+			record.metadata ? JSON.stringify(record.metadata) : null,
+			record.usesRemaining ?? null,
+			record.revokedAt ?? null,
+			record.secretId ?? null,
+			record.hint ?? null,
+			record.tenantId ?? null,
+			record.environment ?? null,
+		];
+	}
+
 	async findKeyByHash(keyHash: string): Promise<KeyRecord | null> {
 		const res = (await this.client.query(
-			`SELECT id, user_id, prefix, key_hash, created_at, expires_at, metadata, uses_remaining, revoked_at
+			`SELECT ${KEY_COLUMNS}
        FROM ${this.tableName} WHERE key_hash = $1 LIMIT 1`,
 			[keyHash],
 		)) as { rows?: Array<Record<string, unknown>> };
@@ -76,9 +142,19 @@ export class PostgresKeyStore implements KeyStoreAdapter {
 		return this.rowToRecord(row);
 	}
 
+	async findKeysByHashes(keyHashes: string[]): Promise<KeyRecord[]> {
+		if (keyHashes.length === 0) return [];
+		const res = (await this.client.query(
+			`SELECT ${KEY_COLUMNS}
+       FROM ${this.tableName} WHERE key_hash = ANY($1)`,
+			[keyHashes],
+		)) as { rows?: Array<Record<string, unknown>> };
+		return (res.rows ?? []).map((row) => this.rowToRecord(row));
+	}
+
 	async findKeyById(id: KeyId): Promise<KeyRecord | null> {
 		const res = (await this.client.query(
-			`SELECT id, user_id, prefix, key_hash, created_at, expires_at, metadata, uses_remaining, revoked_at
+			`SELECT ${KEY_COLUMNS}
        FROM ${this.tableName} WHERE id = $1 LIMIT 1`,
 			[id],
 		)) as { rows?: Array<Record<string, unknown>> };
@@ -90,8 +166,8 @@ export class PostgresKeyStore implements KeyStoreAdapter {
 	async updateKey(record: KeyRecord): Promise<void> {
 		await this.client.query(
 			`UPDATE ${this.tableName}
-       SET user_id = $1, prefix = $2, key_hash = $3, created_at = $4, expires_at = $5, metadata = ${this.useJsonbMetadata ? "$6::jsonb" : "$6"}, uses_remaining = $7, revoked_at = $8
-       WHERE id = $9`,
+       SET user_id = $1, prefix = $2, key_hash = $3, created_at = $4, expires_at = $5, metadata = ${this.useJsonbMetadata ? "$6::jsonb" : "$6"}, uses_remaining = $7, revoked_at = $8, secret_id = $9, hint = $10, tenant_id = $11, environment = $12
+       WHERE id = $13`,
 			[
 				record.userId,
 				record.prefix,
@@ -101,6 +177,10 @@ export class PostgresKeyStore implements KeyStoreAdapter {
 				record.metadata ? JSON.stringify(record.metadata) : null,
 				record.usesRemaining ?? null,
 				record.revokedAt ?? null,
+				record.secretId ?? null,
+				record.hint ?? null,
+				record.tenantId ?? null,
+				record.environment ?? null,
 				record.id,
 			],
 		);
@@ -128,6 +208,91 @@ export class PostgresKeyStore implements KeyStoreAdapter {
 		return (res.rows ?? []).map((r) => String(r.id as string));
 	}
 
+	async listKeys(input: ListKeysInput): Promise<ListKeysResult> {
+		const values: unknown[] = [input.userId];
+		let where = "user_id = $1";
+		if (input.tenantId !== undefined) {
+			values.push(input.tenantId);
+			where += ` AND tenant_id = $${values.length}`;
+		}
+		if (input.cursor != null) {
+			values.push(input.cursor);
+			where += ` AND id > $${values.length}`;
+		}
+		values.push(input.limit + 1);
+		const res = (await this.client.query(
+			`SELECT ${KEY_COLUMNS}
+       FROM ${this.tableName} WHERE ${where} ORDER BY id ASC LIMIT $${values.length}`,
+			values,
+		)) as { rows?: Array<Record<string, unknown>> };
+		const rows = res.rows ?? [];
+		const items = rows.slice(0, input.limit).map((r) => this.rowToRecord(r));
+		const nextCursor =
+			rows.length > input.limit ? items[items.length - 1].id : null;
+		return { items, nextCursor };
+	}
+
+	/**
+	 * Search keys by metadata and state. Equality and `{ contains }` filters are
+	 * folded into a single JSONB containment (`@>`) check, which can use the GIN
+	 * index when `useJsonbMetadata` is enabled. Text metadata is cast to JSONB.
+	 */
+	async findKeys(query: FindKeysQuery): Promise<ListKeysResult> {
+		const meta = this.useJsonbMetadata ? "metadata" : "metadata::jsonb";
+		const clauses: string[] = [];
+		const values: unknown[] = [];
+		const param = (v: unknown) => {
+			values.push(v);
+			return `$${values.length}`;
+		};
+
+		if (query.tenantId !== undefined) {
+			clauses.push(`tenant_id = ${param(query.tenantId)}`);
+		}
+		const containment: Record<string, unknown> = {};
+		for (const [field, expected] of Object.entries(query.metadata ?? {})) {
+			if (isContainsFilter(expected)) {
+				containment[field] = [expected.contains];
+			} else if (expected === null) {
+				clauses.push(
+					`coalesce(jsonb_typeof(${meta} -> ${param(field)}), 'null') = 'null'`,
+				);
+			} else {
+				containment[field] = expected;
+			}
+		}
+		if (Object.keys(containment).length > 0) {
+			clauses.push(`${meta} @> ${param(JSON.stringify(containment))}::jsonb`);
+		}
+		if (query.revoked !== undefined) {
+			clauses.push(
+				query.revoked ? "revoked_at IS NOT NULL" : "revoked_at IS NULL",
+			);
+		}
+		if (query.expired !== undefined) {
+			clauses.push(
+				query.expired
+					? `(expires_at IS NOT NULL AND expires_at <= ${param(query.now)})`
+					: `(expires_at IS NULL OR expires_at > ${param(query.now)})`,
+			);
+		}
+		if (query.cursor != null) {
+			clauses.push(`id > ${param(query.cursor)}`);
+		}
+		const where = clauses.length > 0 ? ` WHERE ${clauses.join(" AND ")}` : "";
+
+		const res = (await this.client.query(
+			`SELECT ${KEY_COLUMNS}
+       FROM ${this.tableName}${where} ORDER BY id ASC LIMIT ${param(query.limit + 1)}`,
+			values,
+		)) as { rows?: Array<Record<string, unknown>> };
+		const rows = res.rows ?? [];
+		const items = rows.slice(0, query.limit).map((r) => this.rowToRecord(r));
+		const nextCursor =
+			rows.length > query.limit ? items[items.length - 1].id : null;
+		return { items, nextCursor };
+	}
+
 	private rowToRecord(row: Record<string, unknown>): KeyRecord {
 		const rawMeta = row.metadata as unknown;
 		let metadata: Record<string, unknown> | undefined;
@@ -161,6 +326,22 @@ export class PostgresKeyStore implements KeyStoreAdapter {
 				(row.revoked_at as number | null | undefined) == null
 					? null
 					: Number(row.revoked_at as number),
+			secretId:
+				(row.secret_id as string | null | undefined) == null
+					? null
+					: String(row.secret_id as string),
+			hint:
+				(row.hint as string | null | undefined) == null
+					? null
+					: String(row.hint as string),
+			tenantId:
+				(row.tenant_id as string | null | undefined) == null
+					? null
+					: String(row.tenant_id as string),
+			environment:
+				row.environment === "test" || row.environment === "live"
+					? row.environment
+					: null,
 		};
 	}
 
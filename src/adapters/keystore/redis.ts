@@ -2,9 +2,19 @@
  * Redis-backed keystore adapter.
  *
  * Stores records in a Redis hash keyed by id and maintains a secondary mapping
- * from key hash to id for efficient lookups by plaintext key.
+ * from key hash to id for efficient lookups by plaintext key. A per-user set of
+ * ids backs `listKeys`, and a per-tenant set narrows tenant-scoped searches.
  */
-import type { KeyId, KeyRecord, KeyStoreAdapter } from "../../types/common";
+import type { RedisScanClient } from "../../types/adapters";
+import type {
+	FindKeysQuery,
+	KeyId,
+	KeyRecord,
+	KeyStoreAdapter,
+	ListKeysInput,
+	ListKeysResult,
+} from "../../types/common";
+import { matchesFindKeysQuery } from "../../utils/filter";
 import { now } from "../../utils/time";
 
 export class RedisKeyStore implements KeyStoreAdapter {
@@ -40,25 +50,89 @@ export class RedisKeyStore implements KeyStoreAdapter {
 		return `${this.keyPrefix}:khash:${keyHash}`;
 	}
 
+	private userIdsKey(userId: string): string {
+		return `${this.keyPrefix}:user:${userId}`;
+	}
+
+	private tenantIdsKey(tenantId: string): string {
+		return `${this.keyPrefix}:tenant:${tenantId}`;
+	}
+
+	private async sadd(key: string, member: string): Promise<void> {
+		if (this.client.sAdd) {
+			await this.client.sAdd(key, member);
+			return;
+		}
+		if (this.client.sadd) {
+			await this.client.sadd(key, member);
+			return;
+		}
+	}
+
+	private async srem(key: string, member: string): Promise<void> {
+		if (this.client.sRem) {
+			await this.client.sRem(key, member);
+			return;
+		}
+		if (this.client.srem) {
+			await this.client.srem(key, member);
+			return;
+		}
+	}
+
+	private async smembers(key: string): Promise<string[]> {
+		if (this.client.sMembers) {
+			return ((await this.client.sMembers(key)) ?? []) as string[];
+		}
+		if (this.client.smembers) {
+			return ((await this.client.smembers(key)) ?? []) as string[];
+		}
+		throw new Error("Redis client must support sMembers/smembers");
+	}
+
 	private async hset(
 		key: string,
 		data: Record<string, unknown>,
 	): Promise<void> {
-		const entries: [string, string][] = Object.entries(data).map(([k, v]) => [
-			k,
-			v == null ? "" : typeof v === "object" ? JSON.stringify(v) : String(v),
-		]);
+		const fields = this.toFields(data);
 		if (this.client.hSet) {
-			await this.client.hSet(key, Object.fromEntries(entries));
+			await this.client.hSet(key, fields);
 			return;
 		}
 		if (this.client.hset) {
-			await this.client.hset(key, Object.fromEntries(entries));
+			await this.client.hset(key, fields);
 			return;
 		}
 		throw new Error("Redis client must support hSet/hset");
 	}
 
+	private toFields(data: Record<string, unknown>): Record<string, string> {
+		const entries: [string, string][] = Object.entries(data).map(([k, v]) => [
+			k,
+			v == null ? "" : typeof v === "object" ? JSON.stringify(v) : String(v),
+		]);
+		return Object.fromEntries(entries);
+	}
+
+	/** Hash fields stored for a record. */
+	private serialize(record: KeyRecord): Record<string, unknown> {
+		return {
+			id: record.id,
+			userId: record.userId,
+			prefix: record.prefix,
+			keyHash: record.keyHash,
+			createdAt: record.createdAt,
+			expiresAt: record.expiresAt ?? "",
+			metadata: record.metadata ? JSON.stringify(record.metadata) : "",
+			usesRemaining: record.usesRemaining ?? "",
+			revokedAt: record.revokedAt ?? "",
+			secretId: record.secretId ?? "",
+			hint: record.hint ?? "",
+			tenantId: record.tenantId ?? "",
+			environment: record.environment ?? "",
+		};
+	}
+
 	private async hgetall(key: string): Promise<Record<string, string>> {
 		if (this.client.hGetAll) {
 			return ((await this.client.hGetAll(key)) ?? {}) as Record<string, string>;
@@ -72,21 +146,48 @@ export class RedisKeyStore implements KeyStoreAdapter {
 	async createKey(record: KeyRecord): Promise<void> {
 		const idKey = this.recordKey(record.id);
 		const hashKey = this.hashToIdKey(record.keyHash);
-		await this.hset(idKey, {
-			id: record.id,
-			userId: record.userId,
-			prefix: record.prefix,
-			keyHash: record.keyHash,
-			createdAt: record.createdAt,
-			expiresAt: record.expiresAt ?? "",
-			metadata: record.metadata ? JSON.stringify(record.metadata) : "",
-			usesRemaining: record.usesRemaining ?? "",
-			revokedAt: record.revokedAt ?? "",
-		});
+		await this.hset(idKey, this.serialize(record));
 		if (!this.client.set) {
 			throw new Error("Redis client must support set");
 		}
 		await this.client.set(hashKey, record.id);
+		if (record.userId)
+			await this.sadd(this.userIdsKey(record.userId), record.id);
+		if (record.tenantId)
+			await this.sadd(this.tenantIdsKey(record.tenantId), record.id);
+	}
+
+	/**
+	 * Store all records in one `MULTI` transaction (node-redis and ioredis),
+	 * falling back to `pipeline()` and then to sequential writes.
+	 */
+	async createKeys(records: KeyRecord[]): Promise<void> {
+		if (records.length === 0) return;
+		const batch = this.client.multi?.() ?? this.client.pipeline?.();
+		if (!batch) {
+			for (const record of records) await this.createKey(record);
+			return;
+		}
+		for (const record of records) {
+			const fields = this.toFields(this.serialize(record));
+			if (batch.hSet) batch.hSet(this.recordKey(record.id), fields);
+			else batch.hset(this.recordKey(record.id), fields);
+			batch.set(this.hashToIdKey(record.keyHash), record.id);
+			if (record.userId) {
+				if (batch.sAdd) batch.sAdd(this.userIdsKey(record.userId), record.id);
+				else batch.sadd(this.userIdsKey(record.userId), record.id);
+			}
+			if (record.tenantId) {
+				const tenantKey = this.tenantIdsKey(record.tenantId);
+				if (batch.sAdd) batch.sAdd(tenantKey, record.id);
+				else batch.sadd(tenantKey, record.id);
+			}
+		}
+		const replies = await batch.exec();
+		// ioredis reports per-command failures as [error, result] pairs
+		for (const reply of Array.isArray(replies) ? replies : []) {
+			if (Array.isArray(reply) && reply[0]) throw reply[0];
+		}
 	}
 
 	async findKeyByHash(keyHash: string): Promise<KeyRecord | null> {
@@ -98,6 +199,27 @@ export class RedisKeyStore implements KeyStoreAdapter {
 		return this.findKeyById(String(id));
 	}
 
+	async findKeysByHashes(keyHashes: string[]): Promise<KeyRecord[]> {
+		if (keyHashes.length === 0) return [];
+		const hashKeys = keyHashes.map((h) => this.hashToIdKey(h));
+		let ids: unknown[];
+		if (this.client.mGet) {
+			ids = await this.client.mGet(hashKeys);
+		} else if (this.client.mget) {
+			ids = await this.client.mget(...hashKeys);
+		} else if (this.client.get) {
+			ids = await Promise.all(hashKeys.map((k) => this.client.get(k)));
+		} else {
+			throw new Error("Redis client must support mGet/mget or get");
+		}
+		const records = await Promise.all(
+			(ids ?? [])
+				.filter((id) => id !== null && id !== undefined)
+				.map((id) => this.findKeyById(String(id))),
+		);
+		return records.filter((r): r is KeyRecord => r !== null);
+	}
+
 	async findKeyById(id: KeyId): Promise<KeyRecord | null> {
 		const raw = await this.hgetall(this.recordKey(id));
 		if (!raw || Object.keys(raw).length === 0) return null;
@@ -106,21 +228,23 @@ export class RedisKeyStore implements KeyStoreAdapter {
 
 	async updateKey(record: KeyRecord): Promise<void> {
 		const idKey = this.recordKey(record.id);
-		await this.hset(idKey, {
-			id: record.id,
-			userId: record.userId,
-			prefix: record.prefix,
-			keyHash: record.keyHash,
-			createdAt: record.createdAt,
-			expiresAt: record.expiresAt ?? "",
-			metadata: record.metadata ? JSON.stringify(record.metadata) : "",
-			usesRemaining: record.usesRemaining ?? "",
-			revokedAt: record.revokedAt ?? "",
-		});
+		const previous = await this.hgetall(idKey);
+		if (
+			previous?.keyHash &&
+			previous.keyHash !== record.keyHash &&
+			this.client.del
+		) {
+			await this.client.del(this.hashToIdKey(previous.keyHash));
+		}
+		await this.hset(idKey, this.serialize(record));
 		if (!this.client.set) {
 			throw new Error("Redis client must support set");
 		}
 		await this.client.set(this.hashToIdKey(record.keyHash), record.id);
+		if (record.userId)
+			await this.sadd(this.userIdsKey(record.userId), record.id);
+		if (record.tenantId)
+			await this.sadd(this.tenantIdsKey(record.tenantId), record.id);
 	}
 
 	async revokeKeyById(id: KeyId): Promise<void> {
@@ -139,14 +263,48 @@ export class RedisKeyStore implements KeyStoreAdapter {
 			throw new Error("Redis client must support del for hard removal");
 		}
 		await this.client.del(idKey);
+		if (record?.userId) await this.srem(this.userIdsKey(record.userId), id);
+		if (record?.tenantId) {
+			await this.srem(this.tenantIdsKey(record.tenantId), id);
+		}
+	}
+
+	/**
+	 * All keys matching `pattern`. Uses SCAN so Redis is not blocked the way a
+	 * KEYS over the whole keyspace would; falls back to KEYS for clients
+	 * without `scan`, and returns `null` when the client has neither.
+	 */
+	private async scanKeys(pattern: string): Promise<string[] | null> {
+		const client = this.client as RedisScanClient;
+		if (!client.scan) {
+			if (!client.keys) return null;
+			return ((await client.keys(pattern)) as unknown[]).map(String);
+		}
+		const found = new Set<string>();
+		let cursor = "0";
+		do {
+			// node-redis (camelCase commands) takes an options object, ioredis
+			// takes the arguments as they go on the wire.
+			const reply = this.client.sAdd
+				? await client.scan(cursor, { MATCH: pattern, COUNT: 100 })
+				: await client.scan(cursor, "MATCH", pattern, "COUNT", 100);
+			const [next, keys] = Array.isArray(reply)
+				? (reply as [unknown, unknown[]])
+				: [
+						(reply as { cursor: unknown }).cursor,
+						(reply as { keys: unknown[] }).keys,
+					];
+			for (const key of keys) found.add(String(key));
+			cursor = String(next);
+		} while (cursor !== "0");
+		return Array.from(found);
 	}
 
 	async findExpiredIds(olderThan: number, limit: number): Promise<KeyId[]> {
 		const ids: KeyId[] = [];
 		const prefix = `${this.keyPrefix}:key:`;
-		const keysCmd = (this.client as any).keys;
-		if (!keysCmd) return ids;
-		const keys = await keysCmd(`${prefix}*`);
+		const keys = await this.scanKeys(`${prefix}*`);
+		if (!keys) return ids;
 		for (const k of keys) {
 			const raw = await this.hgetall(k);
 			const exp = raw?.expiresAt ? Number(raw.expiresAt) : NaN;
@@ -159,6 +317,74 @@ export class RedisKeyStore implements KeyStoreAdapter {
 		return ids;
 	}
 
+	/**
+	 * List a user's keys from the per-user id set. Ids whose record no longer
+	 * belongs to the user (e.g. after `updateKey` changed `userId`) are skipped.
+	 */
+	async listKeys(input: ListKeysInput): Promise<ListKeysResult> {
+		const ids = (await this.smembers(this.userIdsKey(input.userId)))
+			.map((id) => String(id))
+			.filter((id) => input.cursor == null || id > input.cursor)
+			.sort();
+		const items: KeyRecord[] = [];
+		let hasMore = false;
+		for (const id of ids) {
+			const record = await this.findKeyById(id);
+			if (!record || record.userId !== input.userId) continue;
+			if (
+				input.tenantId !== undefined &&
+				(record.tenantId ?? null) !== input.tenantId
+			)
+				continue;
+			if (items.length >= input.limit) {
+				hasMore = true;
+				break;
+			}
+			items.push(record);
+		}
+		return {
+			items,
+			nextCursor: hasMore ? items[items.length - 1].id : null,
+		};
+	}
+
+	/**
+	 * Search keys by scanning every record (Redis has no secondary indexes on
+	 * metadata), or only the tenant's id set when `tenantId` is given. Without
+	 * a tenant this requires the `scan` or `keys` command; returns an empty page
+	 * otherwise.
+	 */
+	async findKeys(query: FindKeysQuery): Promise<ListKeysResult> {
+		let candidates: string[];
+		if (query.tenantId) {
+			candidates = await this.smembers(this.tenantIdsKey(query.tenantId));
+		} else {
+			const prefix = `${this.keyPrefix}:key:`;
+			const keys = await this.scanKeys(`${prefix}*`);
+			if (!keys) return { items: [], nextCursor: null };
+			candidates = keys.map((k) => k.slice(prefix.length));
+		}
+		const ids = candidates
+			.map((id) => String(id))
+			.filter((id) => query.cursor == null || id > query.cursor)
+			.sort();
+		const items: KeyRecord[] = [];
+		let hasMore = false;
+		for (const id of ids) {
+			const record = await this.findKeyById(id);
+			if (!record || !matchesFindKeysQuery(record, query)) continue;
+			if (items.length >= query.limit) {
+				hasMore = true;
+				break;
+			}
+			items.push(record);
+		}
+		return {
+			items,
+			nextCursor: hasMore ? items[items.length - 1].id : null,
+		};
+	}
+
 	private deserialize(raw: Record<string, string>): KeyRecord {
 		const parseMaybeNumber = (v: string | undefined): number | null => {
 			if (v == null || v === "") return null;
@@ -191,6 +417,13 @@ export class RedisKeyStore implements KeyStoreAdapter {
 			metadata: parseMaybeJson(raw.metadata),
 			usesRemaining: parseMaybeNumber(raw.usesRemaining),
 			revokedAt: parseMaybeNumber(raw.revokedAt),
+			secretId: parseMaybeString(raw.secretId),
+			hint: parseMaybeString(raw.hint),
+			tenantId: parseMaybeString(raw.tenantId),
+			environment:
+				raw.environment === "test" || raw.environment === "live"
+					? raw.environment
+					: null,
 		};
 	}
 }
@@ -4,9 +4,24 @@
  * Targets a `better-sqlite3`-like API and handles basic DDL creation on first
  * use. Stores metadata as JSON text for portability.
  */
-import type { KeyId, KeyRecord, KeyStoreAdapter } from "../../types/common";
+import type {
+	FindKeysQuery,
+	KeyId,
+	KeyRecord,
+	KeyStoreAdapter,
+	ListKeysInput,
+	ListKeysResult,
+} from "../../types/common";
+import { sqliteFindKeysWhere } from "../../utils/filter";
 import { now } from "../../utils/time";
 
+/** Columns read and written for a `KeyRecord`, in insert order. */
+const KEY_COLUMNS =
+	"id, user_id, prefix, key_hash, created_at, expires_at, metadata, uses_remaining, revoked_at, secret_id, hint, tenant_id, environment";
+
+/** Columns added after the first schema; older tables get them on startup. */
+const ADDED_COLUMNS = ["secret_id", "hint", "tenant_id", "environment"];
+
 /**
  * Basic SQLite adapter for the UsefulKey keystore.
  *
@@ -30,7 +45,7 @@ export class SqliteKeyStore implements KeyStoreAdapter {
 	}
 
 	private initialize(): void {
-		const statements = [
+		this.execute([
 			`CREATE TABLE IF NOT EXISTS ${this.tableName} (
 				id TEXT PRIMARY KEY,
 				user_id TEXT,
@@ -40,12 +55,39 @@ export class SqliteKeyStore implements KeyStoreAdapter {
 				expires_at INTEGER,
 				metadata TEXT,
 				uses_remaining INTEGER,
-				revoked_at INTEGER
+				revoked_at INTEGER,
+				secret_id TEXT,
+				hint TEXT,
+				tenant_id TEXT,
+				environment TEXT
 			)`,
+		]);
+		this.addMissingColumns();
+		this.execute([
 			`CREATE INDEX IF NOT EXISTS idx_${this.tableName}_user_id ON ${this.tableName}(user_id)`,
+			`CREATE INDEX IF NOT EXISTS idx_${this.tableName}_tenant_id ON ${this.tableName}(tenant_id)`,
 			`CREATE UNIQUE INDEX IF NOT EXISTS idx_${this.tableName}_key_hash ON ${this.tableName}(key_hash)`,
-		];
+		]);
+	}
+
+	/**
+	 * `CREATE TABLE IF NOT EXISTS` leaves an existing table untouched, so add
+	 * the columns it predates. Skipped when the driver cannot list columns.
+	 */
+	private addMissingColumns(): void {
+		const stmt = this.db.prepare(`PRAGMA table_info(${this.tableName})`);
+		const rows = (stmt.all ? stmt.all() : []) as Array<{ name: string }>;
+		if (rows.length === 0) return;
+		const existing = new Set(rows.map((row) => row.name));
+		this.execute(
+			ADDED_COLUMNS.filter((column) => !existing.has(column)).map(
+				(column) => `ALTER TABLE ${this.tableName} ADD COLUMN ${column} TEXT`,
+			),
+		);
+	}
 
+	private execute(statements: string[]): void {
+		if (statements.length === 0) return;
 		if (this.db.exec) {
 			this.db.exec(statements.join("; "));
 		} else {
@@ -60,12 +102,44 @@ export class SqliteKeyStore implements KeyStoreAdapter {
 	}
 
 	async createKey(record: KeyRecord): Promise<void> {
-		const stmt = this.db.prepare(
+		this.insertStatement().run(...this.recordValues(record));
+	}
+
+	/**
+	 * Store all records in one transaction, using the client's `transaction()`
+	 * helper when present (`better-sqlite3`) and `BEGIN`/`COMMIT` otherwise.
+	 */
+	async createKeys(records: KeyRecord[]): Promise<void> {
+		if (records.length === 0) return;
+		const stmt = this.insertStatement();
+		const insertAll = () => {
+			for (const record of records) stmt.run(...this.recordValues(record));
+		};
+		if (typeof this.db.transaction === "function") {
+			this.db.transaction(insertAll)();
+			return;
+		}
+		this.db.prepare("BEGIN").run();
+		try {
+			insertAll();
+			this.db.prepare("COMMIT").run();
+		} catch (err) {
+			this.db.prepare("ROLLBACK").run();
+			throw err;
+		}
+	}
+
+	private insertStatement() {
+		return this.db.prepare(
 			`INSERT INTO ${this.tableName} (
-        id, user_id, prefix, key_hash, created_at, expires_at, metadata, uses_remaining, revoked_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        ${KEY_COLUMNS}
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
 		);
-		stmt.run(
+	}
+
+	/** Values for `KEY_COLUMNS`, in order. */
+	private recordValues(record: KeyRecord): unknown[] {
+		return [
 			record.id,
 			record.userId,
 			record.prefix,
@@ -75,13 +149,17 @@ export class SqliteKeyStore implements KeyStoreAdapter {
 			record.metadata ? JSON.stringify(record.metadata) : null,
 			record.usesRemaining ?? null,
 			record.revokedAt ?? null,
-		);
+			record.secretId ?? null,
+			record.hint ?? null,
+			record.tenantId ?? null,
+			record.environment ?? null,
+		];
 	}
 
 	async findKeyByHash(keyHash: string): Promise<KeyRecord | null> {
 		const row = this.db
 			.prepare(
-				`SELECT id, user_id, prefix, key_hash, created_at, expires_at, metadata, uses_remaining, revoked_at
+				`SELECT ${KEY_COLUMNS}
          FROM ${this.tableName} WHERE key_hash = ?`,
 			)
 			.get(keyHash);
@@ -89,10 +167,22 @@ export class SqliteKeyStore implements KeyStoreAdapter {
 		return this.rowToRecord(row as Record<string, unknown>);
 	}
 
+	async findKeysByHashes(keyHashes: string[]): Promise<KeyRecord[]> {
+		if (keyHashes.length === 0) return [];
+		const placeholders = keyHashes.map(() => "?").join(", ");
+		const rows = this.db
+			.prepare(
+				`SELECT ${KEY_COLUMNS}
+         FROM ${this.tableName} WHERE key_hash IN (${placeholders})`,
+			)
+			.all(...keyHashes) as Array<Record<string, unknown>>;
+		return rows.map((row) => this.rowToRecord(row));
+	}
+
 	async findKeyById(id: KeyId): Promise<KeyRecord | null> {
 		const row = this.db
 			.prepare(
-				`SELECT id, user_id, prefix, key_hash, created_at, expires_at, metadata, uses_remaining, revoked_at
+				`SELECT ${KEY_COLUMNS}
          FROM ${this.tableName} WHERE id = ?`,
 			)
 			.get(id);
@@ -103,7 +193,7 @@ export class SqliteKeyStore implements KeyStoreAdapter {
 	async updateKey(record: KeyRecord): Promise<void> {
 		const stmt = this.db.prepare(
 			`UPDATE ${this.tableName}
-       SET user_id = ?, prefix = ?, key_hash = ?, created_at = ?, expires_at = ?, metadata = ?, uses_remaining = ?, revoked_at = ?
+       SET user_id = ?, prefix = ?, key_hash = ?, created_at = ?, expires_at = ?, metadata = ?, uses_remaining = ?, revoked_at = ?, secret_id = ?, hint = ?, tenant_id = ?, environment = ?
        WHERE id = ?`,
 		);
 		stmt.run(
@@ -115,6 +205,10 @@ export class SqliteKeyStore implements KeyStoreAdapter {
 			record.metadata ? JSON.stringify(record.metadata) : null,
 			record.usesRemaining ?? null,
 			record.revokedAt ?? null,
+			record.secretId ?? null,
+			record.hint ?? null,
+			record.tenantId ?? null,
+			record.environment ?? null,
 			record.id,
 		);
 	}
@@ -142,6 +236,50 @@ export class SqliteKeyStore implements KeyStoreAdapter {
 		return rows.map((r) => String(r.id as string));
 	}
 
+	async listKeys(input: ListKeysInput): Promise<ListKeysResult> {
+		let where = "user_id = ?";
+		const args: unknown[] = [input.userId];
+		if (input.tenantId !== undefined) {
+			where += " AND tenant_id = ?";
+			args.push(input.tenantId);
+		}
+		if (input.cursor != null) {
+			where += " AND id > ?";
+			args.push(input.cursor);
+		}
+		args.push(input.limit + 1);
+		const stmt = this.db.prepare(
+			`SELECT ${KEY_COLUMNS}
+         FROM ${this.tableName} WHERE ${where} ORDER BY id ASC LIMIT ?`,
+		);
+		const rows = (stmt.all ? (stmt.all(...args) as unknown[]) : []) as Array<
+			Record<string, unknown>
+		>;
+		const items = rows
+			.slice(0, input.limit)
+			.map((r) => this.rowToRecord(r as Record<string, unknown>));
+		const nextCursor =
+			rows.length > input.limit ? items[items.length - 1].id : null;
+		return { items, nextCursor };
+	}
+
+	async findKeys(query: FindKeysQuery): Promise<ListKeysResult> {
+		const { where, args } = sqliteFindKeysWhere(query);
+		const stmt = this.db.prepare(
+			`SELECT ${KEY_COLUMNS}
+         FROM ${this.tableName}${where} ORDER BY id ASC LIMIT ?`,
+		);
+		const rows = (
+			stmt.all ? (stmt.all(...args, query.limit + 1) as unknown[]) : []
+		) as Array<Record<string, unknown>>;
+		const items = rows
+			.slice(0, query.limit)
+			.map((r) => this.rowToRecord(r as Record<string, unknown>));
+		const nextCursor =
+			rows.length > query.limit ? items[items.length - 1].id : null;
+		return { items, nextCursor };
+	}
+
 	private rowToRecord(row: Record<string, unknown>): KeyRecord {
 		return {
 			id: String(row.id as string),
@@ -167,6 +305,22 @@ export class SqliteKeyStore implements KeyStoreAdapter {
 				(row.revoked_at as number | null | undefined) == null
 					? null
 					: Number(row.revoked_at as number),
+			secretId:
+				(row.secret_id as string | null | undefined) == null
+					? null
+					: String(row.secret_id as string),
+			hint:
+				(row.hint as string | null | undefined) == null
+					? null
+					: String(row.hint as string),
+			tenantId:
+				(row.tenant_id as string | null | undefined) == null
+					? null
+					: String(row.tenant_id as string),
+			environment:
+				row.environment === "test" || row.environment === "live"
+					? row.environment
+					: null,
 		};
 	}
 
@@ -6,7 +6,9 @@ import { now } from "../../utils/time";
  * Cloudflare KV-backed rate limit store.
  *
  * Implements fixed-window via a single key with expiration and a numeric count
- * encoded in the value. Implements token bucket via a single key storing
+ * encoded in the value. Implements sliding window via a key storing
+ * "windowStart:previous:current" that expires after two windows. Implements
+ * token bucket via a single key storing
  * "tokens:lastRefill" with no intrinsic TTL. Can accept either the generic
  * interface or native KVNamespace objects directly.
  */
@@ -78,6 +80,46 @@ export class CloudflareKvRateLimitStore implements RateLimitStoreAdapter {
 		return { success: false, remaining: 0, reset: kNow + durationMs };
 	}
 
+	async consumeSlidingWindow(
+		namespace: string,
+		identifier: string,
+		limit: number,
+		durationMs: Milliseconds,
+	): Promise<{ success: boolean; remaining: number; reset: number }> {
+		const k = `${this.key(namespace, identifier)}:sw`;
+		const kNow = now();
+		const windowStart = kNow - (kNow % durationMs);
+		const reset = windowStart + durationMs;
+
+		const raw = await this.kv.get(k, "text");
+		let previous = 0;
+		let current = 0;
+		if (raw) {
+			const [storedStart, storedPrevious, storedCurrent] = raw
+				.split(":")
+				.map(Number);
+			if (storedStart === windowStart) {
+				previous = storedPrevious || 0;
+				current = storedCurrent || 0;
+			} else if (storedStart === windowStart - durationMs) {
+				previous = storedCurrent || 0;
+			}
+		}
+
+		const used = previous * ((reset - kNow) / durationMs) + current;
+		if (used + 1 > limit) {
+			return { success: false, remaining: 0, reset };
+		}
+		await this.kv.put(k, `${windowStart}:${previous}:${current + 1}`, {
+			expirationTtl: Math.ceil((durationMs * 2) / 1000),
+		});
+		return {
+			success: true,
+			remaining: Math.max(0, Math.floor(limit - used - 1)),
+			reset,
+		};
+	}
+
 	async consumeTokenBucket(
 		namespace: string,
 		identifier: string,
@@ -128,12 +170,13 @@ export class CloudflareKvRateLimitStore implements RateLimitStoreAdapter {
 	}
 
 	async reset(namespace: string, identifier: string): Promise<void> {
-		if (typeof this.kv.delete === "function") {
-			await this.kv.delete(this.key(namespace, identifier));
-		} else {
-			await this.kv.put(this.key(namespace, identifier), "0", {
-				expirationTtl: 1,
-			});
+		const k = this.key(namespace, identifier);
+		for (const key of [k, `${k}:sw`]) {
+			if (typeof this.kv.delete === "function") {
+				await this.kv.delete(key);
+			} else {
+				await this.kv.put(key, "0", { expirationTtl: 1 });
+			}
 		}
 	}
 }
@@ -1,15 +1,27 @@
 /**
  * In‑memory rate limit store adapter.
  *
- * Implements fixed window counters and a token bucket with linear
- * refill. Suitable for tests and single‑process development servers.
+ * Implements fixed window counters, sliding window counters, a token bucket
+ * with linear refill, GCRA and concurrency leases, and refunds for stacked
+ * limits. Suitable for tests and single‑process development servers.
  */
-import type { RateLimitStoreAdapter } from "../../types/common";
+import type {
+	RateLimitRefund,
+	RateLimitStoreAdapter,
+} from "../../types/common";
 import { now } from "../../utils/time";
 
 export class MemoryRateLimitStore implements RateLimitStoreAdapter {
 	readonly ready?: Promise<void>;
 	private windows = new Map<string, { count: number; reset: number }>();
+	private slidingWindows = new Map<
+		string,
+		{ windowStart: number; previous: number; current: number }
+	>();
+	/** Expiry of each held lease by lease id, per key. */
+	private leases = new Map<string, Map<string, number>>();
+	/** Theoretical arrival time per key for GCRA. */
+	private arrivals = new Map<string, number>();
 	private buckets = new Map<
 		string,
 		{
@@ -76,6 +88,39 @@ export class MemoryRateLimitStore implements RateLimitStoreAdapter {
 		return { success: false, remaining: 0, reset: entry.reset };
 	}
 
+	/** Count a request against the current window plus the weighted previous one. */
+	async consumeSlidingWindow(
+		namespace: string,
+		identifier: string,
+		limit: number,
+		durationMs: number,
+	): Promise<{ success: boolean; remaining: number; reset: number }> {
+		const k = this.key(namespace, identifier);
+		const nowMs = now();
+		const windowStart = nowMs - (nowMs % durationMs);
+		const reset = windowStart + durationMs;
+
+		let entry = this.slidingWindows.get(k);
+		if (!entry || entry.windowStart !== windowStart) {
+			const previous =
+				entry?.windowStart === windowStart - durationMs ? entry.current : 0;
+			entry = { windowStart, previous, current: 0 };
+			this.slidingWindows.set(k, entry);
+		}
+
+		const weight = (reset - nowMs) / durationMs;
+		const used = entry.previous * weight + entry.current;
+		if (used + 1 <= limit) {
+			entry.current += 1;
+			return {
+				success: true,
+				remaining: Math.max(0, Math.floor(limit - used - 1)),
+				reset,
+			};
+		}
+		return { success: false, remaining: 0, reset };
+	}
+
 	/** Consume tokens from a rolling token bucket with linear refill. */
 	async consumeTokenBucket(
 		namespace: string,
@@ -128,10 +173,112 @@ export class MemoryRateLimitStore implements RateLimitStoreAdapter {
 		};
 	}
 
-	/** Clear both window and token bucket state for the identifier. */
+	/** Space requests `periodMs / rate` apart, allowing `burst` at once. */
+	async consumeGcra(
+		namespace: string,
+		identifier: string,
+		rate: number,
+		periodMs: number,
+		burst: number,
+	): Promise<{ success: boolean; remaining: number; reset: number }> {
+		const k = this.key(namespace, identifier);
+		const nowMs = now();
+		const interval = periodMs / rate;
+		const tolerance = interval * burst;
+		const tat = Math.max(this.arrivals.get(k) ?? nowMs, nowMs) + interval;
+		const allowAt = tat - tolerance;
+		if (allowAt > nowMs) {
+			return { success: false, remaining: 0, reset: Math.ceil(allowAt) };
+		}
+		this.arrivals.set(k, tat);
+		return {
+			success: true,
+			remaining: Math.floor((nowMs - allowAt) / interval),
+			reset: Math.ceil(tat),
+		};
+	}
+
+	/** Take a concurrency slot unless `limit` unexpired leases are held. */
+	async acquireLease(
+		namespace: string,
+		identifier: string,
+		leaseId: string,
+		limit: number,
+		ttlMs: number,
+	): Promise<{ success: boolean; remaining: number; reset: number }> {
+		const k = this.key(namespace, identifier);
+		const nowMs = now();
+		const held = this.leases.get(k) ?? new Map<string, number>();
+		for (const [id, expiresAt] of Array.from(held)) {
+			if (expiresAt <= nowMs) held.delete(id);
+		}
+		if (held.size >= limit) {
+			return {
+				success: false,
+				remaining: 0,
+				reset: Math.min(...Array.from(held.values())),
+			};
+		}
+		held.set(leaseId, nowMs + ttlMs);
+		this.leases.set(k, held);
+		return {
+			success: true,
+			remaining: limit - held.size,
+			reset: nowMs + ttlMs,
+		};
+	}
+
+	/** Free a lease; unknown leases are ignored. */
+	async releaseLease(
+		namespace: string,
+		identifier: string,
+		leaseId: string,
+	): Promise<void> {
+		const k = this.key(namespace, identifier);
+		const held = this.leases.get(k);
+		held?.delete(leaseId);
+		if (held?.size === 0) this.leases.delete(k);
+	}
+
+	/** Give back one request's worth of a limit consumed earlier. */
+	async refund(
+		namespace: string,
+		identifier: string,
+		refund: RateLimitRefund,
+	): Promise<void> {
+		const k = this.key(namespace, identifier);
+		if (refund.kind === "fixed") {
+			const entry = this.windows.get(k);
+			if (entry && entry.reset > now() && entry.count > 0) entry.count -= 1;
+		} else if (refund.kind === "slidingWindow") {
+			const entry = this.slidingWindows.get(k);
+			const windowStart =
+				refund.consumedAt - (refund.consumedAt % refund.durationMs);
+			if (entry?.windowStart === windowStart) {
+				entry.current = Math.max(0, entry.current - 1);
+			} else if (entry?.windowStart === windowStart + refund.durationMs) {
+				entry.previous = Math.max(0, entry.previous - 1);
+			}
+		} else if (refund.kind === "tokenBucket") {
+			const bucket = this.buckets.get(k);
+			if (bucket) {
+				bucket.tokens = Math.min(refund.capacity, bucket.tokens + refund.cost);
+			}
+		} else if (refund.kind === "gcra") {
+			const tat = this.arrivals.get(k);
+			if (tat !== undefined) {
+				this.arrivals.set(k, tat - refund.periodMs / refund.rate);
+			}
+		}
+	}
+
+	/** Clear window, sliding window, token bucket, GCRA and lease state for the identifier. */
 	async reset(namespace: string, identifier: string): Promise<void> {
 		const k = this.key(namespace, identifier);
+		this.leases.delete(k);
+		this.arrivals.delete(k);
 		this.windows.delete(k);
+		this.slidingWindows.delete(k);
 		this.buckets.delete(k);
 	}
 }
@@ -1,16 +1,24 @@
 /**
  * Postgres-backed rate limit store.
  *
- * Provides fixed window counters and a rolling token bucket using standard SQL
- * operations. Creates required tables and indexes on first use.
+ * Provides fixed window counters, sliding window counters, a rolling token
+ * bucket, GCRA and concurrency leases, and refunds for stacked limits, using
+ * standard SQL operations. Creates required tables and indexes on first use.
  */
 import type { PgLikeClient } from "../../types/adapters";
-import type { Milliseconds, RateLimitStoreAdapter } from "../../types/common";
+import type {
+	Milliseconds,
+	RateLimitRefund,
+	RateLimitStoreAdapter,
+} from "../../types/common";
 import { now } from "../../utils/time";
 
 export class PostgresRateLimitStore implements RateLimitStoreAdapter {
 	private readonly tableName: string;
 	private readonly bucketTableName: string;
+	private readonly slidingTableName: string;
+	private readonly gcraTableName: string;
+	private readonly leaseTableName: string;
 	readonly ready?: Promise<void>;
 
 	constructor(
@@ -19,6 +27,9 @@ export class PostgresRateLimitStore implements RateLimitStoreAdapter {
 	) {
 		this.tableName = options?.tableName ?? "usefulkey_rate_limits";
 		this.bucketTableName = `${this.tableName}_buckets`;
+		this.slidingTableName = `${this.tableName}_sliding`;
+		this.gcraTableName = `${this.tableName}_gcra`;
+		this.leaseTableName = `${this.tableName}_leases`;
 		this.ready = this.initialize();
 	}
 
@@ -52,6 +63,46 @@ export class PostgresRateLimitStore implements RateLimitStoreAdapter {
 		await this.client.query(
 			`CREATE INDEX IF NOT EXISTS idx_${this.bucketTableName}_lastRefill ON ${this.bucketTableName}(lastRefill)`,
 		);
+
+		await this.client.query(
+			`CREATE TABLE IF NOT EXISTS ${this.slidingTableName} (
+        namespace TEXT NOT NULL,
+        identifier TEXT NOT NULL,
+        windowStart BIGINT NOT NULL,
+        previousCount INTEGER NOT NULL,
+        currentCount INTEGER NOT NULL,
+        PRIMARY KEY(namespace, identifier)
+      )`,
+		);
+		await this.client.query(
+			`CREATE INDEX IF NOT EXISTS idx_${this.slidingTableName}_windowStart ON ${this.slidingTableName}(windowStart)`,
+		);
+
+		await this.client.query(
+			`CREATE TABLE IF NOT EXISTS ${this.gcraTableName} (
+        namespace TEXT NOT NULL,
+        identifier TEXT NOT NULL,
+        tat DOUBLE PRECISION NOT NULL,
+        PRIMARY KEY(namespace, identifier)
+      )`,
+		);
+		await this.client.query(
+			`CREATE INDEX IF NOT EXISTS idx_${this.gcraTableName}_tat ON ${this.gcraTableName}(tat)`,
+		);
+
+		await this.client.query(
+			`CREATE TABLE IF NOT EXISTS ${this.leaseTableName} (
+        namespace TEXT NOT NULL,
+        identifier TEXT NOT NULL,
+        slot INTEGER NOT NULL,
+        leaseId TEXT NOT NULL,
+        expiresAt BIGINT NOT NULL,
+        PRIMARY KEY(namespace, identifier, slot)
+      )`,
+		);
+		await this.client.query(
+			`CREATE INDEX IF NOT EXISTS idx_${this.leaseTableName}_expiresAt ON ${this.leaseTableName}(expiresAt)`,
+		);
 	}
 
 	async incrementAndCheck(
@@ -124,6 +175,55 @@ export class PostgresRateLimitStore implements RateLimitStoreAdapter {
 		return { success: false, remaining: 0, reset: Number(row.reset) };
 	}
 
+	/**
+	 * Sliding window in one conditional upsert, like GCRA: the stored windows
+	 * are rolled forward and the request is only counted when it fits, so
+	 * concurrent requests cannot all read the old count and pass. No row comes
+	 * back when the request is over the limit.
+	 */
+	async consumeSlidingWindow(
+		namespace: string,
+		identifier: string,
+		limit: number,
+		durationMs: Milliseconds,
+	): Promise<{ success: boolean; remaining: number; reset: number }> {
+		const kNow = now();
+		const windowStart = kNow - (kNow % durationMs);
+		const reset = windowStart + durationMs;
+		const t = this.slidingTableName;
+		// The stored counts as seen from the current window.
+		const previous = `CASE WHEN ${t}.windowStart = $3::bigint THEN ${t}.previousCount
+           WHEN ${t}.windowStart = $3::bigint - $4::bigint THEN ${t}.currentCount ELSE 0 END`;
+		const current = `CASE WHEN ${t}.windowStart = $3::bigint THEN ${t}.currentCount ELSE 0 END`;
+		const res = (await this.client.query(
+			`INSERT INTO ${t} (namespace, identifier, windowStart, previousCount, currentCount)
+       VALUES ($1, $2, $3::bigint, 0, 1)
+       ON CONFLICT (namespace, identifier) DO UPDATE SET windowStart = EXCLUDED.windowStart,
+         previousCount = ${previous},
+         currentCount = ${current} + 1
+         WHERE (${previous}) * $5::double precision + (${current}) + 1 <= $6::double precision
+       RETURNING previousCount AS "previousCount", currentCount AS "currentCount"`,
+			[
+				namespace,
+				identifier,
+				windowStart,
+				durationMs,
+				(reset - kNow) / durationMs,
+				limit,
+			],
+		)) as { rows?: Array<Record<string, unknown>> };
+		const row = res.rows?.[0];
+		if (!row) return { success: false, remaining: 0, reset };
+		const used =
+			Number(row.previousCount) * ((reset - kNow) / durationMs) +
+			Number(row.currentCount);
+		return {
+			success: true,
+			remaining: Math.max(0, Math.floor(limit - used)),
+			reset,
+		};
+	}
+
 	async consumeTokenBucket(
 		namespace: string,
 		identifier: string,
@@ -201,6 +301,164 @@ export class PostgresRateLimitStore implements RateLimitStoreAdapter {
 		};
 	}
 
+	/**
+	 * GCRA in one conditional upsert, so concurrent requests cannot both take
+	 * the last slot. No row comes back when the request is over the limit.
+	 */
+	async consumeGcra(
+		namespace: string,
+		identifier: string,
+		rate: number,
+		periodMs: Milliseconds,
+		burst: number,
+	): Promise<{ success: boolean; remaining: number; reset: number }> {
+		const kNow = now();
+		const interval = periodMs / rate;
+		const tolerance = interval * burst;
+		const res = (await this.client.query(
+			`INSERT INTO ${this.gcraTableName} (namespace, identifier, tat)
+       VALUES ($1, $2, $3::double precision + $4::double precision)
+       ON CONFLICT (namespace, identifier) DO UPDATE
+         SET tat = GREATEST(${this.gcraTableName}.tat, $3::double precision) + $4::double precision
+         WHERE GREATEST(${this.gcraTableName}.tat, $3::double precision) + $4::double precision - $5::double precision <= $3::double precision
+       RETURNING tat`,
+			[namespace, identifier, kNow, interval, tolerance],
+		)) as { rows?: Array<Record<string, unknown>> };
+		const row = res.rows?.[0];
+		if (row) {
+			const tat = Number(row.tat);
+			return {
+				success: true,
+				remaining: Math.floor((kNow - (tat - tolerance)) / interval),
+				reset: Math.ceil(tat),
+			};
+		}
+
+		const current = (await this.client.query(
+			`SELECT tat FROM ${this.gcraTableName} WHERE namespace = $1 AND identifier = $2`,
+			[namespace, identifier],
+		)) as { rows?: Array<Record<string, unknown>> };
+		const tat = Math.max(Number(current.rows?.[0]?.tat ?? kNow), kNow);
+		return {
+			success: false,
+			remaining: 0,
+			reset: Math.ceil(tat + interval - tolerance),
+		};
+	}
+
+	/**
+	 * Concurrency leases as numbered slots `0..limit-1`. The primary key means
+	 * two requests can never hold the same slot; a request that loses a race
+	 * for a slot retries while the count shows free slots.
+	 */
+	async acquireLease(
+		namespace: string,
+		identifier: string,
+		leaseId: string,
+		limit: number,
+		ttlMs: Milliseconds,
+	): Promise<{ success: boolean; remaining: number; reset: number }> {
+		for (let attempt = 0; attempt < 3; attempt++) {
+			const kNow = now();
+			const expiresAt = kNow + ttlMs;
+			const res = (await this.client.query(
+				`INSERT INTO ${this.leaseTableName} (namespace, identifier, slot, leaseId, expiresAt)
+         SELECT $1, $2, s.slot, $3, $4::bigint
+         FROM generate_series(0, $5::integer - 1) AS s(slot)
+         WHERE NOT EXISTS (
+           SELECT 1 FROM ${this.leaseTableName} l
+           WHERE l.namespace = $1 AND l.identifier = $2 AND l.slot = s.slot AND l.expiresAt > $6::bigint
+         )
+         ORDER BY s.slot
+         LIMIT 1
+         ON CONFLICT (namespace, identifier, slot) DO UPDATE
+           SET leaseId = EXCLUDED.leaseId, expiresAt = EXCLUDED.expiresAt
+           WHERE ${this.leaseTableName}.expiresAt <= $6::bigint
+         RETURNING slot`,
+				[namespace, identifier, leaseId, expiresAt, limit, kNow],
+			)) as { rows?: Array<Record<string, unknown>> };
+			const held = await this.heldLeases(namespace, identifier, limit, kNow);
+			if (res.rows?.[0]) {
+				return {
+					success: true,
+					remaining: Math.max(0, limit - held.count),
+					reset: expiresAt,
+				};
+			}
+			if (held.count >= limit) {
+				return { success: false, remaining: 0, reset: held.earliest ?? kNow };
+			}
+		}
+		return { success: false, remaining: 0, reset: now() };
+	}
+
+	async releaseLease(
+		namespace: string,
+		identifier: string,
+		leaseId: string,
+	): Promise<void> {
+		await this.client.query(
+			`DELETE FROM ${this.leaseTableName} WHERE namespace = $1 AND identifier = $2 AND leaseId = $3`,
+			[namespace, identifier, leaseId],
+		);
+	}
+
+	/** Unexpired leases within the first `limit` slots, and the earliest expiry. */
+	private async heldLeases(
+		namespace: string,
+		identifier: string,
+		limit: number,
+		kNow: number,
+	): Promise<{ count: number; earliest: number | null }> {
+		const res = (await this.client.query(
+			`SELECT COUNT(*) AS count, MIN(expiresAt) AS earliest FROM ${this.leaseTableName}
+       WHERE namespace = $1 AND identifier = $2 AND slot < $3 AND expiresAt > $4`,
+			[namespace, identifier, limit, kNow],
+		)) as { rows?: Array<Record<string, unknown>> };
+		const row = res.rows?.[0];
+		return {
+			count: Number(row?.count ?? 0),
+			earliest: row?.earliest == null ? null : Number(row.earliest),
+		};
+	}
+
+	/** Give back one request's worth of a limit with a single guarded update. */
+	async refund(
+		namespace: string,
+		identifier: string,
+		refund: RateLimitRefund,
+	): Promise<void> {
+		if (refund.kind === "fixed") {
+			await this.client.query(
+				`UPDATE ${this.tableName} SET count = count - 1
+         WHERE namespace = $1 AND identifier = $2 AND count > 0 AND reset > $3`,
+				[namespace, identifier, now()],
+			);
+		} else if (refund.kind === "slidingWindow") {
+			const windowStart =
+				refund.consumedAt - (refund.consumedAt % refund.durationMs);
+			await this.client.query(
+				`UPDATE ${this.slidingTableName} SET
+           currentCount = CASE WHEN windowStart = $3 THEN GREATEST(currentCount - 1, 0) ELSE currentCount END,
+           previousCount = CASE WHEN windowStart = $4 THEN GREATEST(previousCount - 1, 0) ELSE previousCount END
+         WHERE namespace = $1 AND identifier = $2 AND windowStart IN ($3, $4)`,
+				[namespace, identifier, windowStart, windowStart + refund.durationMs],
+			);
+		} else if (refund.kind === "tokenBucket") {
+			await this.client.query(
+				`UPDATE ${this.bucketTableName} SET tokens = LEAST(tokens + $3, $4)
+         WHERE namespace = $1 AND identifier = $2`,
+				[namespace, identifier, refund.cost, refund.capacity],
+			);
+		} else if (refund.kind === "gcra") {
+			await this.client.query(
+				`UPDATE ${this.gcraTableName} SET tat = tat - $3::double precision
+         WHERE namespace = $1 AND identifier = $2`,
+				[namespace, identifier, refund.periodMs / refund.rate],
+			);
+		}
+	}
+
 	async reset(namespace: string, identifier: string): Promise<void> {
 		await this.client.query(
 			`DELETE FROM ${this.tableName} WHERE namespace = $1 AND identifier = $2`,
@@ -210,5 +468,17 @@ export class PostgresRateLimitStore implements RateLimitStoreAdapter {
 			`DELETE FROM ${this.bucketTableName} WHERE namespace = $1 AND identifier = $2`,
 			[namespace, identifier],
 		);
+		await this.client.query(
+			`DELETE FROM ${this.slidingTableName} WHERE namespace = $1 AND identifier = $2`,
+			[namespace, identifier],
+		);
+		await this.client.query(
+			`DELETE FROM ${this.gcraTableName} WHERE namespace = $1 AND identifier = $2`,
+			[namespace, identifier],
+		);
+		await this.client.query(
+			`DELETE FROM ${this.leaseTableName} WHERE namespace = $1 AND identifier = $2`,
+			[namespace, identifier],
+		);
 	}
 }
@@ -1,12 +1,17 @@
 /**
  * Redis-backed rate limit store.
  *
- * Supports fixed window counters and a rolling token bucket using Lua scripts
+ * Supports fixed window counters, sliding window counters, a rolling token
+ * bucket, GCRA, concurrency leases (a sorted set) and refunds using Lua scripts
  * for atomic operations when available. Falls back to simpler commands when
  * EVAL is not supported, with a note on potential race conditions.
  */
 import type { RedisCommand } from "../../types/adapters";
-import type { Milliseconds, RateLimitStoreAdapter } from "../../types/common";
+import type {
+	Milliseconds,
+	RateLimitRefund,
+	RateLimitStoreAdapter,
+} from "../../types/common";
 import { now } from "../../utils/time";
 
 /**
@@ -163,6 +168,106 @@ end`;
 
 		return { success: true, remaining: limit, reset: resetTs };
 	}
+	/**
+	 * Sliding window counter stored as "windowStart:previous:current" in one key
+	 * that expires after two windows.
+	 */
+	async consumeSlidingWindow(
+		namespace: string,
+		identifier: string,
+		limit: number,
+		durationMs: Milliseconds,
+	): Promise<{ success: boolean; remaining: number; reset: number }> {
+		const k = `${this.key(namespace, identifier)}:sw`;
+		const script = `
+local key = KEYS[1]
+local limit = tonumber(ARGV[1])
+local durationMs = tonumber(ARGV[2])
+local nowMs = tonumber(ARGV[3])
+
+local windowStart = nowMs - (nowMs % durationMs)
+local reset = windowStart + durationMs
+local previous = 0
+local current = 0
+local data = redis.call('GET', key)
+if data then
+  local a = string.find(data, ':')
+  local b = string.find(data, ':', a + 1)
+  local storedStart = tonumber(string.sub(data, 1, a - 1))
+  local storedCurrent = tonumber(string.sub(data, b + 1))
+  if storedStart == windowStart then
+    previous = tonumber(string.sub(data, a + 1, b - 1))
+    current = storedCurrent
+  elseif storedStart == windowStart - durationMs then
+    previous = storedCurrent
+  end
+end
+
+local used = previous * ((reset - nowMs) / durationMs) + current
+if used + 1 <= limit then
+  current = current + 1
+  redis.call('SET', key, tostring(windowStart)..':'..tostring(previous)..':'..tostring(current), 'PX', durationMs * 2)
+  return {1, math.max(0, math.floor(limit - used - 1)), reset}
+end
+return {0, 0, reset}`;
+
+		if (this.client.eval) {
+			const res = (await this.client.eval(
+				script,
+				1,
+				k,
+				String(limit),
+				String(durationMs),
+				String(now()),
+			)) as [number, number, number];
+			const success = res[0] === 1;
+			return { success, remaining: res[1], reset: res[2] };
+		}
+
+		if (
+			!(this.client as { get?: RedisCommand }).get ||
+			!(this.client as { set?: RedisCommand }).set
+		) {
+			throw new Error(
+				"Redis client must support eval or get/set for sliding window",
+			);
+		}
+		const nowMs = now();
+		const windowStart = nowMs - (nowMs % durationMs);
+		const reset = windowStart + durationMs;
+		const raw = (await (this.client as { get?: RedisCommand }).get?.(k)) as
+			| string
+			| undefined;
+		let previous = 0;
+		let current = 0;
+		if (raw) {
+			const [storedStart, storedPrevious, storedCurrent] = raw
+				.split(":")
+				.map(Number);
+			if (storedStart === windowStart) {
+				previous = storedPrevious;
+				current = storedCurrent;
+			} else if (storedStart === windowStart - durationMs) {
+				previous = storedCurrent;
+			}
+		}
+		const used = previous * ((reset - nowMs) / durationMs) + current;
+		if (used + 1 <= limit) {
+			await (this.client as { set?: RedisCommand }).set?.(
+				k,
+				`${windowStart}:${previous}:${current + 1}`,
+				"PX",
+				durationMs * 2,
+			);
+			return {
+				success: true,
+				remaining: Math.max(0, Math.floor(limit - used - 1)),
+				reset,
+			};
+		}
+		return { success: false, remaining: 0, reset };
+	}
+
 	//TODO Simplify this haha
 	async consumeTokenBucket(
 		namespace: string,
@@ -282,13 +387,270 @@ end`;
 		};
 	}
 
+	/**
+	 * GCRA storing only the theoretical arrival time, in a key that expires
+	 * once that time has passed.
+	 */
+	async consumeGcra(
+		namespace: string,
+		identifier: string,
+		rate: number,
+		periodMs: Milliseconds,
+		burst: number,
+	): Promise<{ success: boolean; remaining: number; reset: number }> {
+		const k = `${this.key(namespace, identifier)}:gcra`;
+		const interval = periodMs / rate;
+		const script = `
+local key = KEYS[1]
+local interval = tonumber(ARGV[1])
+local tolerance = tonumber(ARGV[2])
+local nowMs = tonumber(ARGV[3])
+
+local tat = tonumber(redis.call('GET', key) or nowMs)
+if tat < nowMs then
+  tat = nowMs
+end
+tat = tat + interval
+local allowAt = tat - tolerance
+if allowAt > nowMs then
+  return {0, 0, math.ceil(allowAt)}
+end
+redis.call('SET', key, tostring(tat), 'PX', math.ceil(tat - nowMs))
+return {1, math.floor((nowMs - allowAt) / interval), math.ceil(tat)}`;
+
+		if (this.client.eval) {
+			const res = (await this.client.eval(
+				script,
+				1,
+				k,
+				String(interval),
+				String(interval * burst),
+				String(now()),
+			)) as [number, number, number];
+			const success = res[0] === 1;
+			return { success, remaining: res[1], reset: res[2] };
+		}
+
+		if (
+			!(this.client as { get?: RedisCommand }).get ||
+			!(this.client as { set?: RedisCommand }).set
+		) {
+			throw new Error("Redis client must support eval or get/set for GCRA");
+		}
+		const nowMs = now();
+		const raw = await (this.client as { get?: RedisCommand }).get?.(k);
+		const stored = raw == null ? Number.NaN : Number(raw);
+		const tat =
+			Math.max(Number.isNaN(stored) ? nowMs : stored, nowMs) + interval;
+		const allowAt = tat - interval * burst;
+		if (allowAt > nowMs) {
+			return { success: false, remaining: 0, reset: Math.ceil(allowAt) };
+		}
+		await (this.client as { set?: RedisCommand }).set?.(
+			k,
+			String(tat),
+			"PX",
+			Math.ceil(tat - nowMs),
+		);
+		return {
+			success: true,
+			remaining: Math.floor((nowMs - allowAt) / interval),
+			reset: Math.ceil(tat),
+		};
+	}
+
+	/**
+	 * Concurrency leases in a sorted set of lease ids scored by expiry. Expired
+	 * leases are dropped before counting; requires `eval`.
+	 */
+	async acquireLease(
+		namespace: string,
+		identifier: string,
+		leaseId: string,
+		limit: number,
+		ttlMs: Milliseconds,
+	): Promise<{ success: boolean; remaining: number; reset: number }> {
+		if (!this.client.eval) {
+			throw new Error("Redis client must support eval for concurrency leases");
+		}
+		const k = `${this.key(namespace, identifier)}:leases`;
+		const script = `
+local key = KEYS[1]
+local leaseId = ARGV[1]
+local limit = tonumber(ARGV[2])
+local ttlMs = tonumber(ARGV[3])
+local nowMs = tonumber(ARGV[4])
+
+redis.call('ZREMRANGEBYSCORE', key, '-inf', nowMs)
+local held = redis.call('ZCARD', key)
+if held >= limit then
+  local oldest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+  return {0, 0, tonumber(oldest[2])}
+end
+redis.call('ZADD', key, nowMs + ttlMs, leaseId)
+if redis.call('PTTL', key) < ttlMs then
+  redis.call('PEXPIRE', key, ttlMs)
+end
+return {1, limit - held - 1, nowMs + ttlMs}`;
+		const res = (await this.client.eval(
+			script,
+			1,
+			k,
+			leaseId,
+			String(limit),
+			String(ttlMs),
+			String(now()),
+		)) as [number, number, number];
+		const success = res[0] === 1;
+		return { success, remaining: res[1], reset: res[2] };
+	}
+
+	async releaseLease(
+		namespace: string,
+		identifier: string,
+		leaseId: string,
+	): Promise<void> {
+		const k = `${this.key(namespace, identifier)}:leases`;
+		if (this.client.zRem) {
+			await this.client.zRem(k, leaseId);
+			return;
+		}
+		if (this.client.zrem) {
+			await this.client.zrem(k, leaseId);
+			return;
+		}
+		if (this.client.eval) {
+			await this.client.eval(
+				"return redis.call('ZREM', KEYS[1], ARGV[1])",
+				1,
+				k,
+				leaseId,
+			);
+			return;
+		}
+		throw new Error("Redis client must support zRem/zrem or eval");
+	}
+
+	/**
+	 * Give back one request's worth of a limit in a single script, keeping the
+	 * key's expiry; requires `eval`.
+	 */
+	async refund(
+		namespace: string,
+		identifier: string,
+		refund: RateLimitRefund,
+	): Promise<void> {
+		if (!this.client.eval) {
+			throw new Error("Redis client must support eval for refunds");
+		}
+		const k = this.key(namespace, identifier);
+		if (refund.kind === "fixed") {
+			const script = `
+local current = tonumber(redis.call('GET', KEYS[1]))
+if current and current > 0 then
+  redis.call('DECR', KEYS[1])
+end
+return 1`;
+			await this.client.eval(script, 1, k);
+			return;
+		}
+		if (refund.kind === "slidingWindow") {
+			const windowStart =
+				refund.consumedAt - (refund.consumedAt % refund.durationMs);
+			const script = `
+local key = KEYS[1]
+local windowStart = tonumber(ARGV[1])
+local durationMs = tonumber(ARGV[2])
+local data = redis.call('GET', key)
+if not data then
+  return 0
+end
+local a = string.find(data, ':')
+local b = string.find(data, ':', a + 1)
+local storedStart = tonumber(string.sub(data, 1, a - 1))
+local previous = tonumber(string.sub(data, a + 1, b - 1))
+local current = tonumber(string.sub(data, b + 1))
+if storedStart == windowStart then
+  current = math.max(0, current - 1)
+elseif storedStart == windowStart + durationMs then
+  previous = math.max(0, previous - 1)
+else
+  return 0
+end
+local ttl = redis.call('PTTL', key)
+if ttl > 0 then
+  redis.call('SET', key, tostring(storedStart)..':'..tostring(previous)..':'..tostring(current), 'PX', ttl)
+end
+return 1`;
+			await this.client.eval(
+				script,
+				1,
+				`${k}:sw`,
+				String(windowStart),
+				String(refund.durationMs),
+			);
+			return;
+		}
+		if (refund.kind === "tokenBucket") {
+			const script = `
+local key = KEYS[1]
+local capacity = tonumber(ARGV[1])
+local cost = tonumber(ARGV[2])
+local data = redis.call('GET', key)
+if not data then
+  return 0
+end
+local sep = string.find(data, ':')
+if not sep then
+  return 0
+end
+local tokens = math.min(capacity, tonumber(string.sub(data, 1, sep - 1)) + cost)
+redis.call('SET', key, tostring(tokens)..':'..string.sub(data, sep + 1))
+return 1`;
+			await this.client.eval(
+				script,
+				1,
+				k,
+				String(refund.capacity),
+				String(refund.cost),
+			);
+			return;
+		}
+		if (refund.kind === "gcra") {
+			const script = `
+local key = KEYS[1]
+local interval = tonumber(ARGV[1])
+local nowMs = tonumber(ARGV[2])
+local tat = tonumber(redis.call('GET', key))
+if not tat then
+  return 0
+end
+tat = tat - interval
+if tat <= nowMs then
+  redis.call('DEL', key)
+else
+  redis.call('SET', key, tostring(tat), 'PX', math.ceil(tat - nowMs))
+end
+return 1`;
+			await this.client.eval(
+				script,
+				1,
+				`${k}:gcra`,
+				String(refund.periodMs / refund.rate),
+				String(now()),
+			);
+		}
+	}
+
 	async reset(namespace: string, identifier: string): Promise<void> {
 		const kFixed = this.key(namespace, identifier);
 		if (this.client.del) {
 			await this.client.del(kFixed);
 		}
 		if (this.client.del) {
-			await this.client.del(kFixed);
+			await this.client.del(`${kFixed}:sw`);
+			await this.client.del(`${kFixed}:gcra`);
+			await this.client.del(`${kFixed}:leases`);
 		}
 	}
 }
@@ -1,12 +1,17 @@
 /**
  * SQLite-backed rate limit store.
  *
- * Implements fixed window counters and a rolling token bucket. Targets a
+ * Implements fixed window counters, sliding window counters, a rolling token
+ * bucket and GCRA, with refunds for stacked limits. Targets a
  * `better-sqlite3`-like API, but remains dependency-free by expecting a minimal
  * `prepare().get()/run()` surface.
  */
 import type { SqliteLikeClient } from "../../types/adapters";
-import type { Milliseconds, RateLimitStoreAdapter } from "../../types/common";
+import type {
+	Milliseconds,
+	RateLimitRefund,
+	RateLimitStoreAdapter,
+} from "../../types/common";
 import { now } from "../../utils/time";
 
 /**
@@ -22,12 +27,16 @@ import { now } from "../../utils/time";
 export class SqliteRateLimitStore implements RateLimitStoreAdapter {
 	private readonly tableName: string;
 	private readonly bucketTableName: string;
+	private readonly slidingTableName: string;
+	private readonly gcraTableName: string;
 	private readonly db: SqliteLikeClient;
 	readonly ready?: Promise<void>;
 
 	constructor(db: any, options?: { tableName?: string }) {
 		this.tableName = options?.tableName ?? "usefulkey_rate_limits";
 		this.bucketTableName = `${this.tableName}_buckets`;
+		this.slidingTableName = `${this.tableName}_sliding`;
+		this.gcraTableName = `${this.tableName}_gcra`;
 		this.db = this.adaptSqliteClient(db);
 		this.ready = Promise.resolve().then(() => {
 			this.connectivityProbe();
@@ -71,6 +80,24 @@ export class SqliteRateLimitStore implements RateLimitStoreAdapter {
         PRIMARY KEY(namespace, identifier)
       );
       CREATE INDEX IF NOT EXISTS idx_${this.bucketTableName}_lastRefill ON ${this.bucketTableName}(lastRefill);
+
+      CREATE TABLE IF NOT EXISTS ${this.slidingTableName} (
+        namespace TEXT NOT NULL,
+        identifier TEXT NOT NULL,
+        windowStart INTEGER NOT NULL,
+        previousCount INTEGER NOT NULL,
+        currentCount INTEGER NOT NULL,
+        PRIMARY KEY(namespace, identifier)
+      );
+      CREATE INDEX IF NOT EXISTS idx_${this.slidingTableName}_windowStart ON ${this.slidingTableName}(windowStart);
+
+      CREATE TABLE IF NOT EXISTS ${this.gcraTableName} (
+        namespace TEXT NOT NULL,
+        identifier TEXT NOT NULL,
+        tat REAL NOT NULL,
+        PRIMARY KEY(namespace, identifier)
+      );
+      CREATE INDEX IF NOT EXISTS idx_${this.gcraTableName}_tat ON ${this.gcraTableName}(tat);
     `;
 		if (this.db.exec) {
 			this.db.exec(ddl);
@@ -169,6 +196,54 @@ export class SqliteRateLimitStore implements RateLimitStoreAdapter {
 		};
 	}
 
+	async consumeSlidingWindow(
+		namespace: string,
+		identifier: string,
+		limit: number,
+		durationMs: Milliseconds,
+	): Promise<{ success: boolean; remaining: number; reset: number }> {
+		const kNow = now();
+		const windowStart = kNow - (kNow % durationMs);
+		const reset = windowStart + durationMs;
+		const row = this.db
+			.prepare(
+				`SELECT windowStart, previousCount, currentCount FROM ${this.slidingTableName} WHERE namespace = ? AND identifier = ?`,
+			)
+			.get(namespace, identifier) as
+			| { windowStart: number; previousCount: number; currentCount: number }
+			| undefined;
+
+		let previous = 0;
+		let current = 0;
+		if (row) {
+			const storedStart = Number(row.windowStart);
+			if (storedStart === windowStart) {
+				previous = Number(row.previousCount);
+				current = Number(row.currentCount);
+			} else if (storedStart === windowStart - durationMs) {
+				previous = Number(row.currentCount);
+			}
+		}
+
+		const used = previous * ((reset - kNow) / durationMs) + current;
+		if (used + 1 > limit) {
+			return { success: false, remaining: 0, reset };
+		}
+		this.db
+			.prepare(
+				`INSERT INTO ${this.slidingTableName} (namespace, identifier, windowStart, previousCount, currentCount)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(namespace, identifier) DO UPDATE SET windowStart = excluded.windowStart,
+           previousCount = excluded.previousCount, currentCount = excluded.currentCount`,
+			)
+			.run(namespace, identifier, windowStart, previous, current + 1);
+		return {
+			success: true,
+			remaining: Math.max(0, Math.floor(limit - used - 1)),
+			reset,
+		};
+	}
+
 	async consumeTokenBucket(
 		namespace: string,
 		identifier: string,
@@ -256,6 +331,103 @@ export class SqliteRateLimitStore implements RateLimitStoreAdapter {
 		};
 	}
 
+	/**
+	 * GCRA in one conditional upsert (needs SQLite 3.35+ for RETURNING). No row
+	 * comes back when the request is over the limit.
+	 */
+	async consumeGcra(
+		namespace: string,
+		identifier: string,
+		rate: number,
+		periodMs: Milliseconds,
+		burst: number,
+	): Promise<{ success: boolean; remaining: number; reset: number }> {
+		const kNow = now();
+		const interval = periodMs / rate;
+		const tolerance = interval * burst;
+		const row = this.db
+			.prepare(
+				`INSERT INTO ${this.gcraTableName} (namespace, identifier, tat)
+         VALUES (?, ?, ?)
+         ON CONFLICT(namespace, identifier) DO UPDATE SET tat = MAX(${this.gcraTableName}.tat, ?) + ?
+         WHERE MAX(${this.gcraTableName}.tat, ?) + ? - ? <= ?
+         RETURNING tat`,
+			)
+			.get(
+				namespace,
+				identifier,
+				kNow + interval,
+				kNow,
+				interval,
+				kNow,
+				interval,
+				tolerance,
+				kNow,
+			) as { tat: number } | undefined;
+		if (row) {
+			const tat = Number(row.tat);
+			return {
+				success: true,
+				remaining: Math.floor((kNow - (tat - tolerance)) / interval),
+				reset: Math.ceil(tat),
+			};
+		}
+
+		const current = this.db
+			.prepare(
+				`SELECT tat FROM ${this.gcraTableName} WHERE namespace = ? AND identifier = ?`,
+			)
+			.get(namespace, identifier) as { tat: number } | undefined;
+		const tat = Math.max(Number(current?.tat ?? kNow), kNow);
+		return {
+			success: false,
+			remaining: 0,
+			reset: Math.ceil(tat + interval - tolerance),
+		};
+	}
+
+	/** Give back one request's worth of a limit with a single guarded update. */
+	async refund(
+		namespace: string,
+		identifier: string,
+		refund: RateLimitRefund,
+	): Promise<void> {
+		if (refund.kind === "fixed") {
+			this.db
+				.prepare(
+					`UPDATE ${this.tableName} SET count = count - 1
+           WHERE namespace = ? AND identifier = ? AND count > 0 AND reset > ?`,
+				)
+				.run(namespace, identifier, now());
+		} else if (refund.kind === "slidingWindow") {
+			const windowStart =
+				refund.consumedAt - (refund.consumedAt % refund.durationMs);
+			const next = windowStart + refund.durationMs;
+			this.db
+				.prepare(
+					`UPDATE ${this.slidingTableName} SET
+             currentCount = CASE WHEN windowStart = ? THEN MAX(currentCount - 1, 0) ELSE currentCount END,
+             previousCount = CASE WHEN windowStart = ? THEN MAX(previousCount - 1, 0) ELSE previousCount END
+           WHERE namespace = ? AND identifier = ? AND windowStart IN (?, ?)`,
+				)
+				.run(windowStart, next, namespace, identifier, windowStart, next);
+		} else if (refund.kind === "tokenBucket") {
+			this.db
+				.prepare(
+					`UPDATE ${this.bucketTableName} SET tokens = MIN(tokens + ?, ?)
+           WHERE namespace = ? AND identifier = ?`,
+				)
+				.run(refund.cost, refund.capacity, namespace, identifier);
+		} else if (refund.kind === "gcra") {
+			this.db
+				.prepare(
+					`UPDATE ${this.gcraTableName} SET tat = tat - ?
+           WHERE namespace = ? AND identifier = ?`,
+				)
+				.run(refund.periodMs / refund.rate, namespace, identifier);
+		}
+	}
+
 	async reset(namespace: string, identifier: string): Promise<void> {
 		this.db
 			.prepare(
@@ -267,5 +439,15 @@ export class SqliteRateLimitStore implements RateLimitStoreAdapter {
 				`DELETE FROM ${this.bucketTableName} WHERE namespace = ? AND identifier = ?`,
 			)
 			.run(namespace, identifier);
+		this.db
+			.prepare(
+				`DELETE FROM ${this.slidingTableName} WHERE namespace = ? AND identifier = ?`,
+			)
+			.run(namespace, identifier);
+		this.db
+			.prepare(
+				`DELETE FROM ${this.gcraTableName} WHERE namespace = ? AND identifier = ?`,
+			)
+			.run(namespace, identifier);
 	}
 }
@@ -9,3 +9,6 @@ export const DEFAULT_KEY_LENGTH = 40;
 // Batch processing defaults
 export const DEFAULT_BATCH_SIZE = 100;
 export const MAX_BATCH_SIZE = 1000;
+
+// Metadata field that marks a rotated key during its grace period
+export const ROTATION_METADATA_KEY = "__uk_rotation";
@@ -1,9 +1,29 @@
-import type { CreateKeyInput, KeyRecord } from "../types/common";
-import { type AnalyticsAdapter, ErrorCodes } from "../types/common";
+import type {
+	CreateKeyInput,
+	KeyId,
+	KeyRecord,
+	KeyStoreAdapter,
+	RateLimitLease,
+	RateLimitState,
+	UpdateKeyPatch,
+	UsefulKeyConfig,
+} from "../types/common";
+import {
+	type AnalyticsAdapter,
+	ErrorCodes,
+	type HookErrorPolicy,
+	type UsefulKeyError,
+} from "../types/common";
 import type { UsefulKeyPluginHooks } from "../types/plugins";
 import { toError } from "../utils/error";
-import { hashKeyWithConfig } from "../utils/key";
+import {
+	environmentPrefix,
+	hashKeyCandidates,
+	type KeyHashCandidate,
+	keyHint,
+} from "../utils/key";
 import { now } from "../utils/time";
+import { MAX_BATCH_SIZE, ROTATION_METADATA_KEY } from "./constants";
 
 /**
  * Safely track analytics events with error handling
@@ -29,28 +49,70 @@ export async function safeTrackAnalytics(
 export async function executePluginHooks(
 	pluginHooks: UsefulKeyPluginHooks[],
 	hookName: keyof UsefulKeyPluginHooks,
-	...args: any[]
-): Promise<{ rejected?: boolean; reason?: string }> {
+	ctx: unknown,
+	args: unknown,
+	onHookError: HookErrorPolicy = "fail-open",
+): Promise<{
+	rejected?: boolean;
+	reason?: string;
+	error?: UsefulKeyError;
+	lease?: RateLimitLease;
+	ratelimit?: RateLimitState;
+}> {
+	let lease: RateLimitLease | undefined;
+	let ratelimit: RateLimitState | undefined;
 	for (const hook of pluginHooks) {
 		const hookFn = hook[hookName] as ((...args: any[]) => any) | undefined;
-		if (!hookFn) continue;
+		if (typeof hookFn !== "function") continue;
 
 		try {
-			const result = await hookFn.call(hook, ...args);
+			const result = await hookFn.call(hook, ctx, args);
+			if (result && typeof result === "object" && "ratelimit" in result) {
+				ratelimit = result.ratelimit;
+			}
 			if (result && typeof result === "object" && "reject" in result) {
-				return { rejected: true, reason: result.reason };
+				return { rejected: true, reason: result.reason, lease, ratelimit };
+			}
+			if (result && typeof result === "object" && "lease" in result) {
+				lease = result.lease;
 			}
 		} catch (hookErr) {
-			console.error(
-				`Plugin ${String(hookName)} error`,
-				toError(hookErr, ErrorCodes.UNKNOWN, {
-					op: String(hookName),
-					plugin: (hook as any).name,
-				}),
-			);
+			const error = toError(hookErr, ErrorCodes.PLUGIN_HOOK_FAILED, {
+				op: String(hookName),
+				plugin: hook.name,
+			});
+			console.error(`Plugin ${String(hookName)} error`, error);
+			if ((hook.onHookError ?? onHookError) === "fail-closed") {
+				return {
+					rejected: true,
+					reason: "plugin_error",
+					error,
+					lease,
+					ratelimit,
+				};
+			}
 		}
 	}
-	return {};
+	return {
+		...(lease ? { lease } : {}),
+		...(ratelimit ? { ratelimit } : {}),
+	};
+}
+
+/**
+ * Wrap an analytics adapter so every tracked event is also passed to `emit`
+ * (the `uk.on()` handlers). The adapter and the handlers run side by side.
+ */
+export function withEventHandlers(
+	adapter: AnalyticsAdapter,
+	emit: (event: string, payload: Record<string, unknown>) => Promise<void>,
+): AnalyticsAdapter {
+	return {
+		ready: adapter.ready,
+		async track(event, payload) {
+			await Promise.all([adapter.track(event, payload), emit(event, payload)]);
+		},
+	};
 }
 
 /**
@@ -64,7 +126,196 @@ export function validatePositiveNumber(
 }
 
 /**
- * Create a key record from input parameters
+ * Validate a `findKeys` metadata filter. Returns a message describing the
+ * problem, or `null` when the filter is usable.
+ */
+export function validateMetadataFilter(metadata: unknown): string | null {
+	if (metadata === undefined) return null;
+	if (typeof metadata !== "object" || metadata === null)
+		return "metadata filter must be an object";
+	const isScalar = (v: unknown) =>
+		typeof v === "string" ||
+		typeof v === "boolean" ||
+		(typeof v === "number" && Number.isFinite(v));
+	for (const [field, value] of Object.entries(metadata)) {
+		if (field.length === 0 || field.includes('"'))
+			return `invalid metadata field name: ${JSON.stringify(field)}`;
+		if (value === null || isScalar(value)) continue;
+		if (
+			typeof value === "object" &&
+			"contains" in value &&
+			isScalar((value as { contains: unknown }).contains)
+		)
+			continue;
+		return `unsupported filter for metadata field "${field}"`;
+	}
+	return null;
+}
+
+/**
+ * Validate an `updateKey` patch. Returns a message describing the problem, or
+ * `null` when the patch is usable.
+ */
+export function validateUpdateKeyPatch(patch: unknown): string | null {
+	if (typeof patch !== "object" || patch === null || Array.isArray(patch))
+		return "patch must be an object";
+	const p = patch as UpdateKeyPatch;
+	if (p.metadata !== undefined && !isPlainObject(p.metadata))
+		return "metadata must be an object";
+	if (
+		p.replaceMetadataFields !== undefined &&
+		typeof p.replaceMetadataFields !== "boolean"
+	)
+		return "replaceMetadataFields must be a boolean";
+	if (
+		p.userId !== undefined &&
+		p.userId !== null &&
+		typeof p.userId !== "string"
+	)
+		return "userId must be a string or null";
+	if (
+		p.expiresAt !== undefined &&
+		p.expiresAt !== null &&
+		!(typeof p.expiresAt === "number" && Number.isFinite(p.expiresAt))
+	)
+		return "expiresAt must be a finite number or null";
+	if (
+		p.usesRemaining !== undefined &&
+		p.usesRemaining !== null &&
+		!(Number.isInteger(p.usesRemaining) && p.usesRemaining >= 0)
+	)
+		return "usesRemaining must be a non-negative integer or null";
+	return null;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep-merge a metadata patch into stored metadata. Nested objects merge,
+ * other values replace, and `null` removes the field. With `replace`, the
+ * patch's top-level fields replace the stored ones instead of merging.
+ */
+export function mergeMetadata(
+	base: Record<string, unknown> | undefined,
+	patch: Record<string, unknown>,
+	replace = false,
+): Record<string, unknown> {
+	const merged: Record<string, unknown> = { ...(base ?? {}) };
+	for (const [field, value] of Object.entries(patch)) {
+		if (value === undefined) continue;
+		if (value === null) {
+			delete merged[field];
+		} else if (replace) {
+			merged[field] = value;
+		} else if (isPlainObject(value) && isPlainObject(merged[field])) {
+			merged[field] = mergeMetadata(
+				merged[field] as Record<string, unknown>,
+				value,
+			);
+		} else if (isPlainObject(value)) {
+			merged[field] = mergeMetadata(undefined, value);
+		} else {
+			merged[field] = value;
+		}
+	}
+	return merged;
+}
+
+/**
+ * Read the rotation marker left on a key by `rotateKey`, if any.
+ */
+export function getRotationInfo(
+	record: KeyRecord,
+): { replacedBy: KeyId; graceEndsAt: number } | null {
+	const marker = record.metadata?.[ROTATION_METADATA_KEY] as
+		| { replacedBy?: unknown; graceEndsAt?: unknown }
+		| undefined;
+	if (
+		!marker ||
+		typeof marker.replacedBy !== "string" ||
+		typeof marker.graceEndsAt !== "number"
+	)
+		return null;
+	return { replacedBy: marker.replacedBy, graceEndsAt: marker.graceEndsAt };
+}
+
+/**
+ * Hide internal metadata (the rotation marker) from records handed back to
+ * callers. Plugins and the keystore still see the full record.
+ */
+export function publicRecord<T extends KeyRecord | null>(record: T): T {
+	if (!record?.metadata || !(ROTATION_METADATA_KEY in record.metadata)) {
+		return record;
+	}
+	const { [ROTATION_METADATA_KEY]: _marker, ...metadata } = record.metadata;
+	return { ...record, metadata };
+}
+
+/**
+ * Look up a record by plaintext key, trying each configured secret in order.
+ * When the key matched an older secret, `rehash` holds the current hash and
+ * secret id to migrate the record to.
+ */
+export async function findKeyByPlaintext(
+	keyStore: KeyStoreAdapter,
+	key: string,
+	config: UsefulKeyConfig,
+): Promise<{ record: KeyRecord | null; rehash: KeyHashCandidate | null }> {
+	const candidates = hashKeyCandidates(key, config);
+	for (let i = 0; i < candidates.length; i++) {
+		const record = await keyStore.findKeyByHash(candidates[i].keyHash);
+		if (record) return { record, rehash: i === 0 ? null : candidates[0] };
+	}
+	return { record: null, rehash: null };
+}
+
+/**
+ * Batch form of `findKeyByPlaintext`: hashes every key with every configured
+ * secret and resolves all hashes with the keystore's `findKeysByHashes` (in
+ * chunks of `MAX_BATCH_SIZE`), or one `findKeyByHash` per hash without it.
+ * Results are in the order of `keys`.
+ */
+export async function findKeysByPlaintexts(
+	keyStore: KeyStoreAdapter,
+	keys: string[],
+	config: UsefulKeyConfig,
+): Promise<
+	Array<{ record: KeyRecord | null; rehash: KeyHashCandidate | null }>
+> {
+	const candidates = keys.map((key) => hashKeyCandidates(key, config));
+	const hashes = Array.from(
+		new Set(candidates.flatMap((c) => c.map((h) => h.keyHash))),
+	);
+
+	const byHash = new Map<string, KeyRecord>();
+	for (let start = 0; start < hashes.length; start += MAX_BATCH_SIZE) {
+		const chunk = hashes.slice(start, start + MAX_BATCH_SIZE);
+		if (typeof keyStore.findKeysByHashes === "function") {
+			for (const record of await keyStore.findKeysByHashes(chunk)) {
+				byHash.set(record.keyHash, record);
+			}
+		} else {
+			for (const keyHash of chunk) {
+				const record = await keyStore.findKeyByHash(keyHash);
+				if (record) byHash.set(keyHash, record);
+			}
+		}
+	}
+
+	return candidates.map((list) => {
+		for (let i = 0; i < list.length; i++) {
+			const record = byHash.get(list[i].keyHash);
+			if (record) return { record, rehash: i === 0 ? null : list[0] };
+		}
+		return { record: null, rehash: null };
+	});
+}
+
+/**
+ * Create a key record from input parameters, including a redacted `hint` of
+ * the plaintext.
  */
 export function createKeyRecord(
 	id: string,
@@ -72,17 +323,28 @@ export function createKeyRecord(
 	input: CreateKeyInput,
 	config: { disablePrefix?: boolean; keyPrefix: string; [key: string]: any },
 ): KeyRecord {
+	const [current] = hashKeyCandidates(plaintext, config);
+	const renderedPrefix = environmentPrefix(
+		(input.keyKind ?? config.defaultKeyKind)?.prefix ??
+			input.prefix ??
+			config.keyPrefix,
+		input.environment,
+	);
 	return {
 		id,
 		userId: input.userId ?? null,
+		tenantId: input.tenantId ?? null,
+		environment: input.environment ?? null,
 		prefix: (config.disablePrefix
 			? ""
 			: (input.prefix ?? config.keyPrefix)) as string,
-		keyHash: hashKeyWithConfig(plaintext, config),
+		keyHash: current.keyHash,
 		createdAt: now(),
 		expiresAt: input.expiresAt ?? null,
 		metadata: input.metadata ?? {},
 		usesRemaining: input.usesRemaining ?? null,
 		revokedAt: null,
+		secretId: current.secretId,
+		hint: keyHint(plaintext, renderedPrefix),
 	};
 }
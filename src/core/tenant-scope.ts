@@ -0,0 +1,175 @@
+/**
+ * Tenant-scoped view of a UsefulKey instance, returned by `uk.forTenant(id)`.
+ *
+ * Every operation is limited to the keys of one tenant: new keys are stamped
+ * with the tenant id, lookups and listings only see the tenant's keys, and
+ * keys of other tenants behave exactly like keys that do not exist.
+ */
+import type {
+	CreateKeyInput,
+	CreateKeyResult,
+	FindKeysInput,
+	KeyId,
+	KeyRecord,
+	ListKeysResult,
+	Result,
+	RotateKeyOptions,
+	RotateKeyResult,
+	TenantId,
+	UpdateKeyPatch,
+	UserId,
+	VerifyOptions,
+	VerifyResult,
+} from "../types/common";
+import { ErrorCodes } from "../types/common";
+import { toError } from "../utils/error";
+import type { UsefulKey } from "./usefulkey";
+
+export class TenantScope {
+	constructor(
+		private readonly uk: UsefulKey,
+		readonly tenantId: TenantId,
+	) {}
+
+	/** Create a key owned by this tenant. */
+	async createKey(
+		input: CreateKeyInput = {},
+	): Promise<Result<CreateKeyResult>> {
+		return this.uk.createKey({ ...input, tenantId: this.tenantId });
+	}
+
+	/** Create many keys owned by this tenant. */
+	async createKeys(
+		inputs: CreateKeyInput[],
+	): Promise<Result<Array<Result<CreateKeyResult>>>> {
+		if (!Array.isArray(inputs)) return this.uk.createKeys(inputs);
+		return this.uk.createKeys(
+			inputs.map((input) => ({ ...input, tenantId: this.tenantId })),
+		);
+	}
+
+	/** Verify a key; keys of other tenants are `not_found`. */
+	async verifyKey(
+		input: VerifyOptions,
+		returnMetadata = false,
+	): Promise<Result<VerifyResult>> {
+		// The scope forwards whatever the caller passes, so skip the overloads
+		// that gate `namespace`/`rateLimit` on the rate limit plugin.
+		const verify = this.uk.verifyKey as (
+			input: VerifyOptions,
+			returnMetadata?: boolean,
+		) => Promise<Result<VerifyResult>>;
+		return verify.call(
+			this.uk,
+			{ ...input, tenantId: this.tenantId },
+			returnMetadata,
+		);
+	}
+
+	/** Verify many keys; keys of other tenants are `not_found`. */
+	async verifyKeys(
+		inputs: VerifyOptions[],
+		returnMetadata = false,
+	): Promise<Result<Array<Result<VerifyResult>>>> {
+		if (!Array.isArray(inputs)) return this.uk.verifyKeys(inputs);
+		return this.uk.verifyKeys(
+			inputs.map((input) => ({ ...input, tenantId: this.tenantId })),
+			returnMetadata,
+		);
+	}
+
+	/** Look up a key by its plaintext value within this tenant. */
+	async getKey(key: string): Promise<Result<KeyRecord | null>> {
+		const found = await this.uk.getKey(key);
+		if (found.error || !found.result) return found;
+		return { result: this.owns(found.result) ? found.result : null };
+	}
+
+	/** Look up a key by id within this tenant. */
+	async getKeyById(id: KeyId): Promise<Result<KeyRecord | null>> {
+		const owned = await this.ownedKey(id, "getKeyById");
+		if (owned.error || !owned.result) return owned;
+		return this.uk.getKeyById(id);
+	}
+
+	/** List a user's keys within this tenant. */
+	async listKeysByUser(
+		userId: UserId,
+		input: { cursor?: string | null; limit?: number } = {},
+	): Promise<Result<ListKeysResult>> {
+		return this.uk.listKeysByUser(userId, {
+			...input,
+			tenantId: this.tenantId,
+		});
+	}
+
+	/** Find keys within this tenant. */
+	async findKeys(input: FindKeysInput): Promise<Result<ListKeysResult>> {
+		return this.uk.findKeys({ ...input, tenantId: this.tenantId });
+	}
+
+	/** Update a key of this tenant; `null` for keys of other tenants. */
+	async updateKey(
+		id: KeyId,
+		patch: UpdateKeyPatch,
+	): Promise<Result<KeyRecord | null>> {
+		const owned = await this.ownedKey(id, "updateKey");
+		if (owned.error || !owned.result) return owned;
+		return this.uk.updateKey(id, patch);
+	}
+
+	/** Rotate a key of this tenant; the new key belongs to the same tenant. */
+	async rotateKey(
+		id: KeyId,
+		options: RotateKeyOptions = {},
+	): Promise<Result<RotateKeyResult | null>> {
+		const owned = await this.ownedKey(id, "rotateKey");
+		if (owned.error) return { error: owned.error };
+		if (!owned.result) return { result: null };
+		return this.uk.rotateKey(id, options);
+	}
+
+	/** Revoke a key of this tenant; a no-op for keys of other tenants. */
+	async revokeKey(id: KeyId): Promise<Result<void>> {
+		const owned = await this.ownedKey(id, "revokeKey");
+		if (owned.error) return { error: owned.error };
+		if (!owned.result) return { result: undefined };
+		return this.uk.revokeKey(id);
+	}
+
+	/** Extend the expiry of a key of this tenant; `null` for keys of other tenants. */
+	async extendKeyExpiry(
+		id: KeyId,
+		additionalMs: number,
+	): Promise<Result<{ expiresAt: number } | null>> {
+		const owned = await this.ownedKey(id, "extendKeyExpiry");
+		if (owned.error) return { error: owned.error };
+		if (!owned.result) return { result: null };
+		return this.uk.extendKeyExpiry(id, additionalMs);
+	}
+
+	/** Delete a key of this tenant; a no-op for keys of other tenants. */
+	async hardRemoveKey(id: KeyId): Promise<Result<void>> {
+		const owned = await this.ownedKey(id, "hardRemoveKey");
+		if (owned.error) return { error: owned.error };
+		if (!owned.result) return { result: undefined };
+		return this.uk.hardRemoveKey(id);
+	}
+
+	private owns(record: KeyRecord | null): record is KeyRecord {
+		return !!record && (record.tenantId ?? null) === this.tenantId;
+	}
+
+	/** Load a key by id, treating keys of other tenants as missing. */
+	private async ownedKey(
+		id: KeyId,
+		op: string,
+	): Promise<Result<KeyRecord | null>> {
+		try {
+			const record = await this.uk.keyStore.findKeyById(id);
+			return { result: this.owns(record) ? record : null };
+		} catch (err) {
+			return { error: toError(err, ErrorCodes.KEYSTORE_READ_FAILED, { op }) };
+		}
+	}
+}
@@ -9,23 +9,39 @@
  */
 
 import { ConsoleAnalytics } from "../adapters/analytics/console";
+import { CachedKeyStore } from "../adapters/keystore/cached";
 import { MemoryKeyStore } from "../adapters/keystore/memory";
 import { MemoryRateLimitStore } from "../adapters/ratelimit-store/memory";
 import type {
 	AnalyticsAdapter,
 	CreateKeyInput,
 	CreateKeyResult,
+	FindKeysInput,
+	KeyEnvironment,
 	KeyId,
 	KeyKind,
 	KeyRecord,
 	KeyStoreAdapter,
+	ListKeysResult,
+	RateLimitLease,
+	RateLimitState,
 	RateLimitStoreAdapter,
 	Result,
+	RotateKeyOptions,
+	RotateKeyResult,
+	TenantId,
+	UpdateKeyPatch,
 	UsefulKeyConfig,
+	UsefulKeyError,
+	UserId,
 	VerifyOptions,
 	VerifyResult,
 } from "../types/common";
 import { ErrorCodes } from "../types/common";
+import type {
+	UsefulKeyEventHandler,
+	UsefulKeyEventName,
+} from "../types/events";
 import type {
 	InferPluginExtensions,
 	PluginExtensions,
@@ -34,20 +50,37 @@ import type {
 } from "../types/plugins";
 import { configureCryptoProvider, uuid } from "../utils/crypto";
 import { toError } from "../utils/error";
-import { hashKeyWithConfig, KEY, renderKey } from "../utils/key";
-import { now } from "../utils/time";
+import {
+	hasChecksummedShape,
+	KEY,
+	type KeyHashCandidate,
+	keyEnvironment,
+	renderKey,
+	validateKeyFormat,
+} from "../utils/key";
+import { now, parseDuration } from "../utils/time";
 import {
 	DEFAULT_BATCH_SIZE,
 	DEFAULT_KEY_LENGTH,
 	DEFAULT_KEY_PREFIX,
 	MAX_BATCH_SIZE,
+	ROTATION_METADATA_KEY,
 } from "./constants";
 import {
 	createKeyRecord,
 	executePluginHooks,
+	findKeyByPlaintext,
+	findKeysByPlaintexts,
+	getRotationInfo,
+	mergeMetadata,
+	publicRecord,
 	safeTrackAnalytics,
+	validateMetadataFilter,
 	validatePositiveNumber,
+	validateUpdateKeyPatch,
+	withEventHandlers,
 } from "./core-helpers";
+import { TenantScope } from "./tenant-scope";
 
 /**
  *
@@ -96,10 +129,20 @@ export class UsefulKey {
 	 * Adapter for analytics and event tracking.
 	 *
 	 * Handles tracking of key operations and usage metrics. Defaults to
-	 * a console implementation if not provided in config.
+	 * a console implementation if not provided in config. Events tracked here
+	 * are also delivered to handlers registered with `on()`.
 	 */
 	readonly analytics: AnalyticsAdapter;
 
+	/** The configured analytics adapter, closed and flushed by `close()`/`flush()`. */
+	private readonly analyticsAdapter: AnalyticsAdapter;
+
+	/** Handlers registered with `on()`, by event name. */
+	private readonly eventHandlers = new Map<
+		string,
+		Set<(payload: Record<string, unknown>) => void | Promise<void>>
+	>();
+
 	/**
 	 * Promise that resolves when all plugin setup hooks and adapter
 	 * initialization have completed.
@@ -118,6 +161,13 @@ export class UsefulKey {
 	 */
 	private readonly pluginHooks: UsefulKeyPluginHooks[] = [];
 
+	/** Set by `close()`; every public operation fails with `INSTANCE_CLOSED` afterwards. */
+	private closed = false;
+	private closing: Promise<Result<void>> | null = null;
+
+	/** Analytics calls still in flight, awaited by `flush()` and `close()`. */
+	private readonly pendingAnalytics = new Set<Promise<void>>();
+
 	/**
 	 * Construct a `UsefulKey` instance with the specified configuration and plugins.
 	 *
@@ -151,10 +201,24 @@ export class UsefulKey {
 		) {
 			Object.freeze(this.config.defaultKeyKind);
 		}
-		this.keyStore = cfg.adapters?.keyStore ?? new MemoryKeyStore();
+		const keyStore = cfg.adapters?.keyStore ?? new MemoryKeyStore();
+		this.keyStore = cfg.cache
+			? new CachedKeyStore(keyStore, {
+					...(cfg.cache === true ? {} : cfg.cache),
+					onLookup: ({ hit, negative }) => {
+						if (hit)
+							void this.trackEvent("key_cache.hit", { negative, ts: now() });
+						else void this.trackEvent("key_cache.miss", { ts: now() });
+					},
+				})
+			: keyStore;
 		this.rateLimitStore =
 			cfg.adapters?.rateLimitStore ?? new MemoryRateLimitStore();
-		this.analytics = cfg.adapters?.analytics ?? new ConsoleAnalytics();
+		this.analyticsAdapter = cfg.adapters?.analytics ?? new ConsoleAnalytics();
+		this.analytics = withEventHandlers(
+			this.analyticsAdapter,
+			(event, payload) => this.emitEvent(event, payload),
+		);
 
 		if (cfg.crypto) configureCryptoProvider(cfg.crypto);
 
@@ -255,21 +319,25 @@ export class UsefulKey {
 	 */
 	async getKey(key: string): Promise<Result<KeyRecord | null>> {
 		try {
-			const keyHash = hashKeyWithConfig(key, this.config);
-			const record = await this.keyStore.findKeyByHash(keyHash);
+			if (this.closed) return { error: closedError("getKey") };
+			const { record } = await findKeyByPlaintext(
+				this.keyStore,
+				key,
+				this.config,
+			);
 			if (
 				record?.expiresAt &&
 				record.expiresAt <= now() &&
 				this.config.autoDeleteExpiredKeys
 			) {
 				try {
-					await this.keyStore.hardRemoveKeyById(record.id);
+					await this.removeExpiredKey(record.id);
 				} catch (_storeErr) {
 					// best-effort cleanup; ignore deletion failures
 				}
 				return { result: null };
 			}
-			return { result: record };
+			return { result: publicRecord(record) };
 		} catch (err) {
 			return {
 				error: toError(err, ErrorCodes.KEYSTORE_READ_FAILED, {
@@ -293,6 +361,7 @@ export class UsefulKey {
 	 */
 	async getKeyById(id: KeyId): Promise<Result<KeyRecord | null>> {
 		try {
+			if (this.closed) return { error: closedError("getKeyById") };
 			const record = await this.keyStore.findKeyById(id);
 			if (
 				record?.expiresAt &&
@@ -300,11 +369,11 @@ export class UsefulKey {
 				this.config.autoDeleteExpiredKeys
 			) {
 				try {
-					await this.keyStore.hardRemoveKeyById(record.id);
+					await this.removeExpiredKey(record.id);
 				} catch (_storeErr) {}
 				return { result: null };
 			}
-			return { result: record };
+			return { result: publicRecord(record) };
 		} catch (err) {
 			return {
 				error: toError(err, ErrorCodes.KEYSTORE_READ_FAILED, {
@@ -314,14 +383,152 @@ export class UsefulKey {
 		}
 	}
 
+	/**
+	 * List the keys that belong to a user, one page at a time.
+	 *
+	 * Keys are ordered by id. Pass the returned `nextCursor` back as `cursor`
+	 * to fetch the following page; it is `null` once there are no more keys.
+	 * Requires the keystore to implement `listKeys`. If not available, returns
+	 * an error with code `KEYSTORE_LIST_UNSUPPORTED`.
+	 *
+	 * @param userId - The user whose keys should be listed.
+	 * @param input - Optional paging options.
+	 * @param input.cursor - Cursor from a previous page (default: start from the beginning).
+	 * @param input.limit - Maximum number of keys per page (1-1000, default: 100).
+	 * @param input.tenantId - Only list keys of this tenant.
+	 * @returns A `Result` containing the page of `KeyRecord`s and the next cursor.
+	 */
+	async listKeysByUser(
+		userId: UserId,
+		input: { cursor?: string | null; limit?: number; tenantId?: TenantId } = {},
+	): Promise<Result<ListKeysResult>> {
+		try {
+			if (this.closed) return { error: closedError("listKeysByUser") };
+			if (typeof this.keyStore.listKeys !== "function") {
+				return {
+					error: toError(
+						{
+							code: ErrorCodes.KEYSTORE_LIST_UNSUPPORTED,
+							message: "Keystore does not support listing keys",
+						},
+						ErrorCodes.KEYSTORE_LIST_UNSUPPORTED,
+						{ op: "listKeysByUser" },
+					),
+				};
+			}
+
+			const limit = Math.max(
+				1,
+				Math.min(MAX_BATCH_SIZE, input.limit ?? DEFAULT_BATCH_SIZE),
+			);
+			try {
+				const page = await this.keyStore.listKeys({
+					userId,
+					...(input.tenantId !== undefined ? { tenantId: input.tenantId } : {}),
+					cursor: input.cursor ?? null,
+					limit,
+				});
+				return {
+					result: { ...page, items: page.items.map((r) => publicRecord(r)) },
+				};
+			} catch (storeErr) {
+				return {
+					error: toError(storeErr, ErrorCodes.KEYSTORE_READ_FAILED, {
+						op: "listKeysByUser",
+					}),
+				};
+			}
+		} catch (err) {
+			return {
+				error: toError(err, ErrorCodes.UNKNOWN, { op: "listKeysByUser" }),
+			};
+		}
+	}
+
+	/**
+	 * Find keys by metadata fields and state, one page at a time.
+	 *
+	 * Every metadata filter must match. A plain value matches a field exactly;
+	 * `{ contains: value }` matches a field that is an array including the value.
+	 * `revoked` and `expired` narrow results to (or exclude) revoked and expired
+	 * keys. Requires the keystore to implement `findKeys`. If not available,
+	 * returns an error with code `KEYSTORE_FIND_UNSUPPORTED`.
+	 *
+	 * @param input - Filters and paging options.
+	 * @param input.tenantId - Only keys of this tenant.
+	 * @param input.metadata - Top-level metadata fields to match.
+	 * @param input.revoked - Only revoked (true) or only non-revoked (false) keys.
+	 * @param input.expired - Only expired (true) or only non-expired (false) keys.
+	 * @param input.cursor - Cursor from a previous page (default: start from the beginning).
+	 * @param input.limit - Maximum number of keys per page (1-1000, default: 100).
+	 * @returns A `Result` containing the page of matching `KeyRecord`s and the next cursor.
+	 */
+	async findKeys(input: FindKeysInput): Promise<Result<ListKeysResult>> {
+		try {
+			if (this.closed) return { error: closedError("findKeys") };
+			if (typeof this.keyStore.findKeys !== "function") {
+				return {
+					error: toError(
+						{
+							code: ErrorCodes.KEYSTORE_FIND_UNSUPPORTED,
+							message: "Keystore does not support finding keys",
+						},
+						ErrorCodes.KEYSTORE_FIND_UNSUPPORTED,
+						{ op: "findKeys" },
+					),
+				};
+			}
+
+			const invalid = validateMetadataFilter(input.metadata);
+			if (invalid) {
+				return {
+					error: toError(
+						{ code: "INVALID_INPUT", message: invalid },
+						ErrorCodes.UNKNOWN,
+						{ op: "findKeys" },
+					),
+				};
+			}
+
+			const limit = Math.max(
+				1,
+				Math.min(MAX_BATCH_SIZE, input.limit ?? DEFAULT_BATCH_SIZE),
+			);
+			try {
+				const page = await this.keyStore.findKeys({
+					...input,
+					cursor: input.cursor ?? null,
+					limit,
+					now: now(),
+				});
+				return {
+					result: { ...page, items: page.items.map((r) => publicRecord(r)) },
+				};
+			} catch (storeErr) {
+				return {
+					error: toError(storeErr, ErrorCodes.KEYSTORE_READ_FAILED, {
+						op: "findKeys",
+					}),
+				};
+			}
+		} catch (err) {
+			return {
+				error: toError(err, ErrorCodes.UNKNOWN, { op: "findKeys" }),
+			};
+		}
+	}
+
 	// ===== Verification ====================================================
 
 	/**
 	 * Verify whether a key is currently valid.
 	 *
-	 * Runs plugin hooks (`beforeVerify`, `onKeyRecordLoaded`, `onVerifySuccess`),
-	 * checks revocation, expiry, and usage limits, and emits an analytics event
-	 * on successful verification.
+	 * Rejects keys that have the shape of the default checksummed key kind but
+	 * fail `validateKeyFormat` as `malformed` before any hook or keystore call.
+	 * Then runs plugin hooks (`beforeVerify`, `onKeyRecordLoaded`,
+	 * `onVerifySuccess`), checks revocation, expiry, and usage limits, and emits an analytics event
+	 * on successful verification. Keys that matched an older entry of
+	 * `secrets` are rehashed with the current secret.
 	 *
 	 * @param input - Verification parameters (key, optional ip, identifier, namespace, rateLimit).
 	 * @param returnMetadata - When `true`, includes the key's stored `metadata` in the result.
@@ -371,93 +578,311 @@ export class UsefulKey {
 		returnMetadata: boolean = false,
 	): Promise<Result<VerifyResult>> {
 		try {
-			const beforeVerifyResult = await executePluginHooks(
-				this.pluginHooks,
-				"beforeVerify",
-				this,
-				{
-					key: input.key,
-					ip: input.ip ?? undefined,
-					identifier: input.identifier ?? null,
-					namespace: input.namespace ?? null,
-					rateLimit: input.rateLimit ?? undefined,
-				},
+			if (this.closed) return { error: closedError("verifyKey") };
+			const rejected = await this.precheckVerify(input);
+			if (rejected) return { result: rejected };
+
+			const found = await findKeyByPlaintext(
+				this.keyStore,
+				input.key,
+				this.config,
 			);
-			if (beforeVerifyResult.rejected) {
+			return {
+				result: await this.checkLoadedKey(input, found, returnMetadata),
+			};
+		} catch (err) {
+			return {
+				error: toError(err, ErrorCodes.UNKNOWN, { op: "verifyKey" }),
+			};
+		}
+	}
+
+	/**
+	 * Verify many keys in one call.
+	 *
+	 * Every input goes through the same checks and plugin hooks as
+	 * `verifyKey`, but all keys are hashed up front and resolved with the
+	 * keystore's optional `findKeysByHashes` batch method (in chunks of
+	 * `MAX_BATCH_SIZE`), falling back to one `findKeyByHash` per hash.
+	 *
+	 * @param inputs - Verification parameters, one per key.
+	 * @param returnMetadata - When `true`, includes each key's stored `metadata`.
+	 * @returns A `Result` with one `Result<VerifyResult>` per input, in input
+	 *          order. A failed batch lookup fails the whole call.
+	 */
+	async verifyKeys(
+		inputs: VerifyOptions[],
+		returnMetadata: boolean = false,
+	): Promise<Result<Array<Result<VerifyResult>>>> {
+		try {
+			if (this.closed) return { error: closedError("verifyKeys") };
+			if (!Array.isArray(inputs)) {
 				return {
-					result: {
-						valid: false,
-						reason: beforeVerifyResult.reason ?? "blocked_by_plugin",
-					},
+					error: toError(
+						{ code: "INVALID_INPUT", message: "inputs must be an array" },
+						ErrorCodes.UNKNOWN,
+						{ op: "verifyKeys" },
+					),
 				};
 			}
 
-			const keyHash = hashKeyWithConfig(input.key, this.config);
-			const record = await this.keyStore.findKeyByHash(keyHash);
-
-			if (!record) return { result: { valid: false, reason: "not_found" } };
-
-			if (record.revokedAt)
-				return { result: { valid: false, reason: "revoked" } };
+			// Plugins keep per-request state keyed by the input object, so each
+			// entry gets its own copy even when the caller repeats an object.
+			const batch = inputs.map((input) => (input ? { ...input } : input));
+			const results: Array<Result<VerifyResult>> = new Array(inputs.length);
+			const pending: number[] = [];
+			for (let i = 0; i < inputs.length; i++) {
+				try {
+					const rejected = await this.precheckVerify(batch[i]);
+					if (rejected) results[i] = { result: rejected };
+					else pending.push(i);
+				} catch (err) {
+					results[i] = {
+						error: toError(err, ErrorCodes.UNKNOWN, { op: "verifyKeys" }),
+					};
+				}
+			}
 
-			const onKeyRecordLoadedResult = await executePluginHooks(
-				this.pluginHooks,
-				"onKeyRecordLoaded",
-				this,
-				{ input, record },
-			);
-			if (onKeyRecordLoadedResult.rejected) {
+			let found: Awaited<ReturnType<typeof findKeysByPlaintexts>>;
+			try {
+				found = await findKeysByPlaintexts(
+					this.keyStore,
+					pending.map((i) => batch[i].key),
+					this.config,
+				);
+			} catch (storeErr) {
 				return {
-					result: {
-						valid: false,
-						reason: onKeyRecordLoadedResult.reason ?? "blocked_by_plugin",
-					},
+					error: toError(storeErr, ErrorCodes.KEYSTORE_READ_FAILED, {
+						op: "verifyKeys",
+					}),
 				};
 			}
 
-			if (record.expiresAt && record.expiresAt <= now()) {
-				if (this.config.autoDeleteExpiredKeys) {
-					try {
-						await this.keyStore.hardRemoveKeyById(record.id);
-					} catch (_storeErr) {
-						console.error("Error deleting expired key", _storeErr);
-					}
+			for (let n = 0; n < pending.length; n++) {
+				const i = pending[n];
+				try {
+					results[i] = {
+						result: await this.checkLoadedKey(
+							batch[i],
+							found[n],
+							returnMetadata,
+						),
+					};
+				} catch (err) {
+					results[i] = {
+						error: toError(err, ErrorCodes.UNKNOWN, { op: "verifyKeys" }),
+					};
 				}
-				return { result: { valid: false, reason: "expired" } };
 			}
 
-			if (
-				typeof record.usesRemaining === "number" &&
-				record.usesRemaining <= 0
-			) {
-				return { result: { valid: false, reason: "usage_exceeded" } };
+			return { result: results };
+		} catch (err) {
+			return {
+				error: toError(err, ErrorCodes.UNKNOWN, { op: "verifyKeys" }),
+			};
+		}
+	}
+
+	/**
+	 * Checks that run before any keystore lookup: key format and
+	 * `beforeVerify` hooks. Returns the failed result, or `null` to continue.
+	 */
+	private async precheckVerify(
+		input: VerifyOptions,
+	): Promise<VerifyResult | null> {
+		// Only keys shaped like the default checksummed kind are checked, so keys
+		// of other kinds (per-call `keyKind`, or issued before the default
+		// changed) still reach the keystore.
+		const kind = this.config.defaultKeyKind;
+		const prefix = this.config.disablePrefix
+			? undefined
+			: (kind.prefix ?? this.config.keyPrefix);
+		if (
+			!this.config.customGenerateKey &&
+			hasChecksummedShape(input.key, kind, prefix) &&
+			!validateKeyFormat(input.key, kind)
+		) {
+			return { valid: false, reason: "malformed" };
+		}
+
+		const beforeVerifyResult = await this.runPluginHooks("beforeVerify", {
+			input,
+			key: input.key,
+			environment: keyEnvironment(input.key, prefix),
+			ip: input.ip ?? undefined,
+			identifier: input.identifier ?? null,
+			namespace: input.namespace ?? null,
+			rateLimit: input.rateLimit ?? undefined,
+		});
+		if (beforeVerifyResult.rejected) {
+			return rejectedVerifyResult(beforeVerifyResult);
+		}
+		return null;
+	}
+
+	/**
+	 * Checks that run once the record has been looked up: revocation, secret
+	 * rehash, rotation grace and `onKeyRecordLoaded`, then `completeVerify`.
+	 * A lease handed back by a plugin is attached to a valid result and
+	 * released otherwise.
+	 */
+	private async checkLoadedKey(
+		input: VerifyOptions,
+		found: { record: KeyRecord | null; rehash: KeyHashCandidate | null },
+		returnMetadata: boolean,
+	): Promise<VerifyResult> {
+		let record = found.record;
+
+		if (!record) return { valid: false, reason: "not_found" };
+
+		// Keys of another tenant must be indistinguishable from unknown keys.
+		if (
+			input.tenantId !== undefined &&
+			(record.tenantId ?? null) !== input.tenantId
+		) {
+			return { valid: false, reason: "not_found" };
+		}
+
+		// Keys without an environment predate environments and count as live.
+		if (
+			input.environment !== undefined &&
+			(record.environment ?? "live") !== input.environment
+		) {
+			return { valid: false, reason: "environment_mismatch" };
+		}
+
+		if (record.revokedAt) return { valid: false, reason: "revoked" };
+
+		if (found.rehash) {
+			const rehashed: KeyRecord = {
+				...record,
+				keyHash: found.rehash.keyHash,
+				secretId: found.rehash.secretId,
+			};
+			try {
+				await this.keyStore.updateKey(rehashed);
+				record = rehashed;
+			} catch (_storeErr) {
+				console.error("Error rehashing key with current secret", _storeErr);
 			}
+		}
 
-			await safeTrackAnalytics(this.analytics, "key.verified", {
-				keyId: record.id,
-				userId: record.userId,
-				identifier: input.identifier ?? null,
-				ts: now(),
-			});
+		const rotation = getRotationInfo(record);
+		if (rotation && rotation.graceEndsAt <= now()) {
+			// Revoked like any other key, so `key.revoked` and the revoke hooks run.
+			// When a hook blocks the revoke (or it fails) the record stays live,
+			// so report the rotation rather than a revocation that did not happen.
+			const revoked = await this.revokeKey(record.id);
+			if (revoked.error) {
+				console.error("Error revoking rotated key", revoked.error);
+				return { valid: false, reason: "rotated" };
+			}
+			return { valid: false, reason: "revoked" };
+		}
 
-			await executePluginHooks(this.pluginHooks, "onVerifySuccess", this, {
+		const onKeyRecordLoadedResult = await this.runPluginHooks(
+			"onKeyRecordLoaded",
+			{ input, record },
+		);
+		// A concurrency slot is only kept when the verification succeeds.
+		const lease = onKeyRecordLoadedResult.lease;
+		if (onKeyRecordLoadedResult.rejected) {
+			const rejected = rejectedVerifyResult(onKeyRecordLoadedResult);
+			await this.releaseHeldLease(lease);
+			await this.runPluginHooks("onVerifyFailed", {
 				input,
 				record,
+				reason: rejected.reason,
 			});
+			return rejected;
+		}
 
-			return {
-				result: {
-					valid: true,
-					keyId: record.id,
-					userId: record.userId ?? undefined,
-					metadata: returnMetadata ? record.metadata : undefined,
-				},
-			};
+		let result: VerifyResult;
+		try {
+			result = await this.completeVerify(
+				input,
+				record,
+				rotation,
+				returnMetadata,
+			);
 		} catch (err) {
-			return {
-				error: toError(err, ErrorCodes.UNKNOWN, { op: "verifyKey" }),
-			};
+			await this.releaseHeldLease(lease);
+			throw err;
+		}
+		if (!result.valid) {
+			await this.releaseHeldLease(lease);
+			await this.runPluginHooks("onVerifyFailed", {
+				input,
+				record,
+				reason: result.reason,
+			});
+			return result;
+		}
+		const { ratelimit } = onKeyRecordLoadedResult;
+		if (!lease && !ratelimit) return result;
+		return {
+			...result,
+			...(lease ? { lease } : {}),
+			...(ratelimit ? { ratelimit } : {}),
+		};
+	}
+
+	/**
+	 * Final checks once plugins accepted the record: expiry and usage,
+	 * followed by `key.verified` analytics and `onVerifySuccess` hooks.
+	 */
+	private async completeVerify(
+		input: VerifyOptions,
+		record: KeyRecord,
+		rotation: ReturnType<typeof getRotationInfo>,
+		returnMetadata: boolean,
+	): Promise<VerifyResult> {
+		if (record.expiresAt && record.expiresAt <= now()) {
+			if (this.config.autoDeleteExpiredKeys) {
+				try {
+					await this.removeExpiredKey(record.id);
+				} catch (_storeErr) {
+					console.error("Error deleting expired key", _storeErr);
+				}
+			}
+			return { valid: false, reason: "expired" };
 		}
+
+		if (typeof record.usesRemaining === "number" && record.usesRemaining <= 0) {
+			return { valid: false, reason: "usage_exceeded" };
+		}
+
+		await this.trackEvent("key.verified", {
+			keyId: record.id,
+			userId: record.userId,
+			identifier: input.identifier ?? null,
+			...environmentField(record),
+			ts: now(),
+		});
+
+		const onVerifySuccessResult = await this.runPluginHooks("onVerifySuccess", {
+			input,
+			record,
+		});
+		if (onVerifySuccessResult.error) {
+			return rejectedVerifyResult(onVerifySuccessResult);
+		}
+
+		return {
+			valid: true,
+			keyId: record.id,
+			userId: record.userId ?? undefined,
+			tenantId: record.tenantId ?? undefined,
+			environment: record.environment ?? undefined,
+			metadata: returnMetadata ? publicRecord(record).metadata : undefined,
+			...(rotation
+				? {
+						rotated: true,
+						replacedBy: rotation.replacedBy,
+						graceEndsAt: rotation.graceEndsAt,
+					}
+				: {}),
+		};
 	}
 
 	// ===== Creation ========================================================
@@ -500,52 +925,10 @@ export class UsefulKey {
 	async createKey(input: CreateKeyInput): Promise<Result<CreateKeyResult>>;
 	async createKey(inputArg?: CreateKeyInput): Promise<Result<CreateKeyResult>> {
 		try {
-			const input: CreateKeyInput = inputArg ?? {};
-			const beforeCreateKeyResult = await executePluginHooks(
-				this.pluginHooks,
-				"beforeCreateKey",
-				this,
-				{ input },
-			);
-			if (beforeCreateKeyResult.rejected) {
-				return {
-					error: toError(
-						{
-							code: beforeCreateKeyResult.reason ?? "blocked_by_plugin",
-							message: beforeCreateKeyResult.reason ?? "blocked_by_plugin",
-						},
-						ErrorCodes.PLUGIN_BLOCKED,
-						{ op: "createKey" },
-					),
-				};
-			}
-
-			let plaintext: string;
-			try {
-				const kind = input.keyKind ?? this.config.defaultKeyKind;
-				const prefix = input.prefix ?? this.config.keyPrefix;
-
-				const generated =
-					typeof this.config.customGenerateKey === "function"
-						? this.config.customGenerateKey()
-						: renderKey(kind, prefix, !this.config.disablePrefix);
-
-				plaintext = generated;
-			} catch (genErr) {
-				return {
-					error: toError(genErr, ErrorCodes.KEY_GENERATION_FAILED, {
-						op: "createKey",
-					}),
-				};
-			}
-
-			const id =
-				input.id ??
-				(typeof this.config.customIdGenerator === "function"
-					? this.config.customIdGenerator()
-					: uuid());
-
-			const record = createKeyRecord(id, plaintext, input, this.config);
+			if (this.closed) return { error: closedError("createKey") };
+			const prepared = await this.prepareKey(inputArg ?? {}, "createKey");
+			if ("error" in prepared) return { error: prepared.error };
+			const { record, plaintext } = prepared;
 
 			try {
 				await this.keyStore.createKey(record);
@@ -557,19 +940,7 @@ export class UsefulKey {
 				};
 			}
 
-			await safeTrackAnalytics(this.analytics, "key.created", {
-				keyId: record.id,
-				userId: record.userId,
-				ts: now(),
-			});
-
-			await executePluginHooks(this.pluginHooks, "onKeyCreated", this, {
-				record,
-			});
-
-			return {
-				result: { id: record.id, key: plaintext, metadata: record.metadata },
-			};
+			return { result: await this.completeKeyCreation(record, plaintext) };
 		} catch (err) {
 			return {
 				error: toError(err, ErrorCodes.UNKNOWN, { op: "createKey" }),
@@ -577,60 +948,518 @@ export class UsefulKey {
 		}
 	}
 
-	// ===== Revocation & Deletion ==========================================
-
 	/**
-	 * Revoke a key by its id.
+	 * Create many keys in one call.
 	 *
-	 * Marks the key as revoked in the keystore and emits a `key.revoked`
-	 * analytics event. A revoked key will fail verification with reason "revoked"
-	 * but remains in storage for audit purposes.
+	 * Each input runs through `beforeCreateKey` and key generation like
+	 * `createKey`. Accepted records are written in chunks of `MAX_BATCH_SIZE`
+	 * through the keystore's optional `createKeys` batch method (falling back
+	 * to one `createKey` per record), then `key.created` analytics and
+	 * `onKeyCreated` hooks run for each stored key.
 	 *
-	 * @param id - Key identifier to revoke. The key must exist in the keystore.
-	 * @returns A `Result<void>` indicating success or failure of the revocation operation.
-	 *          If the key doesn't exist, the operation will fail.
+	 * @param inputs - Creation parameters, one per key.
+	 * @returns A `Result` with one `Result<CreateKeyResult>` per input, in input
+	 *          order. A failed batch write fails every item in that chunk.
 	 */
-	async revokeKey(id: KeyId): Promise<Result<void>> {
+	async createKeys(
+		inputs: CreateKeyInput[],
+	): Promise<Result<Array<Result<CreateKeyResult>>>> {
 		try {
-			try {
-				await this.keyStore.revokeKeyById(id);
-			} catch (storeErr) {
+			if (this.closed) return { error: closedError("createKeys") };
+			if (!Array.isArray(inputs)) {
 				return {
-					error: toError(storeErr, ErrorCodes.KEYSTORE_REVOKE_FAILED, {
-						op: "revokeKey",
-					}),
+					error: toError(
+						{ code: "INVALID_INPUT", message: "inputs must be an array" },
+						ErrorCodes.UNKNOWN,
+						{ op: "createKeys" },
+					),
 				};
 			}
-			await safeTrackAnalytics(this.analytics, "key.revoked", {
-				keyId: id,
-				ts: now(),
-			});
-			return { result: undefined };
+
+			const results: Array<Result<CreateKeyResult>> = new Array(inputs.length);
+			const pending: Array<{
+				index: number;
+				record: KeyRecord;
+				plaintext: string;
+			}> = [];
+			for (let index = 0; index < inputs.length; index++) {
+				const prepared = await this.prepareKey(
+					inputs[index] ?? {},
+					"createKeys",
+				);
+				if ("error" in prepared) results[index] = { error: prepared.error };
+				else pending.push({ index, ...prepared });
+			}
+
+			for (let start = 0; start < pending.length; start += MAX_BATCH_SIZE) {
+				const chunk = pending.slice(start, start + MAX_BATCH_SIZE);
+				const written = await this.writeKeyRecords(chunk.map((p) => p.record));
+				for (let i = 0; i < chunk.length; i++) {
+					const item = chunk[i];
+					const writeErr = written[i];
+					results[item.index] = writeErr
+						? {
+								error: toError(writeErr, ErrorCodes.KEYSTORE_WRITE_FAILED, {
+									op: "createKeys",
+								}),
+							}
+						: {
+								result: await this.completeKeyCreation(
+									item.record,
+									item.plaintext,
+								),
+							};
+				}
+			}
+
+			return { result: results };
 		} catch (err) {
 			return {
-				error: toError(err, ErrorCodes.UNKNOWN, { op: "revokeKey" }),
+				error: toError(err, ErrorCodes.UNKNOWN, { op: "createKeys" }),
 			};
 		}
 	}
 
 	/**
-	 * Extend a key's expiry by the provided duration in milliseconds.
-	 *
-	 * If the key currently has no expiry (`expiresAt` is null/undefined), the
-	 * new expiry is computed as `now() + additionalMs`.
-	 *
-	 * This method does not revive revoked keys for verification purposes, but it
-	 * will still update the stored record's `expiresAt` field.
-	 *
-	 * @param id Key identifier whose expiry should be extended.
-	 * @param additionalMs Positive number of milliseconds to add to the current expiry.
-	 * @returns A `Result` with the updated `{ expiresAt }` or `null` when not found.
+	 * Run `beforeCreateKey` hooks, generate the plaintext key and build the
+	 * record for a creation input. Nothing is persisted.
 	 */
-	async extendKeyExpiry(
+	private async prepareKey(
+		input: CreateKeyInput,
+		op: string,
+	): Promise<
+		{ record: KeyRecord; plaintext: string } | { error: UsefulKeyError }
+	> {
+		const beforeCreateKeyResult = await this.runPluginHooks("beforeCreateKey", {
+			input,
+		});
+		if (beforeCreateKeyResult.rejected) {
+			return {
+				error: pluginBlockedError(beforeCreateKeyResult, op),
+			};
+		}
+
+		if (
+			input.environment !== undefined &&
+			input.environment !== "test" &&
+			input.environment !== "live"
+		) {
+			return {
+				error: toError(
+					{
+						code: "INVALID_INPUT",
+						message: 'environment must be "test" or "live"',
+					},
+					ErrorCodes.UNKNOWN,
+					{ op },
+				),
+			};
+		}
+
+		let plaintext: string;
+		try {
+			const kind = input.keyKind ?? this.config.defaultKeyKind;
+			const prefix = input.prefix ?? this.config.keyPrefix;
+
+			const generated =
+				typeof this.config.customGenerateKey === "function"
+					? this.config.customGenerateKey()
+					: renderKey(
+							kind,
+							prefix,
+							!this.config.disablePrefix,
+							input.environment,
+						);
+
+			plaintext = generated;
+		} catch (genErr) {
+			return {
+				error: toError(genErr, ErrorCodes.KEY_GENERATION_FAILED, { op }),
+			};
+		}
+
+		const id =
+			input.id ??
+			(typeof this.config.customIdGenerator === "function"
+				? this.config.customIdGenerator()
+				: uuid());
+
+		return {
+			record: createKeyRecord(id, plaintext, input, this.config),
+			plaintext,
+		};
+	}
+
+	/**
+	 * Persist a chunk of records, preferring the keystore's `createKeys`.
+	 * Returns the write error for each record (`undefined` when stored).
+	 */
+	private async writeKeyRecords(records: KeyRecord[]): Promise<unknown[]> {
+		if (typeof this.keyStore.createKeys === "function") {
+			try {
+				await this.keyStore.createKeys(records);
+				return records.map(() => undefined);
+			} catch (storeErr) {
+				return records.map(() => storeErr ?? new Error("createKeys failed"));
+			}
+		}
+		const errors: unknown[] = [];
+		for (const record of records) {
+			try {
+				await this.keyStore.createKey(record);
+				errors.push(undefined);
+			} catch (storeErr) {
+				errors.push(storeErr ?? new Error("createKey failed"));
+			}
+		}
+		return errors;
+	}
+
+	/** Emit `key.created` analytics and `onKeyCreated` hooks for a stored record. */
+	private async completeKeyCreation(
+		record: KeyRecord,
+		plaintext: string,
+	): Promise<CreateKeyResult> {
+		await this.trackEvent("key.created", {
+			keyId: record.id,
+			userId: record.userId,
+			...environmentField(record),
+			ts: now(),
+		});
+
+		await this.runPluginHooks("onKeyCreated", {
+			record,
+		});
+
+		return { id: record.id, key: plaintext, metadata: record.metadata };
+	}
+
+	// ===== Updates =========================================================
+
+	/**
+	 * Apply a partial update to a key.
+	 *
+	 * `metadata` is deep-merged into the stored metadata (nested objects merge,
+	 * other values replace, `null` removes a field), or with
+	 * `replaceMetadataFields` each of its top-level fields replaces the stored
+	 * one; `userId`, `expiresAt` and
+	 * `usesRemaining` replace the stored values. Plugins may block the update
+	 * via `beforeUpdateKey`. On success a `key.updated` analytics event is
+	 * emitted and `onKeyUpdated` hooks are invoked.
+	 *
+	 * @param id - Key identifier to update.
+	 * @param patch - Fields to change; omitted fields are left untouched.
+	 * @returns A `Result` with the updated record, or `null` when not found.
+	 */
+	async updateKey(
+		id: KeyId,
+		patch: UpdateKeyPatch,
+	): Promise<Result<KeyRecord | null>> {
+		try {
+			if (this.closed) return { error: closedError("updateKey") };
+			const invalid = validateUpdateKeyPatch(patch);
+			if (invalid) {
+				return {
+					error: toError(
+						{ code: "INVALID_INPUT", message: invalid },
+						ErrorCodes.UNKNOWN,
+						{ op: "updateKey" },
+					),
+				};
+			}
+
+			let record: KeyRecord | null = null;
+			try {
+				record = await this.keyStore.findKeyById(id);
+			} catch (storeErr) {
+				return {
+					error: toError(storeErr, ErrorCodes.KEYSTORE_READ_FAILED, {
+						op: "updateKey",
+					}),
+				};
+			}
+
+			if (!record) return { result: null };
+
+			const beforeUpdateKeyResult = await this.runPluginHooks(
+				"beforeUpdateKey",
+				{ record, patch },
+			);
+			if (beforeUpdateKeyResult.rejected) {
+				return {
+					error: pluginBlockedError(beforeUpdateKeyResult, "updateKey"),
+				};
+			}
+
+			const updated: KeyRecord = {
+				...record,
+				...(patch.metadata !== undefined
+					? {
+							metadata: mergeMetadata(
+								record.metadata,
+								patch.metadata,
+								patch.replaceMetadataFields,
+							),
+						}
+					: {}),
+				...(patch.userId !== undefined ? { userId: patch.userId } : {}),
+				...(patch.expiresAt !== undefined
+					? { expiresAt: patch.expiresAt }
+					: {}),
+				...(patch.usesRemaining !== undefined
+					? { usesRemaining: patch.usesRemaining }
+					: {}),
+			};
+
+			try {
+				await this.keyStore.updateKey(updated);
+			} catch (storeErr) {
+				return {
+					error: toError(storeErr, ErrorCodes.KEYSTORE_WRITE_FAILED, {
+						op: "updateKey",
+					}),
+				};
+			}
+
+			await this.trackEvent("key.updated", {
+				keyId: updated.id,
+				userId: updated.userId ?? null,
+				fields: Object.keys(patch).filter(
+					(field) =>
+						field !== "replaceMetadataFields" &&
+						patch[field as keyof UpdateKeyPatch] !== undefined,
+				),
+				ts: now(),
+			});
+
+			await this.runPluginHooks("onKeyUpdated", {
+				previous: record,
+				record: updated,
+				patch,
+			});
+
+			return { result: publicRecord(updated) };
+		} catch (err) {
+			return {
+				error: toError(err, ErrorCodes.UNKNOWN, { op: "updateKey" }),
+			};
+		}
+	}
+
+	// ===== Rotation ========================================================
+
+	/**
+	 * Rotate a key: issue a new plaintext key and retire the old one.
+	 *
+	 * The new key carries over the old key's userId, prefix, metadata (including
+	 * scopes), expiry and uses remaining, and goes through the usual
+	 * `createKey` plugin hooks. The old key keeps verifying until the grace
+	 * period ends, reporting `rotated: true` and `replacedBy`. Nothing runs when
+	 * the period ends: the old key is revoked (through `revokeKey`, so hooks and
+	 * `key.revoked` fire) the next time it is verified. With no grace period the
+	 * old key is revoked immediately.
+	 *
+	 * @param id - Key identifier to rotate.
+	 * @param options - Rotation options.
+	 * @param options.gracePeriod - How long the old key stays valid (default: 0).
+	 * @returns A `Result` with the new `{ id, key, metadata }` plus `previousId` and
+	 *          `graceEndsAt`, or `null` when the key is not found.
+	 */
+	async rotateKey(
+		id: KeyId,
+		options: RotateKeyOptions = {},
+	): Promise<Result<RotateKeyResult | null>> {
+		try {
+			if (this.closed) return { error: closedError("rotateKey") };
+			let graceMs: number;
+			try {
+				graceMs = parseDuration(options.gracePeriod ?? 0);
+			} catch (parseErr) {
+				return {
+					error: toError(
+						{
+							code: "INVALID_INPUT",
+							message: (parseErr as Error).message,
+						},
+						ErrorCodes.UNKNOWN,
+						{ op: "rotateKey" },
+					),
+				};
+			}
+			if (graceMs < 0) {
+				return {
+					error: toError(
+						{
+							code: "INVALID_INPUT",
+							message: "gracePeriod must not be negative",
+						},
+						ErrorCodes.UNKNOWN,
+						{ op: "rotateKey" },
+					),
+				};
+			}
+
+			let record: KeyRecord | null = null;
+			try {
+				record = await this.keyStore.findKeyById(id);
+			} catch (storeErr) {
+				return {
+					error: toError(storeErr, ErrorCodes.KEYSTORE_READ_FAILED, {
+						op: "rotateKey",
+					}),
+				};
+			}
+			if (!record) return { result: null };
+
+			if (record.revokedAt || getRotationInfo(record)) {
+				return {
+					error: toError(
+						{
+							code: "KEY_NOT_ROTATABLE",
+							message: record.revokedAt
+								? "key is revoked"
+								: "key has already been rotated",
+						},
+						ErrorCodes.UNKNOWN,
+						{ op: "rotateKey", keyId: id },
+					),
+				};
+			}
+
+			const created = await this.createKey({
+				userId: record.userId ?? null,
+				tenantId: record.tenantId ?? null,
+				environment: record.environment ?? undefined,
+				prefix: record.prefix || undefined,
+				expiresAt: record.expiresAt ?? null,
+				metadata: { ...(record.metadata ?? {}) },
+				usesRemaining: record.usesRemaining ?? null,
+			});
+			if (created.error || !created.result) {
+				return {
+					error:
+						created.error ??
+						toError(new Error("key creation failed"), ErrorCodes.UNKNOWN, {
+							op: "rotateKey",
+						}),
+				};
+			}
+
+			const newId = created.result.id;
+			const graceEndsAt = now() + graceMs;
+			let retireError: UsefulKeyError | undefined;
+			if (graceMs === 0) {
+				retireError = (await this.revokeKey(record.id)).error;
+			} else {
+				try {
+					await this.keyStore.updateKey({
+						...record,
+						metadata: {
+							...(record.metadata ?? {}),
+							[ROTATION_METADATA_KEY]: { replacedBy: newId, graceEndsAt },
+						},
+					});
+				} catch (storeErr) {
+					retireError = toError(storeErr, ErrorCodes.KEYSTORE_WRITE_FAILED, {
+						op: "rotateKey",
+					});
+				}
+			}
+			if (retireError) {
+				try {
+					await this.keyStore.hardRemoveKeyById(newId);
+					await this.notifyKeyHardRemoved(newId);
+				} catch (_cleanupErr) {
+					// best-effort rollback of the replacement key
+				}
+				return { error: retireError };
+			}
+
+			await this.trackEvent("key.rotated", {
+				keyId: record.id,
+				newKeyId: newId,
+				userId: record.userId,
+				graceEndsAt,
+				ts: now(),
+			});
+
+			return {
+				result: { ...created.result, previousId: record.id, graceEndsAt },
+			};
+		} catch (err) {
+			return {
+				error: toError(err, ErrorCodes.UNKNOWN, { op: "rotateKey" }),
+			};
+		}
+	}
+
+	// ===== Revocation & Deletion ==========================================
+
+	/**
+	 * Revoke a key by its id.
+	 *
+	 * Marks the key as revoked in the keystore and emits a `key.revoked`
+	 * analytics event. A revoked key will fail verification with reason "revoked"
+	 * but remains in storage for audit purposes.
+	 *
+	 * @param id - Key identifier to revoke. The key must exist in the keystore.
+	 * @returns A `Result<void>` indicating success or failure of the revocation operation.
+	 *          If the key doesn't exist, the operation will fail.
+	 */
+	async revokeKey(id: KeyId): Promise<Result<void>> {
+		try {
+			if (this.closed) return { error: closedError("revokeKey") };
+			const beforeRevokeKeyResult = await this.runPluginHooks(
+				"beforeRevokeKey",
+				{ id },
+			);
+			if (beforeRevokeKeyResult.rejected) {
+				return {
+					error: pluginBlockedError(beforeRevokeKeyResult, "revokeKey"),
+				};
+			}
+
+			try {
+				await this.keyStore.revokeKeyById(id);
+			} catch (storeErr) {
+				return {
+					error: toError(storeErr, ErrorCodes.KEYSTORE_REVOKE_FAILED, {
+						op: "revokeKey",
+					}),
+				};
+			}
+			await this.trackEvent("key.revoked", {
+				keyId: id,
+				ts: now(),
+			});
+			await this.notifyKeyRevoked(id);
+			return { result: undefined };
+		} catch (err) {
+			return {
+				error: toError(err, ErrorCodes.UNKNOWN, { op: "revokeKey" }),
+			};
+		}
+	}
+
+	/**
+	 * Extend a key's expiry by the provided duration in milliseconds.
+	 *
+	 * If the key currently has no expiry (`expiresAt` is null/undefined), the
+	 * new expiry is computed as `now() + additionalMs`.
+	 *
+	 * This method does not revive revoked keys for verification purposes, but it
+	 * will still update the stored record's `expiresAt` field.
+	 *
+	 * @param id Key identifier whose expiry should be extended.
+	 * @param additionalMs Positive number of milliseconds to add to the current expiry.
+	 * @returns A `Result` with the updated `{ expiresAt }` or `null` when not found.
+	 */
+	async extendKeyExpiry(
 		id: KeyId,
 		additionalMs: number,
 	): Promise<Result<{ expiresAt: number } | null>> {
 		try {
+			if (this.closed) return { error: closedError("extendKeyExpiry") };
 			if (!validatePositiveNumber(additionalMs, "additionalMs")) {
 				return {
 					error: toError(
@@ -671,7 +1500,7 @@ export class UsefulKey {
 				};
 			}
 
-			await safeTrackAnalytics(this.analytics, "key.expiry_extended", {
+			await this.trackEvent("key.expiry_extended", {
 				keyId: updated.id,
 				from: record.expiresAt ?? null,
 				to: toTs,
@@ -679,6 +1508,11 @@ export class UsefulKey {
 				ts: now(),
 			});
 
+			await this.runPluginHooks("onKeyExpiryExtended", {
+				record: updated,
+				from: record.expiresAt ?? null,
+			});
+
 			return { result: { expiresAt: toTs } };
 		} catch (err) {
 			return {
@@ -701,6 +1535,17 @@ export class UsefulKey {
 	 */
 	async hardRemoveKey(id: KeyId): Promise<Result<void>> {
 		try {
+			if (this.closed) return { error: closedError("hardRemoveKey") };
+			const beforeHardRemoveResult = await this.runPluginHooks(
+				"beforeHardRemove",
+				{ id },
+			);
+			if (beforeHardRemoveResult.rejected) {
+				return {
+					error: pluginBlockedError(beforeHardRemoveResult, "hardRemoveKey"),
+				};
+			}
+
 			try {
 				await this.keyStore.hardRemoveKeyById(id);
 			} catch (storeErr) {
@@ -711,10 +1556,11 @@ export class UsefulKey {
 				};
 			}
 
-			await safeTrackAnalytics(this.analytics, "key.hard_removed", {
+			await this.trackEvent("key.hard_removed", {
 				keyId: id,
 				ts: now(),
 			});
+			await this.notifyKeyHardRemoved(id);
 
 			return { result: undefined };
 		} catch (err) {
@@ -749,6 +1595,7 @@ export class UsefulKey {
 		}>
 	> {
 		try {
+			if (this.closed) return { error: closedError("sweepExpired") };
 			const batchSize = Math.max(
 				1,
 				Math.min(MAX_BATCH_SIZE, input.batchSize ?? DEFAULT_BATCH_SIZE),
@@ -789,13 +1636,21 @@ export class UsefulKey {
 			let hardRemoved = 0;
 			const revoked = 0;
 			for (const id of ids) {
+				const beforeHardRemoveResult = await this.runPluginHooks(
+					"beforeHardRemove",
+					{ id },
+				);
+				if (beforeHardRemoveResult.rejected) continue;
 				try {
 					await this.keyStore.hardRemoveKeyById(id);
 					hardRemoved++;
-				} catch {}
+				} catch {
+					continue;
+				}
+				await this.notifyKeyHardRemoved(id);
 			}
 
-			await safeTrackAnalytics(this.analytics, "keys.expired_swept", {
+			await this.trackEvent("keys.expired_swept", {
 				processed: ids.length,
 				revoked,
 				hardRemoved,
@@ -817,6 +1672,418 @@ export class UsefulKey {
 			};
 		}
 	}
+
+	// ===== Rate limiting ===================================================
+
+	/**
+	 * Free a concurrency slot returned as `lease` by `verifyKey`.
+	 *
+	 * Call it once the request has finished. Releasing a lease that already
+	 * expired or was released is a no-op.
+	 *
+	 * @param lease - The `lease` from a valid `VerifyResult`.
+	 * @returns A `Result` with no value; `RATELIMIT_LEASES_UNSUPPORTED` when the
+	 *          rate limit store has no `releaseLease`.
+	 */
+	async release(lease: RateLimitLease): Promise<Result<void>> {
+		try {
+			if (this.closed) return { error: closedError("release") };
+			if (
+				!lease ||
+				typeof lease.id !== "string" ||
+				typeof lease.namespace !== "string" ||
+				typeof lease.identifier !== "string"
+			) {
+				return {
+					error: toError(
+						{
+							code: "INVALID_INPUT",
+							message: "lease must be a lease returned by verifyKey",
+						},
+						ErrorCodes.UNKNOWN,
+						{ op: "release" },
+					),
+				};
+			}
+			if (typeof this.rateLimitStore.releaseLease !== "function") {
+				return {
+					error: toError(
+						{
+							code: ErrorCodes.RATELIMIT_LEASES_UNSUPPORTED,
+							message: "Rate limit store does not support leases",
+						},
+						ErrorCodes.RATELIMIT_LEASES_UNSUPPORTED,
+						{ op: "release" },
+					),
+				};
+			}
+			try {
+				await this.rateLimitStore.releaseLease(
+					lease.namespace,
+					lease.identifier,
+					lease.id,
+				);
+			} catch (storeErr) {
+				return {
+					error: toError(storeErr, ErrorCodes.RATELIMIT_RELEASE_FAILED, {
+						op: "release",
+						leaseId: lease.id,
+					}),
+				};
+			}
+			return { result: undefined };
+		} catch (err) {
+			return { error: toError(err, ErrorCodes.UNKNOWN, { op: "release" }) };
+		}
+	}
+
+	/** Free a lease taken for a verification that did not succeed; it expires anyway. */
+	private async releaseHeldLease(
+		lease: RateLimitLease | undefined,
+	): Promise<void> {
+		if (!lease) return;
+		try {
+			await this.rateLimitStore.releaseLease?.(
+				lease.namespace,
+				lease.identifier,
+				lease.id,
+			);
+		} catch (storeErr) {
+			console.error("Error releasing lease of failed verification", storeErr);
+		}
+	}
+
+	// ===== Tenants =========================================================
+
+	/**
+	 * Scope operations to one tenant.
+	 *
+	 * The returned view stamps new keys with `tenantId` and only sees keys of
+	 * that tenant: verifying, looking up, listing or changing a key of another
+	 * tenant behaves as if the key did not exist.
+	 *
+	 * @param tenantId - Tenant identifier.
+	 * @returns A `TenantScope` bound to this instance.
+	 */
+	forTenant(tenantId: TenantId): TenantScope {
+		if (typeof tenantId !== "string" || tenantId.length === 0) {
+			const normalized = toError(
+				{
+					code: "INVALID_INPUT",
+					message: "tenantId must be a non-empty string",
+				},
+				ErrorCodes.UNKNOWN,
+				{ op: "forTenant" },
+			);
+			throw Object.assign(new Error(normalized.message), normalized);
+		}
+		return new TenantScope(this, tenantId);
+	}
+
+	// ===== Events ==========================================================
+
+	/**
+	 * Subscribe to an event.
+	 *
+	 * Handlers receive every event that is sent to the analytics adapter: the
+	 * core events (`key.created`, `key.verified`, ...) and those emitted by
+	 * plugins (`scopes.granted`, `ratelimit.blocked`, ...). Handlers run
+	 * alongside the adapter and are awaited with it; their errors are logged
+	 * and never fail the operation.
+	 *
+	 * @param event - Event name, typed for core and built-in plugin events.
+	 * @param handler - Called with the event payload.
+	 * @returns A function that removes this handler.
+	 */
+	on<E extends UsefulKeyEventName>(
+		event: E,
+		handler: UsefulKeyEventHandler<E>,
+	): () => void;
+	on(
+		event: string,
+		handler: (payload: Record<string, unknown>) => void | Promise<void>,
+	): () => void;
+	on(
+		event: string,
+		handler: (payload: never) => void | Promise<void>,
+	): () => void {
+		const fn = handler as (payload: Record<string, unknown>) => void;
+		let handlers = this.eventHandlers.get(event);
+		if (!handlers) {
+			handlers = new Set();
+			this.eventHandlers.set(event, handlers);
+		}
+		handlers.add(fn);
+		return () => {
+			this.off(event, fn);
+		};
+	}
+
+	/**
+	 * Unsubscribe from events.
+	 *
+	 * @param event - Event name; omit to remove every handler.
+	 * @param handler - Handler to remove; omit to remove all handlers of `event`.
+	 */
+	off<E extends UsefulKeyEventName>(
+		event?: E,
+		handler?: UsefulKeyEventHandler<E>,
+	): void;
+	off(
+		event?: string,
+		handler?: (payload: Record<string, unknown>) => void | Promise<void>,
+	): void;
+	off(
+		event?: string,
+		handler?: (payload: never) => void | Promise<void>,
+	): void {
+		if (event === undefined) {
+			this.eventHandlers.clear();
+			return;
+		}
+		if (handler === undefined) {
+			this.eventHandlers.delete(event);
+			return;
+		}
+		const handlers = this.eventHandlers.get(event);
+		handlers?.delete(handler as (payload: Record<string, unknown>) => void);
+		if (handlers?.size === 0) this.eventHandlers.delete(event);
+	}
+
+	private async emitEvent(
+		event: string,
+		payload: Record<string, unknown>,
+	): Promise<void> {
+		const handlers = this.eventHandlers.get(event);
+		if (!handlers) return;
+		await Promise.all(
+			Array.from(handlers).map(async (handler) => {
+				try {
+					await handler(payload);
+				} catch (handlerErr) {
+					console.error(
+						`Error in ${event} event handler`,
+						toError(handlerErr, ErrorCodes.UNKNOWN, { op: event }),
+					);
+				}
+			}),
+		);
+	}
+
+	// ===== Lifecycle =======================================================
+
+	/**
+	 * Flush buffered work without shutting down.
+	 *
+	 * Awaits analytics events that are still being tracked, then calls the
+	 * optional `flush()` of every adapter (for example the ClickHouse event
+	 * queue). Serverless handlers should call this before returning.
+	 *
+	 * @returns A `Result<void>`; the first adapter failure is returned as an error.
+	 */
+	async flush(): Promise<Result<void>> {
+		try {
+			if (this.closed) return { error: closedError("flush") };
+			const failure = await this.flushAdapters();
+			return failure
+				? { error: toError(failure, ErrorCodes.UNKNOWN, { op: "flush" }) }
+				: { result: undefined };
+		} catch (err) {
+			return { error: toError(err, ErrorCodes.UNKNOWN, { op: "flush" }) };
+		}
+	}
+
+	/**
+	 * Shut the instance down gracefully.
+	 *
+	 * Awaits pending analytics, runs every plugin's `teardown` hook, then calls
+	 * the optional `close()` of every adapter (or `flush()` when an adapter has
+	 * no `close()`). Every later call on this instance fails with
+	 * `INSTANCE_CLOSED`. Calling `close()` again returns the first call's result.
+	 *
+	 * @returns A `Result<void>`; the first teardown or adapter failure is
+	 *          returned as an error after all others have been attempted.
+	 */
+	close(): Promise<Result<void>> {
+		if (!this.closing) {
+			this.closed = true;
+			this.closing = this.shutdown();
+		}
+		return this.closing;
+	}
+
+	private async shutdown(): Promise<Result<void>> {
+		try {
+			await this.settleAnalytics();
+
+			let failure: unknown = null;
+			for (const hook of this.pluginHooks) {
+				if (typeof hook.teardown !== "function") continue;
+				try {
+					await hook.teardown(this);
+				} catch (teardownErr) {
+					const error = toError(teardownErr, ErrorCodes.UNKNOWN, {
+						op: "teardown",
+						plugin: hook.name,
+					});
+					console.error("Plugin teardown error", error);
+					failure ??= error;
+				}
+			}
+
+			for (const adapter of this.adapterList()) {
+				try {
+					if (typeof adapter.close === "function") await adapter.close();
+					else if (typeof adapter.flush === "function") await adapter.flush();
+				} catch (adapterErr) {
+					console.error("Error closing adapter", adapterErr);
+					failure ??= adapterErr;
+				}
+			}
+
+			return failure
+				? { error: toError(failure, ErrorCodes.UNKNOWN, { op: "close" }) }
+				: { result: undefined };
+		} catch (err) {
+			return { error: toError(err, ErrorCodes.UNKNOWN, { op: "close" }) };
+		}
+	}
+
+	/** Await pending analytics, then flush every adapter that supports it. */
+	private async flushAdapters(): Promise<unknown> {
+		await this.settleAnalytics();
+		let failure: unknown = null;
+		for (const adapter of this.adapterList()) {
+			if (typeof adapter.flush !== "function") continue;
+			try {
+				await adapter.flush();
+			} catch (adapterErr) {
+				console.error("Error flushing adapter", adapterErr);
+				failure ??= adapterErr;
+			}
+		}
+		return failure;
+	}
+
+	/** Analytics first so queued events still reach their sink; shared adapters once. */
+	private adapterList(): Array<{
+		flush?: () => Promise<void>;
+		close?: () => Promise<void>;
+	}> {
+		return Array.from(
+			new Set([this.analyticsAdapter, this.keyStore, this.rateLimitStore]),
+		);
+	}
+
+	private async settleAnalytics(): Promise<void> {
+		while (this.pendingAnalytics.size > 0) {
+			await Promise.allSettled(Array.from(this.pendingAnalytics));
+		}
+	}
+
+	/** Track an analytics event, recording it as pending until it settles. */
+	private trackEvent(
+		event: string,
+		data: Record<string, unknown>,
+	): Promise<void> {
+		const pending = safeTrackAnalytics(this.analytics, event, data);
+		this.pendingAnalytics.add(pending);
+		void pending.finally(() => this.pendingAnalytics.delete(pending));
+		return pending;
+	}
+
+	/** Run one plugin hook across all plugins with the instance's error policy. */
+	private runPluginHooks(
+		hookName: keyof UsefulKeyPluginHooks,
+		args: unknown,
+	): ReturnType<typeof executePluginHooks> {
+		return executePluginHooks(
+			this.pluginHooks,
+			hookName,
+			this,
+			args,
+			this.config.onHookError,
+		);
+	}
+
+	/** Run `onKeyRevoked` hooks once a key has been revoked. */
+	private async notifyKeyRevoked(id: KeyId): Promise<void> {
+		await this.runPluginHooks("onKeyRevoked", { id });
+	}
+
+	/** Run `onKeyHardRemoved` hooks once a key has been deleted. */
+	/**
+	 * Hard-remove an expired key found on access (`autoDeleteExpiredKeys`).
+	 * Runs the same `beforeHardRemove` / `onKeyHardRemoved` hooks as
+	 * `hardRemoveKey`; a plugin rejecting the removal keeps the key.
+	 */
+	private async removeExpiredKey(id: KeyId): Promise<void> {
+		const beforeHardRemoveResult = await this.runPluginHooks(
+			"beforeHardRemove",
+			{ id },
+		);
+		if (beforeHardRemoveResult.rejected) return;
+		await this.keyStore.hardRemoveKeyById(id);
+		await this.notifyKeyHardRemoved(id);
+	}
+
+	private async notifyKeyHardRemoved(id: KeyId): Promise<void> {
+		await this.runPluginHooks("onKeyHardRemoved", {
+			id,
+		});
+	}
+}
+
+/**
+ * Error returned when a `before*` plugin hook rejects an operation, or the
+ * hook's own error when it failed under a fail-closed policy.
+ */
+function pluginBlockedError(
+	hookResult: { reason?: string; error?: UsefulKeyError },
+	op: string,
+): UsefulKeyError {
+	if (hookResult.error) return hookResult.error;
+	return toError(
+		{
+			code: hookResult.reason ?? "blocked_by_plugin",
+			message: hookResult.reason ?? "blocked_by_plugin",
+		},
+		ErrorCodes.PLUGIN_BLOCKED,
+		{ op },
+	);
+}
+
+/** Error returned by every operation once `close()` has been called. */
+function closedError(op: string): UsefulKeyError {
+	return toError(
+		{
+			code: ErrorCodes.INSTANCE_CLOSED,
+			message: "UsefulKey instance is closed",
+		},
+		ErrorCodes.INSTANCE_CLOSED,
+		{ op },
+	);
+}
+
+/** `{ environment }` for analytics payloads of keys that have one. */
+function environmentField(record: KeyRecord): {
+	environment?: KeyEnvironment;
+} {
+	return record.environment ? { environment: record.environment } : {};
+}
+
+/** Failed verification for a plugin rejection or fail-closed hook error. */
+function rejectedVerifyResult(hookResult: {
+	reason?: string;
+	error?: UsefulKeyError;
+	ratelimit?: RateLimitState;
+}): VerifyResult {
+	return {
+		valid: false,
+		reason: hookResult.reason ?? "blocked_by_plugin",
+		...(hookResult.ratelimit ? { ratelimit: hookResult.ratelimit } : {}),
+		...(hookResult.error ? { error: hookResult.error } : {}),
+	};
 }
 
 export function usefulkey<
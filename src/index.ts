@@ -1,6 +1,13 @@
 export * from "./adapters/analytics/clickhouse";
 export * from "./adapters/analytics/console";
 export * from "./adapters/analytics/noop";
+export * from "./adapters/invalidation-bus/memory";
+export {
+	type PgListenerClient,
+	PostgresInvalidationBus,
+} from "./adapters/invalidation-bus/postgres";
+export { RedisInvalidationBus } from "./adapters/invalidation-bus/redis";
+export * from "./adapters/keystore/cached";
 export { D1KeyStore } from "./adapters/keystore/cloudflare-d1";
 export { HttpKeyStore } from "./adapters/keystore/http";
 export * from "./adapters/keystore/memory";
@@ -12,6 +19,7 @@ export * from "./adapters/ratelimit-store/memory";
 export { PostgresRateLimitStore } from "./adapters/ratelimit-store/postgres";
 export { RedisRateLimitStore } from "./adapters/ratelimit-store/redis.js";
 export * from "./adapters/ratelimit-store/sqlite.js";
+export { TenantScope } from "./core/tenant-scope.js";
 export * from "./core/usefulkey.js";
 export * from "./plugins";
 export * from "./plugins/rate-limit";
@@ -19,7 +27,9 @@ export type { D1LikeClient, KvLikeClient } from "./types/adapters";
 export * from "./types/adapters";
 export * from "./types/common";
 export { ErrorCodes } from "./types/common";
+export * from "./types/events";
 export * from "./types/plugins";
 export * from "./types/ratelimit";
+export * from "./types/webhooks";
 export { configureCryptoProvider } from "./utils/crypto";
 export * from "./utils/key";
@@ -18,8 +18,11 @@ export function enableDisable(): UsefulKeyPlugin<{
 		extend: {
 			__hasEnableDisable: true as const,
 			async disableKey(id: KeyId) {
-				const record = await ctx.keyStore.findKeyById(id);
-				if (!record) {
+				const res = await ctx.updateKey(id, { metadata: { disabled: true } });
+				if (res.error) {
+					throw Object.assign(new Error(res.error.message), res.error);
+				}
+				if (!res.result) {
 					const normalized = toError(
 						new Error("key not found"),
 						"KEY_NOT_FOUND",
@@ -32,8 +35,6 @@ export function enableDisable(): UsefulKeyPlugin<{
 					const err = Object.assign(new Error(normalized.message), normalized);
 					throw err;
 				}
-				const metadata = { ...(record.metadata ?? {}), disabled: true };
-				await ctx.keyStore.updateKey({ ...record, metadata });
 				try {
 					await ctx.analytics.track("key.disabled", {
 						keyId: id,
@@ -50,8 +51,11 @@ export function enableDisable(): UsefulKeyPlugin<{
 				}
 			},
 			async enableKey(id: KeyId) {
-				const record = await ctx.keyStore.findKeyById(id);
-				if (!record) {
+				const res = await ctx.updateKey(id, { metadata: { disabled: false } });
+				if (res.error) {
+					throw Object.assign(new Error(res.error.message), res.error);
+				}
+				if (!res.result) {
 					const normalized = toError(
 						new Error("key not found"),
 						"KEY_NOT_FOUND",
@@ -64,8 +68,6 @@ export function enableDisable(): UsefulKeyPlugin<{
 					const err = Object.assign(new Error(normalized.message), normalized);
 					throw err;
 				}
-				const metadata = { ...(record.metadata ?? {}), disabled: false };
-				await ctx.keyStore.updateKey({ ...record, metadata });
 				try {
 					await ctx.analytics.track("key.enabled", {
 						keyId: id,
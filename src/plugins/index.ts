@@ -3,3 +3,4 @@ export * from "./ip-access-control";
 export * from "./permissions-scopes";
 export * from "./rate-limit";
 export * from "./usage-limits-per-key";
+export * from "./webhooks";
@@ -1,3 +1,4 @@
+import type { UsefulKey } from "../../core/usefulkey";
 import type { KeyId } from "../../types/common";
 import type {
 	PermissionsScopesArgs,
@@ -19,6 +20,21 @@ function includesAll(have: Set<string>, required: string[]): boolean {
 	return true;
 }
 
+/**
+ * Store a key's scopes through `updateKey` so the change runs the update hooks
+ * and analytics. Returns `false` when the key does not exist.
+ */
+async function updateScopes(
+	ctx: UsefulKey,
+	id: KeyId,
+	metadataKey: string,
+	scopes: string[],
+): Promise<boolean> {
+	const res = await ctx.updateKey(id, { metadata: { [metadataKey]: scopes } });
+	if (res.error) throw Object.assign(new Error(res.error.message), res.error);
+	return res.result !== null;
+}
+
 export function permissionsScopes(
 	args: PermissionsScopesArgs = {},
 ): UsefulKeyPlugin<{
@@ -69,11 +85,7 @@ export function permissionsScopes(
 					] as string[] | string | undefined,
 				);
 				const updatedScopes = unique([...current, ...toArray(scopes)]);
-				const metadata = {
-					...(record.metadata ?? {}),
-					[metadataKey]: updatedScopes,
-				} as Record<string, unknown>;
-				await ctx.keyStore.updateKey({ ...record, metadata });
+				await updateScopes(ctx, id, metadataKey, updatedScopes);
 				try {
 					await ctx.analytics.track("scopes.granted", {
 						keyId: id,
@@ -95,11 +107,7 @@ export function permissionsScopes(
 				);
 				for (const s of toArray(scopes)) current.delete(s);
 				const updatedScopes = Array.from(current);
-				const metadata = {
-					...(record.metadata ?? {}),
-					[metadataKey]: updatedScopes,
-				} as Record<string, unknown>;
-				await ctx.keyStore.updateKey({ ...record, metadata });
+				await updateScopes(ctx, id, metadataKey, updatedScopes);
 				try {
 					await ctx.analytics.track("scopes.revoked", {
 						keyId: id,
@@ -110,14 +118,8 @@ export function permissionsScopes(
 				} catch {}
 			},
 			async setScopes(id: KeyId, scopes: string[] | string) {
-				const record = await ctx.keyStore.findKeyById(id);
-				if (!record) return;
 				const updatedScopes = unique(toArray(scopes));
-				const metadata = {
-					...(record.metadata ?? {}),
-					[metadataKey]: updatedScopes,
-				} as Record<string, unknown>;
-				await ctx.keyStore.updateKey({ ...record, metadata });
+				if (!(await updateScopes(ctx, id, metadataKey, updatedScopes))) return;
 				try {
 					await ctx.analytics.track("scopes.set", {
 						keyId: id,
@@ -0,0 +1,46 @@
+/**
+ * HTTP headers for rate limited responses.
+ *
+ * Follows the IETF RateLimit header fields draft: `RateLimit-Policy` describes
+ * the limit (quota `q` per window `w` seconds) and `RateLimit` the current
+ * state (`r` requests remaining, `t` seconds until reset). `Retry-After` is
+ * added when the request was rate limited.
+ */
+import type { RateLimitState } from "../../types/ratelimit";
+import { now } from "../../utils/time";
+
+/** Quote a policy name as a structured field string. */
+function policyName(name: string | undefined): string {
+	return `"${(name ?? "default").replace(/[\\"]/g, "\\$&")}"`;
+}
+
+/**
+ * Build the rate limit headers for a verification result's `ratelimit`.
+ * Returns no headers when no limit applied.
+ *
+ * @example
+ * const res = await uk.verifyKey({ key, namespace: "api" });
+ * const headers = rateLimitHeaders(res.result?.ratelimit);
+ * if (res.result?.reason?.startsWith("rate_limited")) {
+ *   return new Response("Too Many Requests", { status: 429, headers });
+ * }
+ */
+export function rateLimitHeaders(
+	state: RateLimitState | null | undefined,
+): Record<string, string> {
+	if (!state) return {};
+	const name = policyName(state.name);
+	const policy =
+		state.windowMs === undefined
+			? `${name};q=${state.limit}`
+			: `${name};q=${state.limit};w=${Math.ceil(state.windowMs / 1000)}`;
+	const seconds = Math.max(0, Math.ceil((state.reset - now()) / 1000));
+	const headers: Record<string, string> = {
+		"RateLimit-Policy": policy,
+		RateLimit: `${name};r=${Math.max(0, state.remaining)};t=${seconds}`,
+	};
+	if (state.retryAfterMs !== undefined) {
+		headers["Retry-After"] = String(Math.ceil(state.retryAfterMs / 1000));
+	}
+	return headers;
+}
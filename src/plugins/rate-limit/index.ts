@@ -1,17 +1,306 @@
-import type { VerifyOptions } from "../../types/common";
+import type { UsefulKey } from "../../core/usefulkey";
+import {
+	ErrorCodes,
+	type KeyId,
+	type KeyRecord,
+	type RateLimitStoreAdapter,
+	type UsefulKeyConfig,
+	type VerifyOptions,
+} from "../../types/common";
 import type { RatelimitArgs, UsefulKeyPlugin } from "../../types/plugins";
-import type { RateLimitRequest } from "../../types/ratelimit";
+import type {
+	NamedRateLimit,
+	RateLimitConfig,
+	RateLimitLease,
+	RateLimitRefund,
+	RateLimitRequest,
+	RateLimitState,
+} from "../../types/ratelimit";
+import { uuid } from "../../utils/crypto";
+import { toError } from "../../utils/error";
+import { hashKeyWithConfig } from "../../utils/key";
 import { now, parseDuration } from "../../utils/time";
 
+export { rateLimitHeaders } from "./headers";
+
+function isDuration(value: unknown): boolean {
+	try {
+		return parseDuration(value as string | number) > 0;
+	} catch {
+		return false;
+	}
+}
+
+function isPositive(value: unknown): boolean {
+	return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+/** Whether `value` is a usable `RateLimitRequest` (e.g. one read from metadata). */
+function isRateLimitRequest(value: unknown): value is RateLimitRequest {
+	if (typeof value !== "object" || value === null) return false;
+	const cfg = value as Record<string, any>;
+	if (cfg.kind === "fixed" || cfg.kind === "slidingWindow") {
+		return isPositive(cfg.limit) && isDuration(cfg.duration);
+	}
+	if (cfg.kind === "tokenBucket") {
+		return (
+			isPositive(cfg.capacity) &&
+			isPositive(cfg.refill?.tokens) &&
+			isDuration(cfg.refill?.interval) &&
+			(cfg.cost === undefined || isPositive(cfg.cost))
+		);
+	}
+	if (cfg.kind === "concurrency") {
+		return (
+			isPositive(cfg.limit) && (cfg.ttl === undefined || isDuration(cfg.ttl))
+		);
+	}
+	if (cfg.kind === "gcra") {
+		return (
+			isPositive(cfg.rate) &&
+			isDuration(cfg.period) &&
+			isPositive(cfg.burst) &&
+			cfg.burst >= 1
+		);
+	}
+	return false;
+}
+
+/**
+ * Whether `value` is a usable `RateLimitConfig`: a single limit, or a stack of
+ * limits with unique names and at most one concurrency limit.
+ */
+function isRateLimitConfig(value: unknown): value is RateLimitConfig {
+	if (!Array.isArray(value)) return isRateLimitRequest(value);
+	const names = new Set<string>();
+	let concurrency = 0;
+	for (const item of value) {
+		if (!isRateLimitRequest(item)) return false;
+		const name = (item as { name?: unknown }).name;
+		if (typeof name !== "string" || name === "" || names.has(name)) {
+			return false;
+		}
+		names.add(name);
+		if (item.kind === "concurrency") concurrency++;
+	}
+	return value.length > 0 && concurrency <= 1;
+}
+
+type Consumed = {
+	result: { success: boolean; remaining: number; reset: number };
+	/** What to hand back to the store if the request is rejected later. */
+	refund?: RateLimitRefund;
+	lease?: RateLimitLease;
+};
+
+/** Count one request against a single limit. */
+async function consume(
+	store: RateLimitStoreAdapter,
+	namespace: string,
+	id: string,
+	cfg: RateLimitRequest,
+): Promise<Consumed | null> {
+	if (cfg.kind === "concurrency") {
+		const acquire = store.acquireLease?.bind(store);
+		if (!acquire) {
+			throw new Error("Rate limit store does not support concurrency limits");
+		}
+		const ttlMs = parseDuration(cfg.ttl ?? "1m");
+		const lease: RateLimitLease = {
+			id: uuid(),
+			namespace,
+			identifier: id,
+			expiresAt: now() + ttlMs,
+		};
+		const result = await acquire(namespace, id, lease.id, cfg.limit, ttlMs);
+		return { result, lease };
+	}
+	if (cfg.kind === "fixed") {
+		const windowMs = parseDuration(cfg.duration);
+		const result = await store.incrementAndCheck(
+			namespace,
+			id,
+			cfg.limit,
+			windowMs,
+		);
+		return { result, refund: { kind: "fixed" } };
+	}
+	if (cfg.kind === "slidingWindow") {
+		if (!store.consumeSlidingWindow) {
+			throw new Error(
+				"Rate limit store does not support sliding window limits",
+			);
+		}
+		const windowMs = parseDuration(cfg.duration);
+		const consumedAt = now();
+		const result = await store.consumeSlidingWindow(
+			namespace,
+			id,
+			cfg.limit,
+			windowMs,
+		);
+		return {
+			result,
+			refund: { kind: "slidingWindow", durationMs: windowMs, consumedAt },
+		};
+	}
+	if (cfg.kind === "gcra") {
+		if (!store.consumeGcra) {
+			throw new Error("Rate limit store does not support gcra limits");
+		}
+		const periodMs = parseDuration(cfg.period);
+		const result = await store.consumeGcra(
+			namespace,
+			id,
+			cfg.rate,
+			periodMs,
+			cfg.burst,
+		);
+		return { result, refund: { kind: "gcra", rate: cfg.rate, periodMs } };
+	}
+	if (cfg.kind === "tokenBucket") {
+		const refillMs = parseDuration(cfg.refill.interval);
+		const cost = cfg.cost ?? 1;
+		const result = await store.consumeTokenBucket(
+			namespace,
+			id,
+			cfg.capacity,
+			cfg.refill.tokens,
+			refillMs,
+			cost,
+		);
+		return {
+			result,
+			refund: { kind: "tokenBucket", capacity: cfg.capacity, cost },
+		};
+	}
+	return null;
+}
+
+/** How many requests a limit allows, and how long it takes to fully recover. */
+function limitPolicy(cfg: RateLimitRequest): {
+	limit: number;
+	windowMs?: number;
+} {
+	if (cfg.kind === "fixed" || cfg.kind === "slidingWindow") {
+		return { limit: cfg.limit, windowMs: parseDuration(cfg.duration) };
+	}
+	if (cfg.kind === "tokenBucket") {
+		const refillMs = parseDuration(cfg.refill.interval);
+		return {
+			limit: cfg.capacity,
+			windowMs: Math.ceil((cfg.capacity / cfg.refill.tokens) * refillMs),
+		};
+	}
+	if (cfg.kind === "gcra") {
+		const interval = parseDuration(cfg.period) / cfg.rate;
+		return { limit: cfg.burst, windowMs: Math.ceil(interval * cfg.burst) };
+	}
+	return { limit: cfg.limit };
+}
+
+/** Limits a request has passed, with what each one consumed. */
+type Taken = Array<{ namespace: string; consumed: Consumed }>;
+
+/** Undo the limits a rejected request already passed; failures are only logged. */
+async function rollback(
+	store: RateLimitStoreAdapter,
+	id: string,
+	taken: Taken,
+): Promise<void> {
+	for (const { namespace, consumed } of [...taken].reverse()) {
+		try {
+			if (consumed.lease) {
+				await store.releaseLease?.(namespace, id, consumed.lease.id);
+			} else if (consumed.refund) {
+				await store.refund?.(namespace, id, consumed.refund);
+			}
+		} catch (err) {
+			console.error(
+				"Error rolling back rate limit",
+				toError(err, ErrorCodes.RATELIMIT_REFUND_FAILED, {
+					plugin: "ratelimit",
+					namespace,
+					identifier: id,
+				}),
+			);
+		}
+	}
+}
+
+/**
+ * Why `store` cannot enforce `cfg`, or `null` when it can. Checked up front so
+ * an unsupported limit is refused instead of failing inside a verify hook,
+ * where a fail-open policy would let every request through.
+ */
+function unsupportedLimit(
+	store: RateLimitStoreAdapter,
+	cfg: RateLimitConfig,
+): string | null {
+	const limits = Array.isArray(cfg) ? cfg : [cfg];
+	if (limits.length > 1 && !store.refund) {
+		return "Rate limit store does not support stacked limits";
+	}
+	for (const limit of limits) {
+		if (limit.kind === "slidingWindow" && !store.consumeSlidingWindow) {
+			return "Rate limit store does not support sliding window limits";
+		}
+		if (limit.kind === "gcra" && !store.consumeGcra) {
+			return "Rate limit store does not support gcra limits";
+		}
+		if (limit.kind === "concurrency" && !store.acquireLease) {
+			return "Rate limit store does not support concurrency limits";
+		}
+	}
+	return null;
+}
+
+function hasConcurrency(cfg: RateLimitConfig): boolean {
+	return (Array.isArray(cfg) ? cfg : [cfg]).some(
+		(limit) => limit.kind === "concurrency",
+	);
+}
+
+/** Test and live keys count against separate limits. */
+function withEnvironment(
+	namespace: string,
+	environment: string | null | undefined,
+): string {
+	return environment ? `${namespace}:${environment}` : namespace;
+}
+
+/**
+ * Identifier derived from a plaintext key, which must never reach the store.
+ * Keyed with the configured secret, so a leaked store can't be checked
+ * against guessed keys.
+ */
+function keyIdentifier(key: string, config: UsefulKeyConfig): string {
+	return hashKeyWithConfig(key, config);
+}
+
+function extensionError(
+	message: string,
+	code: string,
+	meta: Record<string, unknown>,
+): Error {
+	const normalized = toError({ code, message }, ErrorCodes.UNKNOWN, {
+		plugin: "ratelimit",
+		...meta,
+	});
+	return Object.assign(new Error(normalized.message), normalized);
+}
+
 export function ratelimit(args?: RatelimitArgs): UsefulKeyPlugin<{
 	__hasRateLimit: true;
+	setKeyRateLimit: (id: KeyId, cfg: RateLimitConfig | null) => Promise<void>;
 }> {
-	const identify = (
+	const identifyBy = args?.identifyBy ?? "request";
+	const customIdentify = (
 		args && typeof (args as any).identify === "function"
 			? (args as any).identify
-			: (i: VerifyOptions) => i.identifier ?? i.ip ?? i.key ?? null
-	) as (i: VerifyOptions) => string | null;
-	const defaults: RateLimitRequest | undefined =
+			: undefined
+	) as ((i: VerifyOptions, record: KeyRecord) => string | null) | undefined;
+	const defaults: RateLimitConfig | undefined =
 		args && (args as any).default
 			? (args as any).default
 			: args && typeof (args as any).limit === "number"
@@ -23,58 +312,246 @@ export function ratelimit(args?: RatelimitArgs): UsefulKeyPlugin<{
 				: undefined;
 	const reason = (args && (args as any).reason) ?? "rate_limited";
 	const analyticsKind = args && (args as any).analyticsKind;
+	const metadataKey = args?.metadataKey ?? "rateLimit";
 
-	return (ctx) => ({
-		name: "ratelimit",
-		async beforeVerify(_uk, { key, ip, identifier, namespace, rateLimit }) {
-			const id = identify({ key, ip, identifier } as any);
+	/**
+	 * Limits a verification has used up, so they can be handed back if it
+	 * fails later. Keyed by the verification input shared by all hooks.
+	 */
+	const held = new WeakMap<
+		VerifyOptions,
+		{ id: string; taken: Taken; ratelimit?: RateLimitState }
+	>();
 
-			if (!namespace) {
-				return { reject: true, reason: "namespace_required" };
-			}
+	return (ctx: UsefulKey) => {
+		/** Who a request counts against before its key is looked up. */
+		const requestIdentifier = (i: { key: string } & Partial<VerifyOptions>) =>
+			i.identifier ?? i.ip ?? keyIdentifier(i.key, ctx.config);
 
-			if (!id) return;
-			const cfg: RateLimitRequest | undefined = rateLimit ?? defaults;
-			if (!cfg) return;
+		/** Who a request counts against once its key record is loaded. */
+		const recordIdentifier = (i: VerifyOptions, record: KeyRecord) => {
+			if (!customIdentify) {
+				if (identifyBy === "keyId") return record.id;
+				if (identifyBy === "userId") return record.userId ?? record.id;
+				return requestIdentifier(i);
+			}
+			const id = customIdentify(i, record);
+			return id === i.key ? keyIdentifier(id, ctx.config) : id;
+		};
 
-			let result: { success: boolean; remaining: number; reset: number };
-			if (cfg.kind === "fixed") {
-				const windowMs = parseDuration(cfg.duration);
-				result = await ctx.rateLimitStore.incrementAndCheck(
-					namespace,
-					id,
-					cfg.limit,
-					windowMs,
+		/** Count a request against every limit of `cfg`, or report the one it exceeds. */
+		const enforce = async (
+			namespace: string,
+			id: string,
+			cfg: RateLimitConfig,
+			meta: { environment?: string | null; keyId?: KeyId },
+		): Promise<
+			| { reject: true; reason: string; ratelimit?: RateLimitState }
+			| { taken: Taken; ratelimit?: RateLimitState }
+		> => {
+			const store = ctx.rateLimitStore;
+			const unsupported = unsupportedLimit(store, cfg);
+			if (unsupported) {
+				// Rejected whatever `onHookError` says: failing open here would
+				// switch the limit off for good, not just while a store is down.
+				console.error(
+					"Rate limit cannot be enforced",
+					toError(
+						{
+							code: ErrorCodes.RATELIMIT_CONFIG_UNSUPPORTED,
+							message: unsupported,
+						},
+						ErrorCodes.RATELIMIT_CONFIG_UNSUPPORTED,
+						{ plugin: "ratelimit", namespace, ...meta },
+					),
 				);
-			} else if (cfg.kind === "tokenBucket") {
-				const refillMs = parseDuration(cfg.refill.interval);
-				result = await ctx.rateLimitStore.consumeTokenBucket(
-					namespace,
-					id,
-					cfg.capacity,
-					cfg.refill.tokens,
-					refillMs,
-					cfg.cost ?? 1,
-				);
-			} else {
-				return;
+				return { reject: true, reason: "plugin_error" };
 			}
-			if (!result.success) {
+			const stacked = Array.isArray(cfg);
+			const limits: RateLimitRequest[] = stacked ? cfg : [cfg];
+			const taken: Taken = [];
+			let closest: RateLimitState | undefined;
+			for (const limit of limits) {
+				const name = stacked ? (limit as NamedRateLimit).name : undefined;
+				// Each named limit keeps its own counters.
+				const limitNamespace =
+					name === undefined ? namespace : `${namespace}/${name}`;
+				let consumed: Consumed | null;
+				try {
+					consumed = await consume(store, limitNamespace, id, limit);
+				} catch (err) {
+					await rollback(store, id, taken);
+					throw err;
+				}
+				if (!consumed) continue;
+				const state: RateLimitState = {
+					...(name !== undefined ? { name } : {}),
+					...limitPolicy(limit),
+					remaining: consumed.result.remaining,
+					reset: consumed.result.reset,
+				};
+				if (consumed.result.success) {
+					taken.push({ namespace: limitNamespace, consumed });
+					// Report the limit that is closest to tripping.
+					if (!closest || state.remaining < closest.remaining) closest = state;
+					continue;
+				}
+				// A rejected request should not use up the limits it passed.
+				await rollback(store, id, taken);
 				try {
 					await ctx.analytics.track("ratelimit.blocked", {
-						kind: analyticsKind ?? (cfg.kind === "fixed" ? "fixed" : cfg.kind),
-						namespace,
+						kind: analyticsKind ?? limit.kind,
+						namespace: limitNamespace,
+						...(name !== undefined ? { name } : {}),
+						...(meta.environment ? { environment: meta.environment } : {}),
+						...(meta.keyId ? { keyId: meta.keyId } : {}),
 						identifier: id,
-						reset: result.reset,
-						limit: (cfg as any).limit,
-						capacity: (cfg as any).capacity,
+						reset: consumed.result.reset,
+						limit: (limit as any).limit,
+						capacity: (limit as any).capacity,
 						remaining: 0,
 						ts: now(),
 					});
 				} catch {}
-				return { reject: true, reason };
+				return {
+					reject: true,
+					reason: name === undefined ? reason : `${reason}:${name}`,
+					ratelimit: {
+						...state,
+						retryAfterMs: Math.max(0, consumed.result.reset - now()),
+					},
+				};
 			}
-		},
-		extend: { __hasRateLimit: true as const },
-	});
+			return { taken, ratelimit: closest };
+		};
+
+		return {
+			name: "ratelimit",
+			onHookError: args?.onHookError,
+			// Reported as a plugin setup error; requests are still rejected at
+			// verify time.
+			async setup() {
+				const unsupported = defaults
+					? unsupportedLimit(ctx.rateLimitStore, defaults)
+					: null;
+				if (unsupported) {
+					throw extensionError(
+						unsupported,
+						ErrorCodes.RATELIMIT_CONFIG_UNSUPPORTED,
+						{ op: "setup" },
+					);
+				}
+			},
+			// The per-call or default limit is checked before the key is looked
+			// up, so unknown and revoked keys are limited too. Counted without an
+			// environment: the key's prefix is unverified input, and letting it
+			// pick the counter would let callers switch counters at will.
+			async beforeVerify(_uk, { input, key, namespace }) {
+				held.delete(input);
+				if (!namespace) {
+					return { reject: true, reason: "namespace_required" };
+				}
+				const cfg = input.rateLimit ?? defaults;
+				// A custom `identify` needs the record, and concurrency slots are
+				// only held for loaded keys.
+				if (!cfg || customIdentify || hasConcurrency(cfg)) return;
+				const id = requestIdentifier({ ...input, key });
+				const outcome = await enforce(namespace, id, cfg, {});
+				if ("reject" in outcome) return outcome;
+				held.set(input, { id, ...outcome });
+			},
+			// A key's own limit (stored under `metadataKey`), key or user
+			// identifiers and the key's environment are only known once the
+			// record is loaded; they replace the count taken before the lookup.
+			async onKeyRecordLoaded(_uk, { input, record }) {
+				const before = held.get(input);
+				held.delete(input);
+				if (!input.namespace) return;
+				const stored = (
+					record.metadata as Record<string, unknown> | undefined
+				)?.[metadataKey];
+				const own = isRateLimitConfig(stored) ? stored : undefined;
+				if (before && !own && identifyBy === "request" && !record.environment) {
+					held.set(input, before);
+					return before.ratelimit ? { ratelimit: before.ratelimit } : undefined;
+				}
+				const store = ctx.rateLimitStore;
+				if (before) await rollback(store, before.id, before.taken);
+
+				const cfg = own ?? input.rateLimit ?? defaults;
+				const id = recordIdentifier(input, record);
+				if (!cfg || !id) return;
+				// Test and live keys count against separate limits, and a key's own
+				// limit keeps counters apart from the per-call or default limit.
+				const namespace = withEnvironment(input.namespace, record.environment);
+				const outcome = await enforce(
+					own ? `${namespace}/key` : namespace,
+					id,
+					cfg,
+					{ environment: record.environment, keyId: record.id },
+				);
+				if ("reject" in outcome) return outcome;
+				held.set(input, { id, ...outcome });
+				const lease = outcome.taken.find((t) => t.consumed.lease)?.consumed
+					.lease;
+				if (!lease && !outcome.ratelimit) return;
+				return {
+					...(lease ? { lease } : {}),
+					...(outcome.ratelimit ? { ratelimit: outcome.ratelimit } : {}),
+				};
+			},
+			// Expired, used up or otherwise rejected keys hand back what they
+			// counted; a held concurrency slot is released by the core.
+			async onVerifyFailed(_uk, { input }) {
+				const used = held.get(input);
+				held.delete(input);
+				if (!used) return;
+				await rollback(
+					ctx.rateLimitStore,
+					used.id,
+					used.taken.filter((t) => !t.consumed.lease),
+				);
+			},
+			extend: {
+				__hasRateLimit: true as const,
+				/**
+				 * Give a key its own limit, used instead of the per-call `rateLimit`
+				 * and the plugin default. Pass `null` to remove it.
+				 */
+				async setKeyRateLimit(id: KeyId, cfg: RateLimitConfig | null) {
+					if (cfg !== null && !isRateLimitConfig(cfg)) {
+						throw extensionError(
+							"cfg must be a valid RateLimitConfig or null",
+							"INVALID_INPUT",
+							{ op: "setKeyRateLimit", keyId: id },
+						);
+					}
+					const unsupported =
+						cfg === null ? null : unsupportedLimit(ctx.rateLimitStore, cfg);
+					if (unsupported) {
+						throw extensionError(
+							unsupported,
+							ErrorCodes.RATELIMIT_CONFIG_UNSUPPORTED,
+							{ op: "setKeyRateLimit", keyId: id },
+						);
+					}
+					// Replace the stored config as a whole: merged, fields `cfg` lacks
+					// (e.g. a token bucket's `cost`) would survive.
+					const res = await ctx.updateKey(id, {
+						metadata: { [metadataKey]: cfg },
+						replaceMetadataFields: true,
+					});
+					if (res.error) {
+						throw Object.assign(new Error(res.error.message), res.error);
+					}
+					if (res.result === null) {
+						throw extensionError("key not found", "KEY_NOT_FOUND", {
+							op: "setKeyRateLimit",
+							keyId: id,
+						});
+					}
+				},
+			},
+		};
+	};
 }
@@ -0,0 +1,392 @@
+import type { UsefulKey } from "../../core/usefulkey";
+import { ErrorCodes } from "../../types/common";
+import type { UsefulKeyPlugin } from "../../types/plugins";
+import type {
+	WebhookDelivery,
+	WebhookDeliveryReport,
+	WebhookDeliveryStatus,
+	WebhookEndpoint,
+	WebhooksOptions,
+} from "../../types/webhooks";
+import { hmacSha256, uuid } from "../../utils/crypto";
+import { toError } from "../../utils/error";
+import { now } from "../../utils/time";
+import { MemoryWebhookOutbox } from "./outbox";
+
+export type {
+	WebhookDelivery,
+	WebhookDeliveryReport,
+	WebhookDeliveryStatus,
+	WebhookEndpoint,
+	WebhookOutbox,
+	WebhooksOptions,
+} from "../../types/webhooks";
+export { MemoryWebhookOutbox } from "./outbox";
+
+const DEFAULT_EVENTS = [
+	"key.created",
+	"key.revoked",
+	"ratelimit.blocked",
+	"usage.blocked",
+];
+
+/** Header carrying `t=<epoch ms>,v1=<hex HMAC-SHA256 of "<t>.<body>">`. */
+export const WEBHOOK_SIGNATURE_HEADER = "UsefulKey-Signature";
+
+/** Build the signature header value for a request body. */
+export function signWebhookPayload(
+	body: string,
+	secret: string,
+	timestamp: number = now(),
+): string {
+	return `t=${timestamp},v1=${hmacSha256(`${timestamp}.${body}`, secret)}`;
+}
+
+/**
+ * Check a signature header produced by `signWebhookPayload`. Use this in the
+ * receiving service; `toleranceMs` rejects replays of old requests.
+ */
+export function verifyWebhookSignature(
+	body: string,
+	header: string,
+	secret: string,
+	toleranceMs = 5 * 60 * 1000,
+): boolean {
+	const parts = new Map<string, string>();
+	for (const part of header.split(",")) {
+		const idx = part.indexOf("=");
+		if (idx > 0) parts.set(part.slice(0, idx).trim(), part.slice(idx + 1));
+	}
+	const timestamp = Number(parts.get("t"));
+	const signature = parts.get("v1");
+	if (!Number.isFinite(timestamp) || !signature) return false;
+	if (toleranceMs > 0 && Math.abs(now() - timestamp) > toleranceMs) {
+		return false;
+	}
+	const expected = hmacSha256(`${timestamp}.${body}`, secret);
+	if (expected.length !== signature.length) return false;
+	let diff = 0;
+	for (let i = 0; i < expected.length; i++) {
+		diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+	}
+	return diff === 0;
+}
+
+async function withTimeout<T>(p: Promise<T>, ms: number): Promise<T> {
+	if (!ms || ms <= 0) return p;
+	let timer: ReturnType<typeof setTimeout>;
+	return await Promise.race([
+		p.finally(() => clearTimeout(timer)),
+		new Promise<T>((_, reject) => {
+			timer = setTimeout(
+				() => reject(new Error(`Webhook request timed out after ${ms}ms`)),
+				ms,
+			);
+		}),
+	]);
+}
+
+function validateEndpoint(endpoint: WebhookEndpoint): void {
+	if (!endpoint?.id || !endpoint.url || !endpoint.secret) {
+		const normalized = toError(
+			{
+				code: "INVALID_INPUT",
+				message: "webhook endpoint requires id, url and secret",
+			},
+			ErrorCodes.UNKNOWN,
+			{ plugin: "webhooks", op: "addEndpoint" },
+		);
+		throw Object.assign(new Error(normalized.message), normalized);
+	}
+}
+
+/**
+ * Webhook delivery.
+ *
+ * Forwards selected events to registered endpoints as signed JSON POSTs.
+ * Each event is written to an outbox first, then sent in the background;
+ * failed attempts are retried with exponential backoff until `maxAttempts`.
+ */
+export function webhooks(options: WebhooksOptions = {}): UsefulKeyPlugin<{
+	webhooks: {
+		addEndpoint: (endpoint: WebhookEndpoint) => void;
+		removeEndpoint: (id: string) => boolean;
+		listEndpoints: () => WebhookEndpoint[];
+		deliverDue: () => Promise<WebhookDeliveryReport>;
+		listDeliveries: (
+			status?: WebhookDeliveryStatus,
+		) => Promise<WebhookDelivery[]>;
+	};
+}> {
+	const endpoints = new Map<string, WebhookEndpoint>();
+	for (const endpoint of options.endpoints ?? []) {
+		validateEndpoint(endpoint);
+		endpoints.set(endpoint.id, endpoint);
+	}
+	const events = (options.events ?? DEFAULT_EVENTS).filter(
+		// Never forward our own delivery events, which would loop.
+		(event) => !event.startsWith("webhook."),
+	);
+	const outbox = options.outbox ?? new MemoryWebhookOutbox();
+	const maxAttempts = Math.max(1, options.maxAttempts ?? 8);
+	const retryBaseMs = options.retryBaseMs ?? 1000;
+	const retryMaxMs = options.retryMaxMs ?? 60 * 60 * 1000;
+	const timeoutMs = options.timeoutMs ?? 10000;
+	const pollIntervalMs = options.pollIntervalMs ?? 5000;
+	const batchSize = Math.max(1, options.batchSize ?? 100);
+	const removeDelivered = options.removeDelivered ?? true;
+
+	let timer: ReturnType<typeof setInterval> | null = null;
+	let running: Promise<WebhookDeliveryReport> | null = null;
+	let again = false;
+	const unsubscribers: Array<() => void> = [];
+
+	function subscribed(endpoint: WebhookEndpoint, event: string): boolean {
+		return (
+			!endpoint.events ||
+			endpoint.events.includes("*") ||
+			endpoint.events.includes(event)
+		);
+	}
+
+	function retryDelay(attempts: number): number {
+		return Math.min(retryMaxMs, retryBaseMs * 2 ** (attempts - 1));
+	}
+
+	async function track(
+		ctx: UsefulKey,
+		event: "webhook.delivered" | "webhook.failed",
+		payload: Record<string, unknown>,
+	): Promise<void> {
+		try {
+			await ctx.analytics.track(event, payload);
+		} catch (err) {
+			console.error(
+				`Error tracking ${event} event`,
+				toError(err, ErrorCodes.ANALYTICS_TRACK_FAILED, { op: event }),
+			);
+		}
+	}
+
+	async function send(
+		delivery: WebhookDelivery,
+		endpoint: WebhookEndpoint,
+	): Promise<void> {
+		const body = JSON.stringify({
+			id: delivery.id,
+			event: delivery.event,
+			payload: delivery.payload,
+			createdAt: delivery.createdAt,
+		});
+		const res = await withTimeout(
+			fetch(endpoint.url, {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+					...(endpoint.headers ?? {}),
+					"UsefulKey-Event": delivery.event,
+					"UsefulKey-Delivery": delivery.id,
+					[WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(body, endpoint.secret),
+				},
+				body,
+			}),
+			timeoutMs,
+		);
+		if (!res.ok) throw new Error(`HTTP ${res.status} ${res.statusText}`);
+	}
+
+	async function attempt(
+		ctx: UsefulKey,
+		delivery: WebhookDelivery,
+	): Promise<keyof WebhookDeliveryReport> {
+		const attempts = delivery.attempts + 1;
+		const base = {
+			deliveryId: delivery.id,
+			endpointId: delivery.endpointId,
+			event: delivery.event,
+			attempts,
+		};
+		try {
+			const endpoint = endpoints.get(delivery.endpointId);
+			if (!endpoint) {
+				throw new Error(`unknown webhook endpoint ${delivery.endpointId}`);
+			}
+			await send(delivery, endpoint);
+		} catch (err) {
+			const message = err instanceof Error ? err.message : String(err);
+			const exhausted = attempts >= maxAttempts;
+			await outbox.update({
+				...delivery,
+				attempts,
+				status: exhausted ? "failed" : "pending",
+				nextAttemptAt: exhausted
+					? delivery.nextAttemptAt
+					: now() + retryDelay(attempts),
+				lastError: message,
+			});
+			if (!exhausted) return "retried";
+			await track(ctx, "webhook.failed", {
+				...base,
+				error: message,
+				ts: now(),
+			});
+			return "failed";
+		}
+		if (removeDelivered) {
+			await outbox.remove(delivery.id);
+		} else {
+			await outbox.update({
+				...delivery,
+				attempts,
+				status: "delivered",
+				lastError: null,
+			});
+		}
+		await track(ctx, "webhook.delivered", { ...base, ts: now() });
+		return "delivered";
+	}
+
+	async function deliverOnce(
+		ctx: UsefulKey,
+		report: WebhookDeliveryReport,
+	): Promise<void> {
+		const due = await outbox.findDue(now(), batchSize);
+		const outcomes = await Promise.all(
+			due.map(async (delivery) => {
+				try {
+					return await attempt(ctx, delivery);
+				} catch (err) {
+					console.error(
+						"Webhook outbox update failed",
+						toError(err, ErrorCodes.WEBHOOK_DELIVERY_FAILED, {
+							plugin: "webhooks",
+							op: "deliverDue",
+							deliveryId: delivery.id,
+						}),
+					);
+					return null;
+				}
+			}),
+		);
+		for (const outcome of outcomes) if (outcome) report[outcome]++;
+		// A full batch may have more due deliveries behind it.
+		if (due.length === batchSize) again = true;
+	}
+
+	function deliverDue(ctx: UsefulKey): Promise<WebhookDeliveryReport> {
+		if (running) {
+			again = true;
+			return running;
+		}
+		running = (async () => {
+			const report: WebhookDeliveryReport = {
+				delivered: 0,
+				retried: 0,
+				failed: 0,
+			};
+			do {
+				again = false;
+				await deliverOnce(ctx, report);
+			} while (again);
+			return report;
+		})().finally(() => {
+			running = null;
+		});
+		return running;
+	}
+
+	function deliverInBackground(ctx: UsefulKey): void {
+		void deliverDue(ctx).catch((err) => {
+			console.error(
+				"Webhook delivery failed",
+				toError(err, ErrorCodes.WEBHOOK_DELIVERY_FAILED, {
+					plugin: "webhooks",
+					op: "deliverDue",
+				}),
+			);
+		});
+	}
+
+	async function enqueue(
+		ctx: UsefulKey,
+		event: string,
+		payload: Record<string, unknown>,
+	): Promise<void> {
+		const targets = Array.from(endpoints.values()).filter((endpoint) =>
+			subscribed(endpoint, event),
+		);
+		if (targets.length === 0) return;
+		const ts = now();
+		try {
+			for (const endpoint of targets) {
+				await outbox.enqueue({
+					id: uuid(),
+					endpointId: endpoint.id,
+					event,
+					payload,
+					status: "pending",
+					attempts: 0,
+					nextAttemptAt: ts,
+					createdAt: ts,
+					lastError: null,
+				});
+			}
+		} catch (err) {
+			console.error(
+				"Webhook enqueue failed",
+				toError(err, ErrorCodes.WEBHOOK_ENQUEUE_FAILED, {
+					plugin: "webhooks",
+					op: event,
+				}),
+			);
+		}
+		deliverInBackground(ctx);
+	}
+
+	return (ctx) => {
+		for (const event of events) {
+			unsubscribers.push(
+				ctx.on(event, (payload) => enqueue(ctx, event, payload)),
+			);
+		}
+
+		return {
+			name: "webhooks",
+			async setup() {
+				if (pollIntervalMs > 0 && !timer) {
+					timer = setInterval(() => deliverInBackground(ctx), pollIntervalMs);
+					// Do not keep process alive solely due to timer
+					if (typeof timer.unref === "function") timer.unref();
+				}
+			},
+			async teardown() {
+				if (timer) {
+					clearInterval(timer);
+					timer = null;
+				}
+				for (const unsubscribe of unsubscribers.splice(0)) unsubscribe();
+				if (running) await running.catch(() => {});
+			},
+			extend: {
+				webhooks: {
+					addEndpoint(endpoint: WebhookEndpoint) {
+						validateEndpoint(endpoint);
+						endpoints.set(endpoint.id, endpoint);
+					},
+					removeEndpoint(id: string) {
+						return endpoints.delete(id);
+					},
+					listEndpoints() {
+						return Array.from(endpoints.values());
+					},
+					deliverDue() {
+						return deliverDue(ctx);
+					},
+					listDeliveries(status?: WebhookDeliveryStatus) {
+						return outbox.list(status);
+					},
+				},
+			},
+		};
+	};
+}
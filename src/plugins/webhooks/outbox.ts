@@ -0,0 +1,41 @@
+import type {
+	WebhookDelivery,
+	WebhookDeliveryStatus,
+	WebhookOutbox,
+} from "../../types/webhooks";
+
+/**
+ * In-memory webhook outbox.
+ *
+ * Deliveries are lost when the process exits; implement `WebhookOutbox` on a
+ * database to keep pending retries across restarts.
+ */
+export class MemoryWebhookOutbox implements WebhookOutbox {
+	private readonly deliveries = new Map<string, WebhookDelivery>();
+
+	async enqueue(delivery: WebhookDelivery): Promise<void> {
+		this.deliveries.set(delivery.id, { ...delivery });
+	}
+
+	async findDue(now: number, limit: number): Promise<WebhookDelivery[]> {
+		const due = Array.from(this.deliveries.values(), (d) => ({ ...d })).filter(
+			(d) => d.status === "pending" && d.nextAttemptAt <= now,
+		);
+		due.sort((a, b) => a.nextAttemptAt - b.nextAttemptAt);
+		return due.slice(0, limit);
+	}
+
+	async update(delivery: WebhookDelivery): Promise<void> {
+		if (!this.deliveries.has(delivery.id)) return;
+		this.deliveries.set(delivery.id, { ...delivery });
+	}
+
+	async list(status?: WebhookDeliveryStatus): Promise<WebhookDelivery[]> {
+		const all = Array.from(this.deliveries.values(), (d) => ({ ...d }));
+		return status ? all.filter((d) => d.status === status) : all;
+	}
+
+	async remove(id: string): Promise<void> {
+		this.deliveries.delete(id);
+	}
+}
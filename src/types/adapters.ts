@@ -3,6 +3,13 @@
 /** Generic async command signature used by Redis‑like clients. */
 export type RedisCommand = (...args: unknown[]) => Promise<unknown>;
 
+/** Commands a Redis-like client may offer for listing keys. */
+export type RedisScanClient = {
+	/** node-redis `scan(cursor, { MATCH, COUNT })` or ioredis `scan(cursor, "MATCH", …)`. */
+	scan?: RedisCommand;
+	keys?: RedisCommand;
+};
+
 /**
  * Minimal SQLite client shape used by adapters. Any client that exposes a
  * compatible `prepare().run()/get()/all()` API can be used (e.g., `better-sqlite3`,
@@ -11,12 +11,26 @@
 /** A number representing time in milliseconds (for durations and timestamps). */
 export type Milliseconds = number;
 
-import type { RateLimitRequest } from "./ratelimit";
+import type {
+	RateLimitConfig,
+	RateLimitLease,
+	RateLimitRefund,
+	RateLimitState,
+} from "./ratelimit";
 
 /** A unique identifier for an API key. */
 export type KeyId = string;
 /** A unique identifier for a user who owns or uses API keys. */
 export type UserId = string;
+/** A unique identifier for a tenant (workspace, organisation) that owns keys. */
+export type TenantId = string;
+
+/**
+ * Whether a key is a sandbox (`"test"`) or production (`"live"`) key. The
+ * environment is part of the rendered key (`uk_test_...`), and test keys get
+ * their own rate-limit counters.
+ */
+export type KeyEnvironment = "test" | "live";
 
 /**
  * Defines how API keys should be generated and formatted.
@@ -26,6 +40,8 @@ export type UserId = string;
  * - urlsafe: Safe for use in URLs (letters, numbers, hyphens, underscores)
  * - hex: Hexadecimal format (0-9, A-F)
  * - base32: Base32 format (A-Z, 2-7)
+ * - checksummed: Base62 body followed by a 6-character CRC32 checksum, so
+ *   malformed keys can be rejected without a storage lookup
  *
  * You can optionally specify a length and/or prefix for customization.
  */
@@ -33,7 +49,8 @@ export type KeyKind =
 	| { type: "uuid"; prefix?: string }
 	| { type: "urlsafe"; length?: number; prefix?: string }
 	| { type: "hex"; length?: number; prefix?: string }
-	| { type: "base32"; length?: number; prefix?: string };
+	| { type: "base32"; length?: number; prefix?: string }
+	| { type: "checksummed"; length?: number; prefix?: string };
 
 /**
  * The stored information about an API key.
@@ -60,6 +77,14 @@ export interface KeyRecord {
 	usesRemaining?: number | null;
 	/** When this key was disabled/revoked (optional). */
 	revokedAt?: number | null;
+	/** Id of the secret from `secrets` this key was hashed with (optional). */
+	secretId?: string | null;
+	/** Redacted, non-secret reminder of the key such as `uk_…x9Qa` (optional). */
+	hint?: string | null;
+	/** Tenant (workspace, organisation) this key belongs to (optional). */
+	tenantId?: TenantId | null;
+	/** Environment of the key (optional; keys without one count as `"live"`). */
+	environment?: KeyEnvironment | null;
 }
 
 /**
@@ -75,12 +100,16 @@ export interface VerifyOptions {
 	ip?: string;
 	/** A unique identifier for this request (like user ID or session ID). */
 	identifier?: string | null;
+	/** Only accept keys of this tenant; keys of other tenants are `not_found`. */
+	tenantId?: TenantId;
+	/** Only accept keys of this environment; others fail with `environment_mismatch`. */
+	environment?: KeyEnvironment;
 	/** Group name for rate limiting (lets you have separate limits for different parts of your app). */
 	namespace?: string | null;
 	/** What permissions this key needs to have. */
 	scopes?: string | string[];
-	/** Custom rate limit rules for this specific check. */
-	rateLimit?: RateLimitRequest;
+	/** Custom rate limit rules for this specific check, or a stack of named limits. */
+	rateLimit?: RateLimitConfig;
 }
 
 /** The result of checking if an API key is valid. */
@@ -93,8 +122,27 @@ export interface VerifyResult {
 	keyId?: KeyId;
 	/** The user who owns this key (only included if valid and set on the key). */
 	userId?: UserId;
+	/** The tenant of this key (only included if valid and set on the key). */
+	tenantId?: TenantId;
+	/** The environment of this key (only included if valid and set on the key). */
+	environment?: KeyEnvironment;
 	/** Any extra information stored with the key (only included if requested). */
 	metadata?: Record<string, unknown>;
+	/** True when the key has been rotated and is only valid during its grace period. */
+	rotated?: boolean;
+	/** The id of the key that replaces this one (only included when rotated). */
+	replacedBy?: KeyId;
+	/** When the grace period ends and the key is revoked (only included when rotated). */
+	graceEndsAt?: number;
+	/**
+	 * The concurrency slot this request holds (only included if valid and a
+	 * `kind: "concurrency"` limit applied). Free it with `uk.release(lease)`.
+	 */
+	lease?: RateLimitLease;
+	/** Rate limit usage for this request (when the rate limit plugin applied a limit). */
+	ratelimit?: RateLimitState;
+	/** What went wrong when a fail-closed plugin hook threw (reason "plugin_error"). */
+	error?: UsefulKeyError;
 }
 
 /**
@@ -134,11 +182,22 @@ export const ErrorCodes = {
 	KEYSTORE_WRITE_FAILED: "KEYSTORE_WRITE_FAILED",
 	KEYSTORE_REVOKE_FAILED: "KEYSTORE_REVOKE_FAILED",
 	KEYSTORE_SWEEP_UNSUPPORTED: "KEYSTORE_SWEEP_UNSUPPORTED",
+	KEYSTORE_LIST_UNSUPPORTED: "KEYSTORE_LIST_UNSUPPORTED",
+	KEYSTORE_FIND_UNSUPPORTED: "KEYSTORE_FIND_UNSUPPORTED",
 	ANALYTICS_TRACK_FAILED: "ANALYTICS_TRACK_FAILED",
 	KEY_GENERATION_FAILED: "KEY_GENERATION_FAILED",
 	EXTEND_KEY_EXPIRY_FAILED: "EXTEND_KEY_EXPIRY_FAILED",
 	PLUGIN_BLOCKED: "PLUGIN_BLOCKED",
 	PLUGIN_SETUP_FAILED: "PLUGIN_SETUP_FAILED",
+	PLUGIN_HOOK_FAILED: "PLUGIN_HOOK_FAILED",
+	INSTANCE_CLOSED: "INSTANCE_CLOSED",
+	WEBHOOK_ENQUEUE_FAILED: "WEBHOOK_ENQUEUE_FAILED",
+	WEBHOOK_DELIVERY_FAILED: "WEBHOOK_DELIVERY_FAILED",
+	INVALIDATION_PUBLISH_FAILED: "INVALIDATION_PUBLISH_FAILED",
+	RATELIMIT_LEASES_UNSUPPORTED: "RATELIMIT_LEASES_UNSUPPORTED",
+	RATELIMIT_CONFIG_UNSUPPORTED: "RATELIMIT_CONFIG_UNSUPPORTED",
+	RATELIMIT_RELEASE_FAILED: "RATELIMIT_RELEASE_FAILED",
+	RATELIMIT_REFUND_FAILED: "RATELIMIT_REFUND_FAILED",
 } as const;
 
 /** All possible error codes from the core library. */
@@ -155,6 +214,8 @@ export interface CreateKeyInput {
 	id?: KeyId;
 	/** Which user should own this key. */
 	userId?: UserId | null;
+	/** Which tenant the key belongs to. Set automatically by `uk.forTenant(id)`. */
+	tenantId?: TenantId | null;
 	/** Custom prefix for the key (like "sk-" or "pk-"). */
 	prefix?: string;
 	/** When the key should expire (timestamp in milliseconds). */
@@ -165,6 +226,8 @@ export interface CreateKeyInput {
 	usesRemaining?: number | null;
 	/** What format the key should use. */
 	keyKind?: KeyKind;
+	/** Make this a `"test"` or `"live"` key; the environment is added to the prefix. */
+	environment?: KeyEnvironment;
 }
 
 /** Information returned when a key is successfully created. */
@@ -175,6 +238,102 @@ export interface CreateKeyResult {
 	metadata?: Record<string, unknown>;
 }
 
+/** Options for listing the keys that belong to a user. */
+export interface ListKeysInput {
+	/** Which user's keys to list. */
+	userId: UserId;
+	/** Only list keys of this tenant. */
+	tenantId?: TenantId;
+	/** Cursor returned by the previous page (omit to start from the beginning). */
+	cursor?: string | null;
+	/** Maximum number of keys to return in this page. */
+	limit: number;
+}
+
+/** A single page of keys, plus a cursor for fetching the next page. */
+export interface ListKeysResult {
+	/** The keys in this page, ordered by id. */
+	items: KeyRecord[];
+	/** Pass this back as `cursor` to get the next page (null when there are no more keys). */
+	nextCursor: string | null;
+}
+
+/**
+ * How to match a single metadata field when searching for keys.
+ *
+ * - A plain value matches when the field equals it exactly.
+ * - `{ contains: value }` matches when the field is an array that includes the value.
+ */
+export type MetadataFilterValue =
+	| string
+	| number
+	| boolean
+	| null
+	| { contains: string | number | boolean };
+
+/** Filters for searching keys by their metadata and state. */
+export interface FindKeysInput {
+	/** Top-level metadata fields that must all match (like `{ plan: "pro" }`). */
+	metadata?: Record<string, MetadataFilterValue>;
+	/** Only keys of this tenant. */
+	tenantId?: TenantId;
+	/** Only revoked keys (true), only non-revoked keys (false), or both (omitted). */
+	revoked?: boolean;
+	/** Only expired keys (true), only non-expired keys (false), or both (omitted). */
+	expired?: boolean;
+	/** Cursor returned by the previous page (omit to start from the beginning). */
+	cursor?: string | null;
+	/** Maximum number of keys to return in this page. */
+	limit?: number;
+}
+
+/** The query a keystore receives for `findKeys`, with paging and time resolved. */
+export interface FindKeysQuery extends FindKeysInput {
+	/** Maximum number of keys to return in this page. */
+	limit: number;
+	/** The timestamp used to decide whether a key is expired. */
+	now: number;
+}
+
+/** Options for rotating a key. */
+export interface RotateKeyOptions {
+	/**
+	 * How long the old key keeps working after rotation (like "24h", or
+	 * milliseconds). Default: 0, which revokes the old key immediately.
+	 */
+	gracePeriod?: string | number;
+}
+
+/** Information returned when a key is successfully rotated. */
+export interface RotateKeyResult extends CreateKeyResult {
+	/** The id of the key that was rotated out. */
+	previousId: KeyId;
+	/** When the old key stops working (timestamp in milliseconds). */
+	graceEndsAt: number;
+}
+
+/**
+ * Changes to apply to a key with `updateKey`. Omitted fields are left as they are.
+ *
+ * `metadata` is deep-merged into the stored metadata: nested objects are merged,
+ * other values (including arrays) replace what is stored, and `null` removes a field.
+ */
+export interface UpdateKeyPatch {
+	/** Metadata fields to merge into the stored metadata. */
+	metadata?: Record<string, unknown>;
+	/**
+	 * Replace each top-level field given in `metadata` instead of deep-merging
+	 * into it. Fields not in `metadata` are kept either way.
+	 */
+	replaceMetadataFields?: boolean;
+	/** New owner of the key (null removes the owner). */
+	userId?: UserId | null;
+	/** New expiry timestamp in milliseconds (null means the key never expires). */
+	expiresAt?: number | null;
+	/** New number of uses left (null means unlimited). */
+	usesRemaining?: number | null;
+}
+
 /**
  * Interface for storing and retrieving API key data.
  *
@@ -186,10 +345,20 @@ export interface KeyStoreAdapter {
 	readonly ready?: Promise<void>;
 	/** Save a new API key to storage. */
 	createKey(record: KeyRecord): Promise<void>;
+	/**
+	 * Save several new keys in one round trip (optional, used by `createKeys`).
+	 * Should store all records or none; a thrown error fails the whole batch.
+	 */
+	createKeys?(records: KeyRecord[]): Promise<void>;
 	/** Find a key by its unique ID. */
 	findKeyById(id: KeyId): Promise<KeyRecord | null>;
 	/** Find a key by its secure hash (used for verification). */
 	findKeyByHash(keyHash: string): Promise<KeyRecord | null>;
+	/**
+	 * Find the keys matching any of the given hashes in one round trip
+	 * (optional, used by `verifyKeys`). Unknown hashes are simply omitted.
+	 */
+	findKeysByHashes?(keyHashes: string[]): Promise<KeyRecord[]>;
 	/** Update an existing key's information. */
 	updateKey(record: KeyRecord): Promise<void>;
 	/** Disable a key so it can no longer be used. */
@@ -198,6 +367,45 @@ export interface KeyStoreAdapter {
 	hardRemoveKeyById(id: KeyId): Promise<void>;
 	/** Find keys that have expired (optional, for cleanup tasks). */
 	findExpiredIds?(olderThan: number, limit: number): Promise<KeyId[]>;
+	/** List a user's keys one page at a time (optional, for admin screens). */
+	listKeys?(input: ListKeysInput): Promise<ListKeysResult>;
+	/** Search keys by metadata and state, one page at a time (optional). */
+	findKeys?(query: FindKeysQuery): Promise<ListKeysResult>;
+	/** Write out anything buffered (optional, called by `uk.flush()`). */
+	flush?(): Promise<void>;
+	/** Stop timers and release resources (optional, called by `uk.close()`). */
+	close?(): Promise<void>;
+}
+
+/**
+ * Interface for broadcasting key invalidations between processes.
+ *
+ * Each process caching key records subscribes to the bus; when one of them
+ * writes a key, the others drop their cached copy.
+ */
+export interface InvalidationBus {
+	/** Promise that resolves when the bus is connected. */
+	readonly ready?: Promise<void>;
+	/** Tell every subscriber that these keys changed. */
+	publish(keyIds: KeyId[]): Promise<void>;
+	/** Receive invalidations; resolves to a function that stops receiving them. */
+	subscribe(handler: (keyIds: KeyId[]) => void): Promise<() => Promise<void>>;
+	/** Stop listening and release connections (optional, called by `uk.close()`). */
+	close?(): Promise<void>;
+}
+
+/** Settings for the verification cache (`CachedKeyStore` or the `cache` config option). */
+export interface KeyCacheOptions {
+	/** Maximum number of cached hashes. Default: 10000 */
+	maxSize?: number;
+	/** How long a found record is cached. Default: 30 seconds */
+	ttl?: string | number;
+	/** How long an unknown hash is cached. 0 disables negative caching. Default: 5 seconds */
+	negativeTtl?: string | number;
+	/** Called for every hash lookup, e.g. to count hits and misses. */
+	onLookup?: (lookup: { hit: boolean; negative: boolean }) => void;
+	/** Share invalidations with the caches of other processes. */
+	bus?: InvalidationBus;
 }
 
 /**
@@ -223,6 +431,17 @@ export interface RateLimitStoreAdapter {
 		limit: number,
 		durationMs: Milliseconds,
 	): Promise<{ success: boolean; remaining: number; reset: number }>;
+	/**
+	 * Count a request against a sliding window: the current window's count plus
+	 * the previous window's, weighted by how much of it still overlaps
+	 * (optional; required for `kind: "slidingWindow"` limits).
+	 */
+	consumeSlidingWindow?(
+		namespace: string,
+		identifier: string,
+		limit: number,
+		durationMs: Milliseconds,
+	): Promise<{ success: boolean; remaining: number; reset: number }>;
 	/** Use tokens from a bucket (refills over time). */
 	consumeTokenBucket(
 		namespace: string,
@@ -232,8 +451,52 @@ export interface RateLimitStoreAdapter {
 		refillIntervalMs: Milliseconds,
 		cost?: number,
 	): Promise<{ success: boolean; remaining: number; reset: number }>;
+	/**
+	 * Count a request with the generic cell rate algorithm (optional; required
+	 * for `kind: "gcra"` limits). Stores one theoretical arrival time per
+	 * identifier; when blocked, `reset` is the exact time to retry.
+	 */
+	consumeGcra?(
+		namespace: string,
+		identifier: string,
+		rate: number,
+		periodMs: Milliseconds,
+		burst: number,
+	): Promise<{ success: boolean; remaining: number; reset: number }>;
+	/**
+	 * Take one of `limit` concurrent slots as lease `leaseId`, expiring after
+	 * `ttlMs` (optional; required for `kind: "concurrency"` limits). When no
+	 * slot is free, `reset` is when the oldest lease expires.
+	 */
+	acquireLease?(
+		namespace: string,
+		identifier: string,
+		leaseId: string,
+		limit: number,
+		ttlMs: Milliseconds,
+	): Promise<{ success: boolean; remaining: number; reset: number }>;
+	/** Free a lease taken with `acquireLease`. Unknown or expired leases are ignored. */
+	releaseLease?(
+		namespace: string,
+		identifier: string,
+		leaseId: string,
+	): Promise<void>;
+	/**
+	 * Give back one request's worth of a limit that was consumed (optional;
+	 * required for stacks of more than one limit). Used to undo the limits that
+	 * passed when a later limit in the stack rejects the request.
+	 */
+	refund?(
+		namespace: string,
+		identifier: string,
+		refund: RateLimitRefund,
+	): Promise<void>;
 	/** Reset all counters for this identifier to start fresh. */
 	reset(namespace: string, identifier: string): Promise<void>;
+	/** Write out anything buffered (optional, called by `uk.flush()`). */
+	flush?(): Promise<void>;
+	/** Stop timers and release resources (optional, called by `uk.close()`). */
+	close?(): Promise<void>;
 }
 
 /** Interface for sending usage data to analytics systems. */
@@ -242,12 +505,24 @@ export interface AnalyticsAdapter {
 	readonly ready?: Promise<void>;
 	/** Record an event with any additional data you want to track. */
 	track(event: string, payload: Record<string, unknown>): Promise<void>;
+	/** Write out anything buffered (optional, called by `uk.flush()`). */
+	flush?(): Promise<void>;
+	/** Stop timers and release resources (optional, called by `uk.close()`). */
+	close?(): Promise<void>;
 }
 
 /** Re-export rate limit types from the ratelimit module. */
 export type {
+	NamedRateLimit,
+	RateLimitConcurrency,
+	RateLimitConfig,
 	RateLimitFixedWindow,
+	RateLimitGcra,
+	RateLimitLease,
+	RateLimitRefund,
 	RateLimitRequest,
+	RateLimitSlidingWindow,
+	RateLimitState,
 	RateLimitTokenBucket,
 } from "./ratelimit";
 
@@ -317,6 +592,14 @@ export interface UsefulKeyConfig {
 		rateLimitStore?: RateLimitStoreAdapter;
 		analytics?: AnalyticsAdapter;
 	};
+	/**
+	 * Cache key lookups in front of the keystore (default: off).
+	 *
+	 * Pass `true` for the defaults or options for the LRU. Entries are dropped
+	 * when keys are revoked, removed or updated through this instance, and
+	 * hits/misses are tracked as `key_cache.hit` / `key_cache.miss` events.
+	 */
+	cache?: boolean | Omit<KeyCacheOptions, "onLookup">;
 	/** Automatically delete expired keys when they're accessed (default: false). */
 	autoDeleteExpiredKeys?: boolean;
 	/** Custom encryption/hashing functions for your environment. */
@@ -330,10 +613,42 @@ export interface UsefulKeyConfig {
 	 * to guess even if your database is compromised. This secret is never stored.
 	 */
 	secret?: string | Uint8Array;
+	/**
+	 * Ordered list of named secrets for hashing keys, newest first.
+	 *
+	 * New keys are hashed with the first secret and record its id. Verification
+	 * tries each secret in turn (then `secret`, if set), and keys that matched an
+	 * older secret are rehashed with the current one. Drop a secret from the
+	 * list once no keys use it anymore.
+	 */
+	secrets?: KeySecret[];
 	/** Custom function to generate your own key format. */
 	customGenerateKey?: () => string;
 	/** Custom function to generate unique IDs for keys. */
 	customIdGenerator?: () => string;
+	/**
+	 * What to do when a plugin hook throws (default: "fail-open").
+	 *
+	 * Plugins can override this for their own hooks with `onHookError`.
+	 */
+	onHookError?: HookErrorPolicy;
+}
+
+/**
+ * How to handle an error thrown by a plugin hook.
+ *
+ * - fail-open: log the error and carry on as if the hook had passed
+ * - fail-closed: log the error and stop the operation; `verifyKey` returns
+ *   `valid: false` with reason "plugin_error"
+ */
+export type HookErrorPolicy = "fail-open" | "fail-closed";
+
+/** A named secret used to hash keys; the id is stored on each key record. */
+export interface KeySecret {
+	/** Stable identifier recorded on keys hashed with this secret. */
+	id: string;
+	/** The secret value. Never stored. */
+	value: string | Uint8Array;
 }
 
 /** Settings for controlling which IP addresses can use API keys. */
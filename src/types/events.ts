@@ -0,0 +1,176 @@
+/**
+ * Event types for `uk.on()` / `uk.off()`.
+ *
+ * Every event sent to the analytics adapter is also delivered to subscribed
+ * handlers. This map lists the payloads of the core events and of the events
+ * emitted by the built-in plugins.
+ */
+import type { KeyEnvironment, KeyId, UserId } from "./common";
+
+/** Payloads of the events emitted by the core and the built-in plugins. */
+export interface UsefulKeyEventMap {
+	// Core
+	"key.created": {
+		keyId: KeyId;
+		userId?: UserId | null;
+		/** Set for keys created with an environment. */
+		environment?: KeyEnvironment;
+		ts: number;
+	};
+	"key.verified": {
+		keyId: KeyId;
+		userId?: UserId | null;
+		identifier: string | null;
+		/** Set for keys created with an environment. */
+		environment?: KeyEnvironment;
+		ts: number;
+	};
+	"key.updated": {
+		keyId: KeyId;
+		userId: UserId | null;
+		/** Names of the fields that were patched. */
+		fields: string[];
+		ts: number;
+	};
+	"key.rotated": {
+		keyId: KeyId;
+		newKeyId: KeyId;
+		userId?: UserId | null;
+		graceEndsAt: number;
+		ts: number;
+	};
+	"key.revoked": { keyId: KeyId; ts: number };
+	"key.hard_removed": { keyId: KeyId; ts: number };
+	"key.expiry_extended": {
+		keyId: KeyId;
+		from: number | null;
+		to: number;
+		deltaMs: number;
+		ts: number;
+	};
+	"keys.expired_swept": {
+		processed: number;
+		revoked: number;
+		hardRemoved: number;
+		olderThan: number;
+		ts: number;
+	};
+	"key_cache.hit": { negative: boolean; ts: number };
+	"key_cache.miss": { ts: number };
+
+	// Rate limit plugin
+	"ratelimit.blocked": {
+		kind: string;
+		/** Includes the `:test`/`:live` suffix for keys with an environment. */
+		namespace: string;
+		/** Name of the stacked limit that blocked the request, when it has one. */
+		name?: string;
+		environment?: KeyEnvironment;
+		keyId?: KeyId;
+		identifier: string;
+		reset: number;
+		limit?: number;
+		capacity?: number;
+		remaining: number;
+		ts: number;
+	};
+
+	// Usage limits per key plugin
+	"usage.blocked": {
+		keyId: KeyId;
+		userId?: UserId | null;
+		remaining: 0;
+		ts: number;
+	};
+	"usage.decremented": {
+		keyId: KeyId;
+		userId?: UserId | null;
+		remaining: number | null | undefined;
+		ts: number;
+	};
+	"usage.set": {
+		keyId: KeyId;
+		userId?: UserId | null;
+		remaining: number | null;
+		ts: number;
+	};
+	"usage.topped_up": {
+		keyId: KeyId;
+		userId?: UserId | null;
+		added: number;
+		remaining: number;
+		ts: number;
+	};
+	"usage.cleared": { keyId: KeyId; userId?: UserId | null; ts: number };
+
+	// Permissions / scopes plugin
+	"scopes.blocked": {
+		keyId: KeyId;
+		userId?: UserId | null;
+		required: string[];
+		have: string[];
+		ts: number;
+	};
+	"scopes.granted": {
+		keyId: KeyId;
+		added: string[];
+		result: string[];
+		ts: number;
+	};
+	"scopes.revoked": {
+		keyId: KeyId;
+		removed: string[];
+		result: string[];
+		ts: number;
+	};
+	"scopes.set": { keyId: KeyId; result: string[]; ts: number };
+
+	// Enable / disable plugin
+	"key.disabled": { keyId: KeyId; ts: number };
+	"key.enabled": { keyId: KeyId; ts: number };
+
+	// IP access control plugins
+	"ip_access.blocked": {
+		ip: string;
+		rule: "deny" | "allow_list_missing";
+		plugin: string;
+		ts: number;
+	};
+	"ip_access.allowed": {
+		ip: string;
+		rule: "allow" | "no_rule";
+		plugin: string;
+		ts: number;
+	};
+	"ip_access.allow_added": { ip: string; plugin: string; ts: number };
+	"ip_access.allow_removed": { ip: string; plugin: string; ts: number };
+	"ip_access.allow_cleared": { plugin: string; ts: number };
+	"ip_access.deny_added": { ip: string; plugin: string; ts: number };
+	"ip_access.deny_removed": { ip: string; plugin: string; ts: number };
+	"ip_access.deny_cleared": { plugin: string; ts: number };
+
+	// Webhooks plugin
+	"webhook.delivered": {
+		deliveryId: string;
+		endpointId: string;
+		event: string;
+		attempts: number;
+		ts: number;
+	};
+	"webhook.failed": {
+		deliveryId: string;
+		endpointId: string;
+		event: string;
+		attempts: number;
+		error: string;
+		ts: number;
+	};
+}
+
+/** Name of an event with a known payload. */
+export type UsefulKeyEventName = keyof UsefulKeyEventMap;
+
+/** A subscriber for one event. Errors are logged and never reach the caller. */
+export type UsefulKeyEventHandler<E extends UsefulKeyEventName> = (
+	payload: UsefulKeyEventMap[E],
+) => void | Promise<void>;
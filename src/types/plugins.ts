@@ -1,6 +1,18 @@
 import type { UsefulKey } from "../core/usefulkey";
-import type { CreateKeyInput, KeyRecord, VerifyOptions } from "./common";
-import type { RateLimitRequest } from "./ratelimit";
+import type {
+	CreateKeyInput,
+	HookErrorPolicy,
+	KeyEnvironment,
+	KeyId,
+	KeyRecord,
+	UpdateKeyPatch,
+	VerifyOptions,
+} from "./common";
+import type {
+	RateLimitConfig,
+	RateLimitLease,
+	RateLimitState,
+} from "./ratelimit";
 
 /**
  * Plugin system types for UsefulKey.
@@ -13,26 +25,62 @@ import type { RateLimitRequest } from "./ratelimit";
 export interface UsefulKeyPluginHooks {
 	/** A short name for this plugin. */
 	name: string;
+	/** What to do when one of this plugin's hooks throws (overrides the instance setting). */
+	onHookError?: HookErrorPolicy;
 	/** Called when the plugin is first loaded. */
 	setup?: (ctx: UsefulKey) => void | Promise<void>;
+	/** Called by `uk.close()` to release timers, queues or connections. */
+	teardown?: (ctx: UsefulKey) => void | Promise<void>;
 
-	/** Called before checking if a key is valid. Can block the request. */
+	/**
+	 * Called before checking if a key is valid. Can block the request; a
+	 * `ratelimit` state is passed through to the rejected result.
+	 */
 	beforeVerify?: (
 		ctx: UsefulKey,
 		args: {
+			/** The verification input, the same object later hooks receive. */
+			input: VerifyOptions;
 			key: string;
+			/**
+			 * Environment encoded after the configured prefix, or `null` when it
+			 * has none. Read from the unverified input: use the loaded record's
+			 * `environment` for anything an attacker should not pick.
+			 */
+			environment?: KeyEnvironment | null;
 			ip?: string;
 			identifier?: string | null;
 			namespace?: string | null;
-			rateLimit?: RateLimitRequest;
+			rateLimit?: RateLimitConfig;
 		},
-	) => Promise<{ reject: boolean; reason?: string } | undefined>;
+	) => Promise<
+		{ reject: boolean; reason?: string; ratelimit?: RateLimitState } | undefined
+	>;
 
-	/** Called after loading a key from storage. Can still block the request. */
+	/**
+	 * Called after loading a key from storage. Can still block the request, or
+	 * hand back a concurrency lease that is returned with a valid result (and
+	 * released if verification fails afterwards). A `ratelimit` state is
+	 * passed through to the result either way.
+	 */
 	onKeyRecordLoaded?: (
 		ctx: UsefulKey,
 		args: { input: VerifyOptions; record: KeyRecord },
-	) => Promise<{ reject: boolean; reason?: string } | undefined>;
+	) => Promise<
+		| { reject: boolean; reason?: string; ratelimit?: RateLimitState }
+		| { lease?: RateLimitLease; ratelimit?: RateLimitState }
+		| undefined
+	>;
+
+	/**
+	 * Called when a loaded key fails verification after `onKeyRecordLoaded`
+	 * ran: it expired, ran out of uses or a plugin rejected it. Good for
+	 * handing back anything taken in `onKeyRecordLoaded`.
+	 */
+	onVerifyFailed?: (
+		ctx: UsefulKey,
+		args: { input: VerifyOptions; record: KeyRecord; reason?: string },
+	) => Promise<void>;
 
 	/** Called when a key verification succeeds (good for logging/analytics). */
 	onVerifySuccess?: (
@@ -49,6 +97,42 @@ export interface UsefulKeyPluginHooks {
 	/** Called after a key is successfully created. */
 	onKeyCreated?: (ctx: UsefulKey, args: { record: KeyRecord }) => Promise<void>;
 
+	/** Called before `updateKey` applies a patch. Can prevent the update. */
+	beforeUpdateKey?: (
+		ctx: UsefulKey,
+		args: { record: KeyRecord; patch: UpdateKeyPatch },
+	) => Promise<{ reject: boolean; reason?: string } | undefined>;
+
+	/** Called after `updateKey` stores the patched record. */
+	onKeyUpdated?: (
+		ctx: UsefulKey,
+		args: { previous: KeyRecord; record: KeyRecord; patch: UpdateKeyPatch },
+	) => Promise<void>;
+
+	/** Called before `revokeKey`. Can prevent the revocation (e.g. protected keys). */
+	beforeRevokeKey?: (
+		ctx: UsefulKey,
+		args: { id: KeyId },
+	) => Promise<{ reject: boolean; reason?: string } | undefined>;
+
+	/** Called after a key is revoked, including revocations at the end of a rotation grace period. */
+	onKeyRevoked?: (ctx: UsefulKey, args: { id: KeyId }) => Promise<void>;
+
+	/** Called before `hardRemoveKey` and before each key removed by `sweepExpired`. Can prevent the removal. */
+	beforeHardRemove?: (
+		ctx: UsefulKey,
+		args: { id: KeyId },
+	) => Promise<{ reject: boolean; reason?: string } | undefined>;
+
+	/** Called after a key is permanently deleted, including automatic deletion of expired keys. */
+	onKeyHardRemoved?: (ctx: UsefulKey, args: { id: KeyId }) => Promise<void>;
+
+	/** Called after `extendKeyExpiry` stores the new expiry. */
+	onKeyExpiryExtended?: (
+		ctx: UsefulKey,
+		args: { record: KeyRecord; from: number | null },
+	) => Promise<void>;
+
 	/** Extra methods or properties this plugin adds to the main library. */
 	extend?: PluginExtensions;
 }
@@ -86,14 +170,30 @@ export type InferPluginExtensions<
 		>;
 
 /** Settings for the rate limiting plugin (prevents abuse by limiting how often keys can be used). */
-export type RatelimitArgs =
+export type RatelimitArgs = (
 	| { limit: number; duration: string | number }
 	| {
-			default?: RateLimitRequest;
-			identify?: (i: VerifyOptions) => string | null;
+			default?: RateLimitConfig;
+			/**
+			 * Who a request counts against. Runs after the key record is loaded;
+			 * an identifier equal to the plaintext key is hashed before use.
+			 */
+			identify?: (i: VerifyOptions, record: KeyRecord) => string | null;
 			reason?: string;
 			analyticsKind?: string;
-	  };
+	  }
+) & {
+	/** Set to "fail-closed" to reject requests when the rate limit store is unavailable. */
+	onHookError?: HookErrorPolicy;
+	/** Metadata field holding a key's own `RateLimitConfig` (default: "rateLimit"). */
+	metadataKey?: string;
+	/**
+	 * Default identifier when `identify` is not set: "request" uses
+	 * `identifier ?? ip ?? keyId`, "keyId" the key record's id and "userId" its
+	 * owner (falling back to the key id). Default: "request".
+	 */
+	identifyBy?: "request" | "keyId" | "userId";
+};
 
 /** Settings for the permissions plugin (controls what each API key is allowed to do). */
 export type PermissionsScopesArgs = {
@@ -13,6 +13,18 @@ export type RateLimitFixedWindow = {
 	duration: string | number;
 };
 
+/**
+ * Rate limiting over a window that moves with time (like "100 requests in any
+ * hour"), so bursts at a window boundary cannot double the limit.
+ */
+export type RateLimitSlidingWindow = {
+	kind: "slidingWindow";
+	/** Maximum number of requests allowed in any window. */
+	limit: number;
+	/** How long the window is (like "1h" for 1 hour, or 3600000 for milliseconds). */
+	duration: string | number;
+};
+
 /** Rate limiting using a "token bucket" - allows bursts but smooths out usage over time. */
 export type RateLimitTokenBucket = {
 	kind: "tokenBucket";
@@ -24,5 +36,97 @@ export type RateLimitTokenBucket = {
 	cost?: number;
 };
 
-/** Either a fixed window or token bucket rate limiting configuration. */
-export type RateLimitRequest = RateLimitFixedWindow | RateLimitTokenBucket;
+/**
+ * Rate limiting with the generic cell rate algorithm: requests are spaced
+ * evenly at `rate` per `period`, with up to `burst` allowed back to back.
+ * Stores a single timestamp per identifier and gives exact retry times.
+ */
+export type RateLimitGcra = {
+	kind: "gcra";
+	/** How many requests are allowed per `period` on average. */
+	rate: number;
+	/** The period `rate` applies to (like "1s", or 1000 for milliseconds). */
+	period: string | number;
+	/** How many requests may arrive at once (at least 1). */
+	burst: number;
+};
+
+/**
+ * Limit how many requests may be in flight at once. A successful verification
+ * holds a slot (a lease) until it is released with `uk.release(lease)`, or
+ * until `ttl` passes if the process never releases it.
+ */
+export type RateLimitConcurrency = {
+	kind: "concurrency";
+	/** Maximum number of leases held at the same time. */
+	limit: number;
+	/** How long a lease lasts if it is never released (default: "1m"). */
+	ttl?: string | number;
+};
+
+/** A slot held by an in-flight request under a concurrency limit. */
+export type RateLimitLease = {
+	/** Unique id of the lease. */
+	id: string;
+	/** The namespace the slot was taken in (including any environment suffix). */
+	namespace: string;
+	/** Who holds the slot (the rate limit identifier). */
+	identifier: string;
+	/** When the lease expires on its own (milliseconds since epoch). */
+	expiresAt: number;
+};
+
+/**
+ * Where a request stands against a rate limit, reported on
+ * `VerifyResult.ratelimit`. For a stack of limits this is the limit that
+ * rejected the request, or the one with the fewest requests left.
+ */
+export type RateLimitState = {
+	/** The limit's name, when it is part of a stack. */
+	name?: string;
+	/** How many requests the limit allows (its `limit`, `capacity` or `burst`). */
+	limit: number;
+	/** How many more requests are allowed right now. */
+	remaining: number;
+	/** When the limit resets, or when the next request is allowed if blocked (milliseconds since epoch). */
+	reset: number;
+	/** How long to wait before retrying; only set when the request was rate limited. */
+	retryAfterMs?: number;
+	/** How long it takes for the whole limit to become available again (not set for concurrency limits). */
+	windowMs?: number;
+};
+
+/** A fixed window, sliding window, token bucket, GCRA or concurrency rate limiting configuration. */
+export type RateLimitRequest =
+	| RateLimitFixedWindow
+	| RateLimitSlidingWindow
+	| RateLimitTokenBucket
+	| RateLimitGcra
+	| RateLimitConcurrency;
+
+/** A rate limit with a name, for use in a stack of limits. */
+export type NamedRateLimit = RateLimitRequest & {
+	/** Identifies the limit in the rejection reason (like "daily" in "rate_limited:daily"). */
+	name: string;
+};
+
+/**
+ * A single rate limit, or a stack of named limits that must all pass (like
+ * "10 per second and 1000 per day"). Each named limit is counted separately.
+ */
+export type RateLimitConfig = RateLimitRequest | NamedRateLimit[];
+
+/**
+ * One request's worth of a limit, handed back with a store's `refund` when a
+ * later limit in a stack rejects the request.
+ */
+export type RateLimitRefund =
+	| { kind: "fixed" }
+	| {
+			kind: "slidingWindow";
+			durationMs: number;
+			/** When the request was counted, to find the window it went into. */
+			consumedAt: number;
+	  }
+	| { kind: "tokenBucket"; capacity: number; cost: number }
+	| { kind: "gcra"; rate: number; periodMs: number };
@@ -0,0 +1,93 @@
+/**
+ * Webhook delivery types.
+ *
+ * These describe the endpoints the `webhooks()` plugin posts events to, the
+ * deliveries it queues in an outbox, and the outbox storage interface.
+ */
+import type { Milliseconds } from "./common";
+
+/** A URL that receives signed event payloads. */
+export interface WebhookEndpoint {
+	/** Stable identifier for this endpoint. */
+	id: string;
+	/** URL the payload is POSTed to. */
+	url: string;
+	/** Secret used to sign payloads with HMAC-SHA256. */
+	secret: string;
+	/** Events to deliver. Omit (or include `"*"`) to receive every forwarded event. */
+	events?: string[];
+	/** Extra headers sent with every request. */
+	headers?: Record<string, string>;
+}
+
+/** Where a delivery is in its lifecycle. */
+export type WebhookDeliveryStatus = "pending" | "delivered" | "failed";
+
+/** One event queued for one endpoint. */
+export interface WebhookDelivery {
+	id: string;
+	endpointId: string;
+	event: string;
+	payload: Record<string, unknown>;
+	status: WebhookDeliveryStatus;
+	/** Number of delivery attempts made so far. */
+	attempts: number;
+	/** Epoch ms of the next attempt while `pending`. */
+	nextAttemptAt: number;
+	createdAt: number;
+	/** Error from the latest failed attempt. */
+	lastError: string | null;
+}
+
+/**
+ * Storage for queued deliveries. Implement this on your database so that
+ * pending deliveries survive restarts.
+ */
+export interface WebhookOutbox {
+	/** Add a new delivery. */
+	enqueue(delivery: WebhookDelivery): Promise<void>;
+	/** Pending deliveries with `nextAttemptAt <= now`, oldest first. */
+	findDue(now: number, limit: number): Promise<WebhookDelivery[]>;
+	/** Save the outcome of an attempt. */
+	update(delivery: WebhookDelivery): Promise<void>;
+	/** All deliveries, optionally filtered by status. */
+	list(status?: WebhookDeliveryStatus): Promise<WebhookDelivery[]>;
+	/** Delete a delivery. */
+	remove(id: string): Promise<void>;
+}
+
+/** Options for the `webhooks()` plugin. */
+export interface WebhooksOptions {
+	/** Endpoints registered at startup. More can be added with `webhooks.addEndpoint`. */
+	endpoints?: WebhookEndpoint[];
+	/**
+	 * Events the plugin forwards to endpoints.
+	 * Default: `key.created`, `key.revoked`, `ratelimit.blocked`, `usage.blocked`.
+	 */
+	events?: string[];
+	/** Where deliveries are queued. Default: an in-memory outbox. */
+	outbox?: WebhookOutbox;
+	/** Attempts before a delivery is marked `failed`. Default: 8 */
+	maxAttempts?: number;
+	/** Delay before the first retry, doubled on each attempt. Default: 1000 ms */
+	retryBaseMs?: Milliseconds;
+	/** Upper bound for the retry delay. Default: 1 hour */
+	retryMaxMs?: Milliseconds;
+	/** Request timeout. Default: 10000 ms */
+	timeoutMs?: Milliseconds;
+	/** How often due retries are sent. Set to 0 to only deliver via `webhooks.deliverDue()`. Default: 5000 ms */
+	pollIntervalMs?: Milliseconds;
+	/** Deliveries sent per pass. Default: 100 */
+	batchSize?: number;
+	/** Remove deliveries from the outbox once delivered. Default: true */
+	removeDelivered?: boolean;
+}
+
+/** Outcome of one `webhooks.deliverDue()` pass. */
+export interface WebhookDeliveryReport {
+	delivered: number;
+	/** Attempts that failed and were rescheduled. */
+	retried: number;
+	/** Deliveries that ran out of attempts. */
+	failed: number;
+}
@@ -0,0 +1,104 @@
+/** Key search helpers shared by keystore adapters. */
+import type {
+	FindKeysQuery,
+	KeyRecord,
+	MetadataFilterValue,
+} from "../types/common";
+
+/** Whether `value` is a `{ contains }` metadata filter. */
+export function isContainsFilter(
+	value: MetadataFilterValue,
+): value is { contains: string | number | boolean } {
+	return typeof value === "object" && value !== null && "contains" in value;
+}
+
+/**
+ * Check a record against a `FindKeysQuery` (tenant, metadata, revoked and
+ * expired filters). Paging is left to the caller.
+ */
+export function matchesFindKeysQuery(
+	record: KeyRecord,
+	query: FindKeysQuery,
+): boolean {
+	if (
+		query.tenantId !== undefined &&
+		(record.tenantId ?? null) !== query.tenantId
+	)
+		return false;
+	if (
+		query.revoked !== undefined &&
+		Boolean(record.revokedAt) !== query.revoked
+	)
+		return false;
+	if (query.expired !== undefined) {
+		const expired = record.expiresAt != null && record.expiresAt <= query.now;
+		if (expired !== query.expired) return false;
+	}
+	const metadata = (record.metadata ?? {}) as Record<string, unknown>;
+	for (const [field, expected] of Object.entries(query.metadata ?? {})) {
+		const actual = metadata[field];
+		if (isContainsFilter(expected)) {
+			if (!Array.isArray(actual) || !actual.includes(expected.contains))
+				return false;
+		} else if (expected === null) {
+			if (actual != null) return false;
+		} else if (actual !== expected) {
+			return false;
+		}
+	}
+	return true;
+}
+
+/**
+ * Build the WHERE clause for `findKeys` on SQLite and D1. Metadata fields are
+ * matched with `json_extract`, and `{ contains }` filters with `json_each`.
+ */
+export function sqliteFindKeysWhere(query: FindKeysQuery): {
+	where: string;
+	args: unknown[];
+} {
+	const clauses: string[] = [];
+	const args: unknown[] = [];
+	const toSqlValue = (v: string | number | boolean) =>
+		typeof v === "boolean" ? (v ? 1 : 0) : v;
+	if (query.tenantId !== undefined) {
+		clauses.push("tenant_id = ?");
+		args.push(query.tenantId);
+	}
+	for (const [field, expected] of Object.entries(query.metadata ?? {})) {
+		const path = `$."${field}"`;
+		if (isContainsFilter(expected)) {
+			clauses.push(
+				"json_type(metadata, ?) = 'array' AND EXISTS (SELECT 1 FROM json_each(metadata, ?) WHERE value = ?)",
+			);
+			args.push(path, path, toSqlValue(expected.contains));
+		} else if (expected === null) {
+			clauses.push("json_extract(metadata, ?) IS NULL");
+			args.push(path);
+		} else {
+			clauses.push("json_extract(metadata, ?) = ?");
+			args.push(path, toSqlValue(expected));
+		}
+	}
+	if (query.revoked !== undefined) {
+		clauses.push(
+			query.revoked ? "revoked_at IS NOT NULL" : "revoked_at IS NULL",
+		);
+	}
+	if (query.expired !== undefined) {
+		clauses.push(
+			query.expired
+				? "(expires_at IS NOT NULL AND expires_at <= ?)"
+				: "(expires_at IS NULL OR expires_at > ?)",
+		);
+		args.push(query.now);
+	}
+	if (query.cursor != null) {
+		clauses.push("id > ?");
+		args.push(query.cursor);
+	}
+	return {
+		where: clauses.length > 0 ? ` WHERE ${clauses.join(" AND ")}` : "",
+		args,
+	};
+}
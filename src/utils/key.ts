@@ -5,13 +5,20 @@
  * function to materialize a plaintext key (optionally with a prefix), and a
  * `hashKey` helper that maps to the configured SHA‑256 implementation.
  */
-import type { KeyKind, UsefulKeyConfig } from "../types/common";
+import type { KeyEnvironment, KeyKind, UsefulKeyConfig } from "../types/common";
 import { hashSha256, hmacSha256, randomString, uuid } from "./crypto";
 
+/** A key hash together with the id of the secret that produced it. */
+export type KeyHashCandidate = { keyHash: string; secretId: string | null };
+
 const ALPHABET_URLSAFE =
 	"ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
 const ALPHABET_HEX = "0123456789abcdef";
 const ALPHABET_BASE32_CROCKFORD = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+const ALPHABET_BASE62 =
+	"0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+const CHECKSUM_LENGTH = 6;
+const BASE62_BODY = /^[0-9A-Za-z]+$/;
 
 /** Declarative helpers to construct `KeyKind` values. */
 export const KEY = {
@@ -27,13 +34,21 @@ export const KEY = {
 	Base32(length = 26, prefix?: string): KeyKind {
 		return { type: "base32", length, prefix };
 	},
+	/** Base62 body of `length` random characters plus a CRC32 checksum suffix. */
+	Checksummed(length = 30, prefix?: string): KeyKind {
+		return { type: "checksummed", length, prefix };
+	},
 } as const;
 
-/** Render a plaintext key from a `KeyKind` and optional prefix controls. */
+/**
+ * Render a plaintext key from a `KeyKind` and optional prefix controls. An
+ * `environment` is appended to the prefix, as in `uk_test_...`.
+ */
 export function renderKey(
 	kind: KeyKind,
 	defaultPrefix = "uk",
 	includePrefix: boolean = true,
+	environment?: KeyEnvironment,
 ): string {
 	let body: string;
 	switch (kind.type) {
@@ -55,10 +70,120 @@ export function renderKey(
 			body = randomString(len, ALPHABET_BASE32_CROCKFORD);
 			break;
 		}
+		case "checksummed": {
+			const random = randomString(kind.length ?? 30, ALPHABET_BASE62);
+			body = `${random}${checksum(random)}`;
+			break;
+		}
 	}
 	if (!includePrefix) return body;
-	const prefix = kind.prefix ?? defaultPrefix;
-	return `${prefix}_${body}`;
+	return `${environmentPrefix(kind.prefix ?? defaultPrefix, environment)}_${body}`;
+}
+
+/** The prefix a key of `environment` is rendered with, e.g. `uk_test`. */
+export function environmentPrefix(
+	prefix: string,
+	environment?: KeyEnvironment | null,
+): string {
+	return environment ? `${prefix}_${environment}` : prefix;
+}
+
+/**
+ * Read the environment encoded right after `prefix` in a rendered key,
+ * without a lookup. Returns `null` for keys rendered without an environment
+ * or another prefix. Unverified: the caller chose the string.
+ */
+export function keyEnvironment(
+	key: string,
+	prefix: string | undefined,
+): KeyEnvironment | null {
+	if (typeof key !== "string" || !prefix) return null;
+	for (const environment of ["test", "live"] as const) {
+		if (key.startsWith(`${environmentPrefix(prefix, environment)}_`)) {
+			return environment;
+		}
+	}
+	return null;
+}
+
+/**
+ * Build a redacted, non-secret hint for a plaintext key: the `prefix_` part
+ * (when the key starts with it) and the last 4 characters, e.g. `uk_…x9Qa`.
+ * Keys too short to spare 4 characters get no tail.
+ */
+export function keyHint(key: string, prefix?: string): string {
+	const head = prefix && key.startsWith(`${prefix}_`) ? `${prefix}_` : "";
+	const body = key.slice(head.length);
+	return `${head}…${body.length >= 16 ? body.slice(-4) : ""}`;
+}
+
+/**
+ * Check a plaintext key against the format of `kind` without any lookup.
+ *
+ * Only `checksummed` keys carry a verifiable structure: the part after the
+ * last `_` (or the whole key when unprefixed) must be Base62 and end with the
+ * CRC32 checksum of the preceding characters. Other kinds always pass.
+ */
+export function validateKeyFormat(key: string, kind: KeyKind): boolean {
+	if (kind.type !== "checksummed") return true;
+	if (typeof key !== "string") return false;
+	const body = key.slice(key.lastIndexOf("_") + 1);
+	if (body.length <= CHECKSUM_LENGTH || !BASE62_BODY.test(body)) return false;
+	const random = body.slice(0, -CHECKSUM_LENGTH);
+	return body.slice(-CHECKSUM_LENGTH) === checksum(random);
+}
+
+/**
+ * Whether `key` looks like a `checksummed` key of `kind` rendered with
+ * `prefix` (optionally followed by an environment segment): a Base62 body of
+ * the rendered length. The checksum itself is not checked. Pass no prefix for
+ * keys rendered without one.
+ */
+export function hasChecksummedShape(
+	key: string,
+	kind: KeyKind,
+	prefix?: string,
+): boolean {
+	if (kind.type !== "checksummed" || typeof key !== "string") return false;
+	let body = key;
+	if (prefix !== undefined) {
+		if (!key.startsWith(`${prefix}_`)) return false;
+		body = key.slice(prefix.length + 1).replace(/^(?:test|live)_/, "");
+	}
+	return (
+		body.length === (kind.length ?? 30) + CHECKSUM_LENGTH &&
+		BASE62_BODY.test(body)
+	);
+}
+
+/** CRC32 of `input`, Base62-encoded and left-padded to `CHECKSUM_LENGTH`. */
+function checksum(input: string): string {
+	let value = crc32(input);
+	let out = "";
+	for (let i = 0; i < CHECKSUM_LENGTH; i++) {
+		out = ALPHABET_BASE62[value % 62] + out;
+		value = Math.floor(value / 62);
+	}
+	return out;
+}
+
+let crcTable: Uint32Array | undefined;
+
+/** Standard CRC-32 (IEEE 802.3) of an ASCII string. */
+function crc32(input: string): number {
+	if (!crcTable) {
+		crcTable = new Uint32Array(256);
+		for (let n = 0; n < 256; n++) {
+			let c = n;
+			for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+			crcTable[n] = c >>> 0;
+		}
+	}
+	let crc = 0xffffffff;
+	for (let i = 0; i < input.length; i++) {
+		crc = crcTable[(crc ^ input.charCodeAt(i)) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
 }
 
 /** Hash a plaintext key with the configured hashing implementation. */
@@ -71,14 +196,37 @@ export function hashKey(key: string): string {
 	return hashSha256(key);
 }
 
-/** Instance-aware hashing that respects `config.secret` when present. */
-export function hashKeyWithConfig(
+/**
+ * All hashes a plaintext key may be stored under, current first.
+ *
+ * With `customHashKey` there is a single candidate. Otherwise each entry of
+ * `config.secrets` yields an HMAC, followed by the legacy `config.secret`, and
+ * plain SHA‑256 is used only when no secret is configured.
+ */
+export function hashKeyCandidates(
 	key: string,
 	config: UsefulKeyConfig,
-): string {
+): KeyHashCandidate[] {
 	if (typeof config.customHashKey === "function")
-		return config.customHashKey(key);
+		return [{ keyHash: config.customHashKey(key), secretId: null }];
+	const candidates: KeyHashCandidate[] = (config.secrets ?? []).map((s) => ({
+		keyHash: hmacSha256(key, s.value),
+		secretId: s.id,
+	}));
 	if (config.secret !== undefined && config.secret !== null)
-		return hmacSha256(key, config.secret);
-	return hashSha256(key);
+		candidates.push({
+			keyHash: hmacSha256(key, config.secret),
+			secretId: null,
+		});
+	if (candidates.length === 0)
+		candidates.push({ keyHash: hashSha256(key), secretId: null });
+	return candidates;
+}
+
+/** Instance-aware hashing with the current secret (`secrets[0]`, else `secret`). */
+export function hashKeyWithConfig(
+	key: string,
+	config: UsefulKeyConfig,
+): string {
+	return hashKeyCandidates(key, config)[0].keyHash;
 }
@@ -0,0 +1,187 @@
+import { EventEmitter } from "node:events";
+import { describe, expect, it, vi } from "vitest";
+import {
+	CachedKeyStore,
+	MemoryInvalidationBus,
+	MemoryKeyStore,
+	NoopAnalytics,
+	type PgListenerClient,
+	PostgresInvalidationBus,
+	RedisInvalidationBus,
+	usefulkey,
+} from "../../../../src";
+
+describe("MemoryInvalidationBus", () => {
+	it("evicts revoked, updated and removed keys from every instance's cache", async () => {
+		const shared = new MemoryKeyStore();
+		const bus = new MemoryInvalidationBus();
+		const make = () =>
+			usefulkey({
+				adapters: { keyStore: shared, analytics: new NoopAnalytics() },
+				cache: { ttl: "1h", bus },
+			});
+		const a = make();
+		const b = make();
+		await Promise.all([a.ready, b.ready]);
+
+		const created = await a.createKey();
+		const key = created.result?.key as string;
+		const id = created.result?.id as string;
+		expect((await b.verifyKey({ key })).result?.valid).toBe(true);
+
+		await a.updateKey(id, { metadata: { plan: "pro" } });
+		expect((await b.verifyKey({ key }, true)).result?.metadata).toEqual({
+			plan: "pro",
+		});
+
+		await a.revokeKey(id);
+		expect((await b.verifyKey({ key })).result?.reason).toBe("revoked");
+
+		await a.hardRemoveKey(id);
+		expect((await b.verifyKey({ key })).result?.reason).toBe("not_found");
+	});
+
+	it("stops delivering after unsubscribe and close", async () => {
+		const bus = new MemoryInvalidationBus();
+		const handler = vi.fn();
+		const unsubscribe = await bus.subscribe(handler);
+		await bus.publish(["k1"]);
+		await unsubscribe();
+		await bus.publish(["k2"]);
+		expect(handler.mock.calls).toEqual([[["k1"]]]);
+
+		const cache = new CachedKeyStore(new MemoryKeyStore(), { bus });
+		await cache.ready;
+		const spy = vi.spyOn(cache, "invalidate");
+		await cache.close();
+		await bus.publish(["k3"]);
+		expect(spy).not.toHaveBeenCalled();
+	});
+
+	it("keeps the write successful when publishing fails", async () => {
+		const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+		const bus = new MemoryInvalidationBus();
+		bus.publish = async () => {
+			throw new Error("bus down");
+		};
+		const uk = usefulkey({
+			adapters: { analytics: new NoopAnalytics() },
+			cache: { bus },
+		});
+		const created = await uk.createKey();
+		const res = await uk.revokeKey(created.result?.id as string);
+		expect(res.error).toBeFalsy();
+		expect(errSpy.mock.calls[0][1]).toMatchObject({
+			code: "INVALIDATION_PUBLISH_FAILED",
+		});
+		errSpy.mockRestore();
+	});
+});
+
+describe("RedisInvalidationBus", () => {
+	it("works with node-redis style subscribe listeners", async () => {
+		const listeners = new Map<string, (message: string) => void>();
+		const subscriber = {
+			subscribe: vi.fn(async (channel: string, cb: (m: string) => void) => {
+				listeners.set(channel, cb);
+			}),
+			unsubscribe: vi.fn(async () => {}),
+		};
+		const publisher = {
+			publish: vi.fn(async (channel: string, message: string) => {
+				listeners.get(channel)?.(message);
+			}),
+		};
+		const bus = new RedisInvalidationBus(publisher, subscriber, {
+			channel: "uk:inv",
+		});
+		const handler = vi.fn();
+		await bus.subscribe(handler);
+		await bus.subscribe(handler);
+		await bus.publish(["k1", "k2"]);
+		await bus.publish([]);
+
+		expect(subscriber.subscribe).toHaveBeenCalledTimes(1);
+		expect(publisher.publish).toHaveBeenCalledWith(
+			"uk:inv",
+			JSON.stringify(["k1", "k2"]),
+		);
+		expect(handler).toHaveBeenCalledWith(["k1", "k2"]);
+		expect(handler).toHaveBeenCalledTimes(1);
+
+		await bus.close();
+		expect(subscriber.unsubscribe).toHaveBeenCalledWith("uk:inv");
+	});
+
+	it("works with ioredis style message events and ignores malformed messages", async () => {
+		const subscriber = Object.assign(new EventEmitter(), {
+			subscribe: vi.fn(
+				async (_channel: string, cb?: (err: null, count: number) => void) => {
+					cb?.(null, 1);
+				},
+			),
+		});
+		const publisher = {
+			publish: async (channel: string, message: string) => {
+				subscriber.emit("message", channel, message);
+			},
+		};
+		const bus = new RedisInvalidationBus(publisher, subscriber);
+		const handler = vi.fn();
+		await bus.subscribe(handler);
+		await bus.publish(["k1"]);
+		subscriber.emit("message", "usefulkey:invalidate", "not json");
+		subscriber.emit("message", "other", JSON.stringify(["k2"]));
+		expect(handler.mock.calls).toEqual([[["k1"]]]);
+	});
+});
+
+describe("PostgresInvalidationBus", () => {
+	it("notifies with pg_notify and dispatches LISTEN notifications", async () => {
+		const emitter = new EventEmitter();
+		const listenerQueries: string[] = [];
+		const listener = {
+			query: async (text: string) => {
+				listenerQueries.push(text);
+				return { rows: [] };
+			},
+			on: (event: string, fn: (...args: any[]) => void) =>
+				emitter.on(event, fn),
+		} as unknown as PgListenerClient;
+		const client = {
+			query: vi.fn(async (_text: string, values?: unknown[]) => {
+				const [channel, payload] = values as [string, string];
+				emitter.emit("notification", { channel, payload });
+				return { rows: [] };
+			}),
+		};
+		const bus = new PostgresInvalidationBus(client, listener);
+		const handler = vi.fn();
+		await bus.subscribe(handler);
+		await bus.publish(["k1"]);
+
+		expect(client.query).toHaveBeenCalledWith("SELECT pg_notify($1, $2)", [
+			"usefulkey_invalidate",
+			JSON.stringify(["k1"]),
+		]);
+		expect(handler).toHaveBeenCalledWith(["k1"]);
+
+		await bus.close();
+		expect(listenerQueries).toEqual([
+			"LISTEN usefulkey_invalidate",
+			"UNLISTEN usefulkey_invalidate",
+		]);
+	});
+
+	it("rejects channel names that are not identifiers", () => {
+		const client = { query: async () => ({ rows: [] }) };
+		expect(
+			() =>
+				new PostgresInvalidationBus(
+					client,
+					client as unknown as PgListenerClient,
+					{ channel: "bad; DROP TABLE x" },
+				),
+		).toThrow(/channel/);
+	});
+});
@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	CachedKeyStore,
+	type KeyRecord,
+	type KeyStoreAdapter,
+	MemoryKeyStore,
+} from "../../../../src";
+
+function record(id: string, keyHash: string): KeyRecord {
+	return {
+		id,
+		userId: null,
+		prefix: "uk",
+		keyHash,
+		createdAt: Date.now(),
+		expiresAt: null,
+		metadata: {},
+		revokedAt: null,
+		usesRemaining: null,
+	};
+}
+
+function countingStore() {
+	const inner = new MemoryKeyStore();
+	const spy = vi.spyOn(inner, "findKeyByHash");
+	return { inner, spy };
+}
+
+describe("CachedKeyStore", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+	});
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("serves repeated lookups from the cache until the TTL passes", async () => {
+		const { inner, spy } = countingStore();
+		const cache = new CachedKeyStore(inner, { ttl: "10s" });
+		await cache.createKey(record("k1", "h1"));
+
+		expect((await cache.findKeyByHash("h1"))?.id).toBe("k1");
+		expect((await cache.findKeyByHash("h1"))?.id).toBe("k1");
+		expect(spy).toHaveBeenCalledTimes(1);
+		expect(cache.stats()).toEqual({ hits: 1, misses: 1, size: 1 });
+
+		vi.advanceTimersByTime(10_000);
+		await cache.findKeyByHash("h1");
+		expect(spy).toHaveBeenCalledTimes(2);
+	});
+
+	it("caches unknown hashes for the negative TTL only", async () => {
+		const { inner, spy } = countingStore();
+		const lookups: Array<{ hit: boolean; negative: boolean }> = [];
+		const cache = new CachedKeyStore(inner, {
+			negativeTtl: 1000,
+			onLookup: (l) => lookups.push(l),
+		});
+
+		expect(await cache.findKeyByHash("nope")).toBeNull();
+		expect(await cache.findKeyByHash("nope")).toBeNull();
+		expect(spy).toHaveBeenCalledTimes(1);
+		expect(lookups).toEqual([
+			{ hit: false, negative: false },
+			{ hit: true, negative: true },
+		]);
+
+		vi.advanceTimersByTime(1000);
+		await cache.findKeyByHash("nope");
+		expect(spy).toHaveBeenCalledTimes(2);
+
+		const noNegative = new CachedKeyStore(inner, { negativeTtl: 0 });
+		await noNegative.findKeyByHash("nope");
+		await noNegative.findKeyByHash("nope");
+		expect(spy).toHaveBeenCalledTimes(4);
+	});
+
+	it("evicts the least recently used entry beyond maxSize", async () => {
+		const { inner, spy } = countingStore();
+		const cache = new CachedKeyStore(inner, { maxSize: 2 });
+		for (const id of ["a", "b", "c"]) await cache.createKey(record(id, id));
+
+		await cache.findKeyByHash("a");
+		await cache.findKeyByHash("b");
+		await cache.findKeyByHash("a");
+		await cache.findKeyByHash("c");
+		expect(cache.stats().size).toBe(2);
+		spy.mockClear();
+
+		await cache.findKeyByHash("a");
+		await cache.findKeyByHash("b");
+		expect(spy.mock.calls.map((c) => c[0])).toEqual(["b"]);
+	});
+
+	it("invalidates on writes, including a new key for a negatively cached hash", async () => {
+		const { inner, spy } = countingStore();
+		const cache = new CachedKeyStore(inner);
+		expect(await cache.findKeyByHash("h1")).toBeNull();
+		await cache.createKey(record("k1", "h1"));
+		expect((await cache.findKeyByHash("h1"))?.id).toBe("k1");
+
+		await cache.revokeKeyById("k1");
+		expect((await cache.findKeyByHash("h1"))?.revokedAt).toBe(Date.now());
+
+		await cache.updateKey({ ...record("k1", "h1"), metadata: { plan: "pro" } });
+		expect((await cache.findKeyByHash("h1"))?.metadata).toEqual({
+			plan: "pro",
+		});
+
+		await cache.hardRemoveKeyById("k1");
+		expect(await cache.findKeyByHash("h1")).toBeNull();
+		expect(spy).toHaveBeenCalledTimes(5);
+
+		await cache.createKey(record("k2", "h2"));
+		await cache.findKeyByHash("h2");
+		cache.invalidate("k2");
+		await cache.findKeyByHash("h2");
+		expect(spy).toHaveBeenCalledTimes(7);
+	});
+
+	it("does not cache a lookup that raced with an invalidation", async () => {
+		const inner = new MemoryKeyStore();
+		await inner.createKey(record("k1", "h1"));
+		const stale = record("k1", "h1");
+		let release!: () => void;
+		const gate = new Promise<void>((resolve) => {
+			release = resolve;
+		});
+		const findKeyByHash = inner.findKeyByHash.bind(inner);
+		inner.findKeyByHash = async (hash) => {
+			await gate;
+			return hash === "h1" ? stale : findKeyByHash(hash);
+		};
+		const cache = new CachedKeyStore(inner);
+
+		const pending = cache.findKeyByHash("h1");
+		await cache.revokeKeyById("k1");
+		release();
+		await pending;
+		expect(cache.stats().size).toBe(0);
+	});
+
+	it("batches misses and serves hits in findKeysByHashes", async () => {
+		const inner = new MemoryKeyStore();
+		const batch = vi.spyOn(inner, "findKeysByHashes");
+		const cache = new CachedKeyStore(inner);
+		await cache.createKey(record("a", "ha"));
+		await cache.createKey(record("b", "hb"));
+		await cache.findKeyByHash("ha");
+
+		const found = await cache.findKeysByHashes(["ha", "hb", "missing"]);
+		expect(found.map((r) => r.id).sort()).toEqual(["a", "b"]);
+		expect(batch).toHaveBeenCalledWith(["hb", "missing"]);
+
+		await cache.findKeysByHashes(["ha", "hb", "missing"]);
+		expect(batch).toHaveBeenCalledTimes(1);
+	});
+
+	it("exposes optional methods only when the wrapped store has them", () => {
+		const minimal: KeyStoreAdapter = {
+			createKey: async () => {},
+			findKeyById: async () => null,
+			findKeyByHash: async () => null,
+			updateKey: async () => {},
+			revokeKeyById: async () => {},
+			hardRemoveKeyById: async () => {},
+		};
+		const cache = new CachedKeyStore(minimal);
+		expect(cache.listKeys).toBeUndefined();
+		expect(cache.findKeys).toBeUndefined();
+		expect(cache.findExpiredIds).toBeUndefined();
+		expect(cache.createKeys).toBeUndefined();
+		expect(typeof new CachedKeyStore(new MemoryKeyStore()).listKeys).toBe(
+			"function",
+		);
+	});
+});
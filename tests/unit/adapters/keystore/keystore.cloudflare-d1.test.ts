@@ -11,6 +11,10 @@ type Row = {
 	metadata: string | null;
 	uses_remaining: number | null;
 	revoked_at: number | null;
+	secret_id: string | null;
+	hint: string | null;
+	tenant_id: string | null;
+	environment: string | null;
 };
 
 function makeD1(withExec: boolean) {
@@ -43,6 +47,10 @@ function makeD1(withExec: boolean) {
 									metadata,
 									uses_remaining,
 									revoked_at,
+									secret_id,
+									hint,
+									tenant_id,
+									environment,
 								] = boundArgs as any[];
 								const row: Row = {
 									id: String(id),
@@ -55,6 +63,10 @@ function makeD1(withExec: boolean) {
 									uses_remaining:
 										uses_remaining == null ? null : Number(uses_remaining),
 									revoked_at: revoked_at == null ? null : Number(revoked_at),
+									secret_id: secret_id == null ? null : String(secret_id),
+									hint: hint == null ? null : String(hint),
+									tenant_id: tenant_id == null ? null : String(tenant_id),
+									environment: environment == null ? null : String(environment),
 								};
 								byId.set(row.id, row);
 								byHash.set(row.key_hash, row.id);
@@ -68,6 +80,10 @@ function makeD1(withExec: boolean) {
 									metadata,
 									uses_remaining,
 									revoked_at,
+									secret_id,
+									hint,
+									tenant_id,
+									environment,
 									id,
 								] = boundArgs as any[];
 								const row = byId.get(String(id));
@@ -86,6 +102,11 @@ function makeD1(withExec: boolean) {
 										uses_remaining == null ? null : Number(uses_remaining);
 									row.revoked_at =
 										revoked_at == null ? null : Number(revoked_at);
+									row.secret_id = secret_id == null ? null : String(secret_id);
+									row.hint = hint == null ? null : String(hint);
+									row.tenant_id = tenant_id == null ? null : String(tenant_id);
+									row.environment =
+										environment == null ? null : String(environment);
 								}
 							} else if (isUpdateRevoke) {
 								const [revoked_at, id] = boundArgs as any[];
@@ -243,4 +264,50 @@ describe("D1KeyStore adapter", () => {
 		const recByHash = await ks.findKeyByHash("h3");
 		expect(recByHash?.id).toBe("k3");
 	});
+
+	it("adds columns missing from an existing table before creating indexes", async () => {
+		const statements: string[] = [];
+		const columns = [
+			"id",
+			"user_id",
+			"prefix",
+			"key_hash",
+			"created_at",
+			"expires_at",
+			"metadata",
+			"uses_remaining",
+			"revoked_at",
+		];
+		const ks = new D1KeyStore({
+			prepare(sql: string) {
+				return {
+					bind() {
+						return {
+							async run() {
+								statements.push(sql);
+								return {};
+							},
+							async all<T>() {
+								const results = /PRAGMA table_info/.test(sql)
+									? columns.map((name) => ({ name }))
+									: [];
+								return { results: results as T[] };
+							},
+						};
+					},
+				};
+			},
+		});
+		await ks.ready;
+
+		const alters = statements.filter((sql) => /^ALTER TABLE/.test(sql));
+		expect(alters).toEqual([
+			"ALTER TABLE usefulkey_keys ADD COLUMN secret_id TEXT",
+			"ALTER TABLE usefulkey_keys ADD COLUMN hint TEXT",
+			"ALTER TABLE usefulkey_keys ADD COLUMN tenant_id TEXT",
+			"ALTER TABLE usefulkey_keys ADD COLUMN environment TEXT",
+		]);
+		const firstIndex = statements.findIndex((sql) => /CREATE INDEX/.test(sql));
+		expect(statements.indexOf(alters[3])).toBeLessThan(firstIndex);
+	});
 });
@@ -217,4 +217,35 @@ describe("HttpKeyStore", () => {
 		);
 		await store2.findKeyById("test2");
 	});
+
+	it("listKeys builds the default route and parses both payload shapes", async () => {
+		const store = new HttpKeyStore({ baseUrl: BASE });
+
+		vi.spyOn(globalThis, "fetch").mockImplementationOnce(
+			(input: string | URL | Request) => {
+				expect(input.toString()).toBe(
+					`${BASE}/keys?userId=u%201&limit=2&cursor=k1`,
+				);
+				return Promise.resolve({
+					...makeResp(200),
+					json: async () => ({
+						items: [record("k2"), record("k3")],
+						nextCursor: "k3",
+					}),
+				}) as any;
+			},
+		);
+		const page = await store.listKeys({
+			userId: "u 1",
+			cursor: "k1",
+			limit: 2,
+		});
+		expect(page.items.map((r) => r.id)).toEqual(["k2", "k3"]);
+		expect(page.nextCursor).toBe("k3");
+
+		mockFetchOnce(200, [record("k4")]);
+		const bare = await store.listKeys({ userId: "u", limit: 2 });
+		expect(bare.items.map((r) => r.id)).toEqual(["k4"]);
+		expect(bare.nextCursor).toBeNull();
+	});
 });
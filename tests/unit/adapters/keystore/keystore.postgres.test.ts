@@ -13,6 +13,10 @@ describe("PostgresKeyStore adapter (unit, fake client)", () => {
 			metadata: string | null | Record<string, unknown>;
 			uses_remaining: number | null;
 			revoked_at: number | null;
+			secret_id: string | null;
+			hint: string | null;
+			tenant_id: string | null;
+			environment: string | null;
 		};
 		const byId = new Map<string, Row>();
 		const byHash = new Map<string, string>();
@@ -31,6 +35,10 @@ describe("PostgresKeyStore adapter (unit, fake client)", () => {
 						metadata,
 						uses_remaining,
 						revoked_at,
+						secret_id,
+						hint,
+						tenant_id,
+						environment,
 					] = values as any[];
 					const row: Row = {
 						id: String(id),
@@ -49,6 +57,10 @@ describe("PostgresKeyStore adapter (unit, fake client)", () => {
 						uses_remaining:
 							uses_remaining == null ? null : Number(uses_remaining),
 						revoked_at: revoked_at == null ? null : Number(revoked_at),
+						secret_id: secret_id == null ? null : String(secret_id),
+						hint: hint == null ? null : String(hint),
+						tenant_id: tenant_id == null ? null : String(tenant_id),
+						environment: environment == null ? null : String(environment),
 					};
 					byId.set(row.id, row);
 					byHash.set(row.key_hash, row.id);
@@ -76,6 +88,10 @@ describe("PostgresKeyStore adapter (unit, fake client)", () => {
 						metadata,
 						uses_remaining,
 						revoked_at,
+						secret_id,
+						hint,
+						tenant_id,
+						environment,
 						id,
 					] = values as any[];
 					const row = byId.get(String(id));
@@ -98,6 +114,10 @@ describe("PostgresKeyStore adapter (unit, fake client)", () => {
 						row.uses_remaining =
 							uses_remaining == null ? null : Number(uses_remaining);
 						row.revoked_at = revoked_at == null ? null : Number(revoked_at);
+						row.secret_id = secret_id == null ? null : String(secret_id);
+						row.hint = hint == null ? null : String(hint);
+						row.tenant_id = tenant_id == null ? null : String(tenant_id);
+						row.environment = environment == null ? null : String(environment);
 					}
 					return { rows: [], rowCount: row ? 1 : 0 } as any;
 				}
@@ -147,10 +167,20 @@ describe("PostgresKeyStore adapter (unit, fake client)", () => {
 		expect(byHash?.id).toBe("k1");
 		const byIdRec = await ks.findKeyById("k1");
 		expect(byIdRec?.userId).toBe("u1");
-		await ks.updateKey({ ...rec, usesRemaining: 3, metadata: { b: 2 } });
+		await ks.updateKey({
+			...rec,
+			usesRemaining: 3,
+			metadata: { b: 2 },
+			secretId: "s2",
+			hint: "uk_…h1h1",
+			environment: "live",
+		});
 		const afterUpd = await ks.findKeyById("k1");
 		expect(afterUpd?.usesRemaining).toBe(3);
 		expect(afterUpd?.metadata).toEqual({ b: 2 });
+		expect(afterUpd?.secretId).toBe("s2");
+		expect(afterUpd?.hint).toBe("uk_…h1h1");
+		expect(afterUpd?.environment).toBe("live");
 		await ks.revokeKeyById("k1");
 		const revoked = await ks.findKeyById("k1");
 		expect(typeof revoked?.revokedAt).toBe("number");
@@ -181,4 +211,150 @@ describe("PostgresKeyStore adapter (unit, fake client)", () => {
 		const rec = await ks.findKeyByHash("h2");
 		expect(rec?.metadata).toEqual({ ok: true });
 	});
+
+	it("listKeys pages by user id with a keyset cursor", async () => {
+		const queries: Array<{ text: string; values?: unknown[] }> = [];
+		const row = (id: string) => ({
+			id,
+			user_id: "u1",
+			prefix: "uk",
+			key_hash: `h_${id}`,
+			created_at: 1,
+			expires_at: null,
+			metadata: null,
+			uses_remaining: null,
+			revoked_at: null,
+		});
+		const client = {
+			async query(text: string, values?: unknown[]) {
+				queries.push({ text, values });
+				if (/WHERE user_id = \$1/.test(text)) {
+					return { rows: [row("a"), row("b"), row("c")], rowCount: 3 };
+				}
+				return { rows: [], rowCount: 0 };
+			},
+		};
+		const ks = new PostgresKeyStore(client);
+		await ks.ready;
+
+		const page = await ks.listKeys({ userId: "u1", limit: 2 });
+		expect(page.items.map((r) => r.id)).toEqual(["a", "b"]);
+		expect(page.nextCursor).toBe("b");
+		const first = queries[queries.length - 1];
+		expect(first.text).toMatch(/ORDER BY id ASC LIMIT \$2/);
+		expect(first.values).toEqual(["u1", 3]);
+
+		await ks.listKeys({ userId: "u1", cursor: "b", limit: 5 });
+		const second = queries[queries.length - 1];
+		expect(second.text).toMatch(/user_id = \$1 AND id > \$2/);
+		expect(second.values).toEqual(["u1", "b", 6]);
+	});
+
+	it("findKeys folds metadata filters into a JSONB containment query", async () => {
+		const queries: Array<{ text: string; values?: unknown[] }> = [];
+		const client = {
+			async query(text: string, values?: unknown[]) {
+				queries.push({ text, values });
+				return { rows: [], rowCount: 0 };
+			},
+		};
+		const ks = new PostgresKeyStore(client, { useJsonbMetadata: true });
+		await ks.ready;
+		expect(queries.some((q) => /USING GIN \(metadata\)/.test(q.text))).toBe(
+			true,
+		);
+
+		await ks.findKeys({
+			metadata: { plan: "pro", scopes: { contains: "admin" }, legacy: null },
+			revoked: false,
+			expired: false,
+			cursor: "k1",
+			limit: 10,
+			now: 1000,
+		});
+		const q = queries[queries.length - 1];
+		expect(q.text).toContain(
+			"coalesce(jsonb_typeof(metadata -> $1), 'null') = 'null'",
+		);
+		expect(q.text).toContain("metadata @> $2::jsonb");
+		expect(q.text).toContain("revoked_at IS NULL");
+		expect(q.text).toContain("(expires_at IS NULL OR expires_at > $3)");
+		expect(q.text).toContain("id > $4");
+		expect(q.text).toMatch(/ORDER BY id ASC LIMIT \$5$/);
+		expect(q.values).toEqual([
+			"legacy",
+			JSON.stringify({ plan: "pro", scopes: ["admin"] }),
+			1000,
+			"k1",
+			11,
+		]);
+
+		const text = new PostgresKeyStore(client, { useJsonbMetadata: false });
+		await text.ready;
+		await text.findKeys({ metadata: { plan: "pro" }, limit: 1, now: 0 });
+		expect(queries[queries.length - 1].text).toContain(
+			"metadata::jsonb @> $1::jsonb",
+		);
+	});
+
+	it("createKeys issues one multi-row INSERT", async () => {
+		const queries: Array<{ text: string; values?: unknown[] }> = [];
+		const client = {
+			async query(text: string, values?: unknown[]) {
+				queries.push({ text, values });
+				return { rows: [], rowCount: 0 };
+			},
+		};
+		const ks = new PostgresKeyStore(client, { useJsonbMetadata: true });
+		await ks.ready;
+		const base = { prefix: "uk", createdAt: 1, metadata: { a: 1 } };
+		await ks.createKeys([
+			{ ...base, id: "k1", userId: "u1", keyHash: "h1" },
+			{ ...base, id: "k2", userId: null, keyHash: "h2" },
+		]);
+		const q = queries[queries.length - 1];
+		expect(q.text).toMatch(
+			/VALUES \(\$1, .*\$7::jsonb, .*\$13\), \(\$14, .*\$20::jsonb, .*\$26\)$/,
+		);
+		expect(q.values).toHaveLength(26);
+		expect(q.values?.[0]).toBe("k1");
+		expect(q.values?.[13]).toBe("k2");
+		expect(q.values?.[19]).toBe(JSON.stringify({ a: 1 }));
+
+		const count = queries.length;
+		await ks.createKeys([]);
+		expect(queries).toHaveLength(count);
+	});
+
+	it("findKeysByHashes looks up every hash with ANY($1)", async () => {
+		const queries: Array<{ text: string; values?: unknown[] }> = [];
+		const client = {
+			async query(text: string, values?: unknown[]) {
+				queries.push({ text, values });
+				if (/key_hash = ANY\(\$1\)/.test(text)) {
+					return {
+						rows: [
+							{
+								id: "k2",
+								user_id: null,
+								prefix: "uk",
+								key_hash: "h2",
+								created_at: 1,
+							},
+						],
+					};
+				}
+				return { rows: [], rowCount: 0 };
+			},
+		};
+		const ks = new PostgresKeyStore(client);
+		await ks.ready;
+		const records = await ks.findKeysByHashes(["h1", "h2"]);
+		expect(records.map((r) => r.id)).toEqual(["k2"]);
+		expect(queries[queries.length - 1].values).toEqual([["h1", "h2"]]);
+
+		const count = queries.length;
+		expect(await ks.findKeysByHashes([])).toEqual([]);
+		expect(queries).toHaveLength(count);
+	});
 });
@@ -62,6 +62,9 @@ describe("RedisKeyStore adapter edge cases", () => {
 		let setCalled = false;
 		const client = {
 			async hSet() {},
+			async hGetAll() {
+				return {};
+			},
 			async set() {
 				setCalled = true;
 			},
@@ -168,4 +171,327 @@ describe("RedisKeyStore adapter edge cases", () => {
 		});
 		expect(setCalled).toBe(true);
 	});
+
+	it("listKeys reads the per-user id set and skips stale entries", async () => {
+		const hashes = new Map<string, Record<string, string>>();
+		const sets = new Map<string, Set<string>>();
+		const client = {
+			async hSet(key: string, data: Record<string, string>) {
+				hashes.set(key, { ...(hashes.get(key) ?? {}), ...data });
+			},
+			async hGetAll(key: string) {
+				return hashes.get(key) ?? {};
+			},
+			async set() {},
+			async del(key: string) {
+				hashes.delete(key);
+			},
+			async sAdd(key: string, member: string) {
+				const s = sets.get(key) ?? new Set<string>();
+				s.add(member);
+				sets.set(key, s);
+			},
+			async sRem(key: string, member: string) {
+				sets.get(key)?.delete(member);
+			},
+			async sMembers(key: string) {
+				return Array.from(sets.get(key) ?? []);
+			},
+		} as Record<string, unknown>;
+		const ks = new RedisKeyStore(client);
+		const base = {
+			prefix: "uk",
+			createdAt: 1,
+			expiresAt: null,
+			metadata: {},
+			usesRemaining: null,
+			revokedAt: null,
+		};
+		for (const id of ["c", "a", "b"]) {
+			await ks.createKey({ ...base, id, userId: "u1", keyHash: `h_${id}` });
+		}
+		await ks.updateKey({ ...base, id: "b", userId: "u2", keyHash: "h_b" });
+
+		const first = await ks.listKeys({ userId: "u1", limit: 1 });
+		expect(first.items.map((r) => r.id)).toEqual(["a"]);
+		expect(first.nextCursor).toBe("a");
+		const second = await ks.listKeys({ userId: "u1", cursor: "a", limit: 1 });
+		expect(second.items.map((r) => r.id)).toEqual(["c"]);
+		expect(second.nextCursor).toBeNull();
+
+		await ks.hardRemoveKeyById("c");
+		expect(sets.get("usefulkey:user:u1")?.has("c")).toBe(false);
+	});
+
+	it("round-trips secretId, hint and environment", async () => {
+		const hashes = new Map<string, Record<string, string>>();
+		const client = {
+			async hSet(key: string, data: Record<string, string>) {
+				hashes.set(key, { ...(hashes.get(key) ?? {}), ...data });
+			},
+			async hGetAll(key: string) {
+				return hashes.get(key) ?? {};
+			},
+			async set() {},
+		} as Record<string, unknown>;
+		const ks = new RedisKeyStore(client);
+		await ks.createKey({
+			id: "k1",
+			userId: null,
+			prefix: "uk",
+			keyHash: "h1",
+			createdAt: 1,
+			secretId: "s1",
+			hint: "uk_test_…x9Qa",
+			environment: "test",
+		});
+		const rec = await ks.findKeyById("k1");
+		expect(rec?.secretId).toBe("s1");
+		expect(rec?.hint).toBe("uk_test_…x9Qa");
+		expect(rec?.environment).toBe("test");
+	});
+
+	it("findKeysByHashes resolves ids with one MGET", async () => {
+		const strings = new Map<string, string>();
+		const hashes = new Map<string, Record<string, string>>();
+		const mgets: string[][] = [];
+		const client = {
+			async hSet(key: string, data: Record<string, string>) {
+				hashes.set(key, { ...(hashes.get(key) ?? {}), ...data });
+			},
+			async hGetAll(key: string) {
+				return hashes.get(key) ?? {};
+			},
+			async set(key: string, value: string) {
+				strings.set(key, value);
+			},
+			async mGet(keys: string[]) {
+				mgets.push(keys);
+				return keys.map((k) => strings.get(k) ?? null);
+			},
+		} as Record<string, unknown>;
+		const ks = new RedisKeyStore(client);
+		for (const id of ["k1", "k2"]) {
+			await ks.createKey({
+				id,
+				userId: null,
+				prefix: "uk",
+				keyHash: `h-${id}`,
+				createdAt: 1,
+			});
+		}
+		const records = await ks.findKeysByHashes(["h-k1", "missing", "h-k2"]);
+		expect(records.map((r) => r.id)).toEqual(["k1", "k2"]);
+		expect(mgets).toEqual([
+			[
+				"usefulkey:khash:h-k1",
+				"usefulkey:khash:missing",
+				"usefulkey:khash:h-k2",
+			],
+		]);
+	});
+
+	it("findKeys falls back to the keys command without scan", async () => {
+		const hashes = new Map<string, Record<string, string>>();
+		const client = {
+			async hSet(key: string, data: Record<string, string>) {
+				hashes.set(key, { ...(hashes.get(key) ?? {}), ...data });
+			},
+			async hGetAll(key: string) {
+				return hashes.get(key) ?? {};
+			},
+			async set() {},
+			hashes,
+			// Uses `this` like a real client, so an unbound call fails.
+			async keys(this: { hashes: typeof hashes }, pattern: string) {
+				const prefix = pattern.replace(/\*$/, "");
+				return Array.from(this.hashes.keys()).filter((k) =>
+					k.startsWith(prefix),
+				);
+			},
+		} as Record<string, unknown>;
+		const ks = new RedisKeyStore(client);
+		const base = {
+			userId: null,
+			prefix: "uk",
+			createdAt: 1,
+			expiresAt: null,
+			usesRemaining: null,
+			revokedAt: null,
+		};
+		await ks.createKey({
+			...base,
+			id: "b",
+			keyHash: "hb",
+			metadata: { plan: "pro" },
+		});
+		await ks.createKey({
+			...base,
+			id: "a",
+			keyHash: "ha",
+			metadata: { plan: "pro" },
+		});
+		await ks.createKey({
+			...base,
+			id: "c",
+			keyHash: "hc",
+			metadata: { plan: "free" },
+		});
+
+		const page = await ks.findKeys({
+			metadata: { plan: "pro" },
+			limit: 1,
+			now: 0,
+		});
+		expect(page.items.map((r) => r.id)).toEqual(["a"]);
+		expect(page.nextCursor).toBe("a");
+		const next = await ks.findKeys({
+			metadata: { plan: "pro" },
+			cursor: "a",
+			limit: 1,
+			now: 0,
+		});
+		expect(next.items.map((r) => r.id)).toEqual(["b"]);
+		expect(next.nextCursor).toBeNull();
+	});
+
+	it("lists keys with SCAN on node-redis and ioredis style clients", async () => {
+		class FakeRedis {
+			hashes = new Map<string, Record<string, string>>();
+			async hSet(key: string, data: Record<string, string>) {
+				this.hashes.set(key, { ...(this.hashes.get(key) ?? {}), ...data });
+			}
+			async hGetAll(key: string) {
+				return this.hashes.get(key) ?? {};
+			}
+			async set() {}
+			/** One matching key per call, so callers have to follow the cursor. */
+			page(cursor: unknown, pattern: string): [string, string[]] {
+				const prefix = pattern.replace(/\*$/, "");
+				const keys = [...this.hashes.keys()].filter((k) =>
+					k.startsWith(prefix),
+				);
+				const at = Number(cursor);
+				const next = at + 1 < keys.length ? String(at + 1) : "0";
+				return [next, keys.slice(at, at + 1)];
+			}
+		}
+		class NodeRedis extends FakeRedis {
+			async sAdd() {}
+			async scan(cursor: string, options: { MATCH: string }) {
+				const [next, keys] = this.page(cursor, options.MATCH);
+				return { cursor: next, keys };
+			}
+		}
+		class IoRedis extends FakeRedis {
+			async scan(cursor: string, _match: "MATCH", pattern: string) {
+				return this.page(cursor, pattern);
+			}
+		}
+		for (const client of [new NodeRedis(), new IoRedis()]) {
+			const ks = new RedisKeyStore(client);
+			const base = { userId: null, prefix: "uk", createdAt: 1 };
+			await ks.createKey({ ...base, id: "a", keyHash: "ha", expiresAt: 5 });
+			await ks.createKey({ ...base, id: "b", keyHash: "hb", expiresAt: null });
+			await ks.createKey({ ...base, id: "c", keyHash: "hc", expiresAt: 5 });
+
+			const page = await ks.findKeys({ limit: 10, now: 0 });
+			expect(page.items.map((r) => r.id)).toEqual(["a", "b", "c"]);
+			expect((await ks.findExpiredIds(10, 10)).sort()).toEqual(["a", "c"]);
+		}
+	});
+
+	it("keeps a per-tenant id set that backs tenant-scoped findKeys", async () => {
+		const hashes = new Map<string, Record<string, string>>();
+		const sets = new Map<string, Set<string>>();
+		const client = {
+			async hSet(key: string, data: Record<string, string>) {
+				hashes.set(key, { ...(hashes.get(key) ?? {}), ...data });
+			},
+			async hGetAll(key: string) {
+				return hashes.get(key) ?? {};
+			},
+			async set() {},
+			async del(key: string) {
+				hashes.delete(key);
+			},
+			async sAdd(key: string, member: string) {
+				const s = sets.get(key) ?? new Set<string>();
+				s.add(member);
+				sets.set(key, s);
+			},
+			async sRem(key: string, member: string) {
+				sets.get(key)?.delete(member);
+			},
+			async sMembers(key: string) {
+				return Array.from(sets.get(key) ?? []);
+			},
+		} as Record<string, unknown>;
+		const ks = new RedisKeyStore(client);
+		const base = { userId: "u1", prefix: "uk", createdAt: 1 };
+		await ks.createKey({ ...base, id: "a", keyHash: "ha", tenantId: "t1" });
+		await ks.createKey({ ...base, id: "b", keyHash: "hb", tenantId: "t2" });
+		await ks.createKey({ ...base, id: "c", keyHash: "hc", tenantId: "t1" });
+
+		expect((await ks.findKeyById("a"))?.tenantId).toBe("t1");
+		const page = await ks.findKeys({ tenantId: "t1", limit: 10, now: 0 });
+		expect(page.items.map((r) => r.id)).toEqual(["a", "c"]);
+		const listed = await ks.listKeys({
+			userId: "u1",
+			tenantId: "t2",
+			limit: 10,
+		});
+		expect(listed.items.map((r) => r.id)).toEqual(["b"]);
+
+		await ks.hardRemoveKeyById("a");
+		expect(Array.from(sets.get("usefulkey:tenant:t1") ?? [])).toEqual(["c"]);
+	});
+
+	it("createKeys queues writes on a MULTI batch and surfaces ioredis reply errors", async () => {
+		const queued: string[] = [];
+		let replies: unknown[] = [];
+		const client = {
+			multi() {
+				const batch = {
+					hset(key: string) {
+						queued.push(`hset ${key}`);
+						return batch;
+					},
+					set(key: string) {
+						queued.push(`set ${key}`);
+						return batch;
+					},
+					sadd(key: string) {
+						queued.push(`sadd ${key}`);
+						return batch;
+					},
+					async exec() {
+						return replies;
+					},
+				};
+				return batch;
+			},
+		} as Record<string, unknown>;
+		const ks = new RedisKeyStore(client);
+		const base = { prefix: "uk", createdAt: 1 };
+		await ks.createKeys([
+			{ ...base, id: "a", userId: "u1", keyHash: "ha" },
+			{ ...base, id: "b", userId: null, keyHash: "hb" },
+		]);
+		expect(queued).toEqual([
+			"hset usefulkey:key:a",
+			"set usefulkey:khash:ha",
+			"sadd usefulkey:user:u1",
+			"hset usefulkey:key:b",
+			"set usefulkey:khash:hb",
+		]);
+
+		replies = [
+			[null, 1],
+			[new Error("OOM"), null],
+		];
+		await expect(
+			ks.createKeys([{ ...base, id: "c", keyHash: "hc" }]),
+		).rejects.toThrow("OOM");
+	});
 });
@@ -11,6 +11,10 @@ type Row = {
 	metadata: string | null;
 	uses_remaining: number | null;
 	revoked_at: number | null;
+	secret_id: string | null;
+	hint: string | null;
+	tenant_id: string | null;
+	environment: string | null;
 };
 
 function makeDb(withExec: boolean) {
@@ -37,6 +41,10 @@ function makeDb(withExec: boolean) {
 							metadata,
 							uses_remaining,
 							revoked_at,
+							secret_id,
+							hint,
+							tenant_id,
+							environment,
 						] = args as any[];
 						const row: Row = {
 							id: String(id),
@@ -49,6 +57,10 @@ function makeDb(withExec: boolean) {
 							uses_remaining:
 								uses_remaining == null ? null : Number(uses_remaining),
 							revoked_at: revoked_at == null ? null : Number(revoked_at),
+							secret_id: secret_id == null ? null : String(secret_id),
+							hint: hint == null ? null : String(hint),
+							tenant_id: tenant_id == null ? null : String(tenant_id),
+							environment: environment == null ? null : String(environment),
 						};
 						byId.set(row.id, row);
 						byHash.set(row.key_hash, row.id);
@@ -63,6 +75,10 @@ function makeDb(withExec: boolean) {
 								metadata,
 								uses_remaining,
 								revoked_at,
+								secret_id,
+								hint,
+								tenant_id,
+								environment,
 								id,
 							] = args as any[];
 							const row = byId.get(String(id))!;
@@ -75,6 +91,11 @@ function makeDb(withExec: boolean) {
 							row.uses_remaining =
 								uses_remaining == null ? null : Number(uses_remaining);
 							row.revoked_at = revoked_at == null ? null : Number(revoked_at);
+							row.secret_id = secret_id == null ? null : String(secret_id);
+							row.hint = hint == null ? null : String(hint);
+							row.tenant_id = tenant_id == null ? null : String(tenant_id);
+							row.environment =
+								environment == null ? null : String(environment);
 							byHash.set(row.key_hash, row.id);
 						} else if (/SET revoked_at/.test(sql)) {
 							const [revoked_at, id] = args as any[];
@@ -186,4 +207,222 @@ describe("SqliteKeyStore adapter", () => {
 		const goneByHash = await ks.findKeyByHash("hdel");
 		expect(goneByHash).toBeNull();
 	});
+
+	it("listKeys pages by user id and reports the next cursor", async () => {
+		const calls: Array<{ sql: string; args: unknown[] }> = [];
+		const row = (id: string) => ({
+			id,
+			user_id: "u1",
+			prefix: "uk",
+			key_hash: `h_${id}`,
+			created_at: 1,
+			expires_at: null,
+			metadata: null,
+			uses_remaining: null,
+			revoked_at: null,
+		});
+		const db: any = {
+			exec: () => {},
+			prepare(sql: string) {
+				return {
+					run: () => ({}),
+					get: () => undefined,
+					all: (...args: unknown[]) => {
+						if (/^PRAGMA/.test(sql)) return [];
+						calls.push({ sql, args });
+						const limit = Number(args[args.length - 1]);
+						return [row("a"), row("b"), row("c")].slice(0, limit);
+					},
+				};
+			},
+		};
+		const ks = new SqliteKeyStore(db);
+
+		const page = await ks.listKeys({ userId: "u1", limit: 3 });
+		expect(page.items.map((r) => r.id)).toEqual(["a", "b", "c"]);
+		expect(page.nextCursor).toBeNull();
+
+		const withCursor = await ks.listKeys({
+			userId: "u1",
+			cursor: "a",
+			limit: 1,
+		});
+		expect(withCursor.nextCursor).toBe("a");
+		expect(calls[1].sql).toMatch(/WHERE user_id = \? AND id > \? ORDER BY id/);
+		expect(calls[1].args).toEqual(["u1", "a", 2]);
+	});
+
+	it("findKeys uses json_extract and json_each for metadata filters", async () => {
+		const calls: Array<{ sql: string; args: unknown[] }> = [];
+		const db: any = {
+			exec: () => {},
+			prepare(sql: string) {
+				return {
+					run: () => ({}),
+					get: () => undefined,
+					all: (...args: unknown[]) => {
+						calls.push({ sql, args });
+						return [];
+					},
+				};
+			},
+		};
+		const ks = new SqliteKeyStore(db);
+		await ks.findKeys({
+			metadata: { plan: "pro", beta: true, scopes: { contains: "admin" } },
+			revoked: true,
+			expired: true,
+			limit: 5,
+			now: 1000,
+		});
+		const { sql, args } = calls[0];
+		expect(sql).toContain("json_extract(metadata, ?) = ?");
+		expect(sql).toContain("EXISTS (SELECT 1 FROM json_each(metadata, ?)");
+		expect(sql).toContain("revoked_at IS NOT NULL");
+		expect(sql).toContain("(expires_at IS NOT NULL AND expires_at <= ?)");
+		expect(args).toEqual([
+			'$."plan"',
+			"pro",
+			'$."beta"',
+			1,
+			'$."scopes"',
+			'$."scopes"',
+			"admin",
+			1000,
+			6,
+		]);
+	});
+
+	it("listKeys and findKeys filter by tenant_id", async () => {
+		const calls: Array<{ sql: string; args: unknown[] }> = [];
+		const db: any = {
+			exec: (sql: string) => {
+				calls.push({ sql, args: [] });
+			},
+			prepare(sql: string) {
+				return {
+					run: () => ({}),
+					get: () => undefined,
+					all: (...args: unknown[]) => {
+						if (/^PRAGMA/.test(sql)) return [];
+						calls.push({ sql, args });
+						return [];
+					},
+				};
+			},
+		};
+		const ks = new SqliteKeyStore(db);
+		await ks.ready;
+		const ddl = calls.splice(0).map((call) => call.sql);
+		expect(ddl[0]).toContain("tenant_id TEXT");
+		expect(ddl[1]).toContain("(tenant_id)");
+
+		await ks.listKeys({ userId: "u1", tenantId: "t1", cursor: "a", limit: 2 });
+		expect(calls[0].sql).toMatch(
+			/WHERE user_id = \? AND tenant_id = \? AND id > \? ORDER BY id/,
+		);
+		expect(calls[0].args).toEqual(["u1", "t1", "a", 3]);
+
+		await ks.findKeys({ tenantId: "t1", revoked: false, limit: 5, now: 0 });
+		expect(calls[1].sql).toContain(
+			"WHERE tenant_id = ? AND revoked_at IS NULL",
+		);
+		expect(calls[1].args).toEqual(["t1", 6]);
+	});
+
+	it("createKeys inserts inside a transaction and rolls back on failure", async () => {
+		const { db, byId } = makeDb(true);
+		const statements: string[] = [];
+		const prepare = db.prepare.bind(db);
+		db.prepare = (sql: string) => {
+			statements.push(sql);
+			return prepare(sql);
+		};
+		const ks = new SqliteKeyStore(db);
+		await ks.ready;
+		const base = {
+			userId: "u1",
+			prefix: "uk",
+			createdAt: 1,
+			expiresAt: null,
+			metadata: {},
+			usesRemaining: null,
+			revokedAt: null,
+		};
+		await ks.createKeys([
+			{ ...base, id: "k1", keyHash: "h1" },
+			{ ...base, id: "k2", keyHash: "h2" },
+		]);
+		expect(byId.has("k1") && byId.has("k2")).toBe(true);
+		expect(statements).toContain("BEGIN");
+		expect(statements).toContain("COMMIT");
+
+		const failing = new SqliteKeyStore({
+			prepare(sql: string) {
+				statements.push(sql);
+				return {
+					run: () => {
+						if (/INSERT INTO/.test(sql)) throw new Error("constraint");
+						return {};
+					},
+					get: () => undefined,
+				};
+			},
+		});
+		await failing.ready;
+		await expect(
+			failing.createKeys([{ ...base, id: "k3", keyHash: "h3" }]),
+		).rejects.toThrow("constraint");
+		expect(statements[statements.length - 1]).toBe("ROLLBACK");
+
+		let wrapped = 0;
+		const withTransaction = makeDb(true).db;
+		withTransaction.transaction = (fn: () => void) => () => {
+			wrapped++;
+			fn();
+		};
+		await new SqliteKeyStore(withTransaction).createKeys([
+			{ ...base, id: "k4", keyHash: "h4" },
+		]);
+		expect(wrapped).toBe(1);
+	});
+
+	it("adds columns missing from an existing table before creating indexes", async () => {
+		const statements: string[] = [];
+		const columns = [
+			"id",
+			"user_id",
+			"prefix",
+			"key_hash",
+			"created_at",
+			"expires_at",
+			"metadata",
+			"uses_remaining",
+			"revoked_at",
+		];
+		const ks = new SqliteKeyStore({
+			prepare(sql: string) {
+				statements.push(sql);
+				return {
+					run: () => ({}),
+					get: () => undefined,
+					all: () =>
+						/PRAGMA table_info/.test(sql)
+							? columns.map((name) => ({ name }))
+							: [],
+				};
+			},
+		});
+		await ks.ready;
+
+		const alters = statements.filter((sql) => /^ALTER TABLE/.test(sql));
+		expect(alters).toEqual([
+			"ALTER TABLE usefulkey_keys ADD COLUMN secret_id TEXT",
+			"ALTER TABLE usefulkey_keys ADD COLUMN hint TEXT",
+			"ALTER TABLE usefulkey_keys ADD COLUMN tenant_id TEXT",
+			"ALTER TABLE usefulkey_keys ADD COLUMN environment TEXT",
+		]);
+		const firstIndex = statements.findIndex((sql) => /CREATE INDEX/.test(sql));
+		expect(statements.indexOf(alters[3])).toBeLessThan(firstIndex);
+	});
 });
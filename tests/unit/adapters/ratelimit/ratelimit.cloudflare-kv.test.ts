@@ -118,6 +118,38 @@ describe("CloudflareKvRateLimitStore", () => {
 		expect(kv["usefulkey:rl:ns:idbad"]).toMatch(/^\d+(?:\.\d+)?:\d+$/);
 	});
 
+	it("sliding window: stores windowStart:previous:current with a two-window TTL", async () => {
+		const kv: Record<string, string> = {};
+		const ttls: number[] = [];
+		const store = new CloudflareKvRateLimitStore({
+			async get(k: string) {
+				return kv[k] ?? null;
+			},
+			async put(k: string, v: string, opt?: { expirationTtl?: number }) {
+				kv[k] = v;
+				if (opt?.expirationTtl) ttls.push(opt.expirationTtl);
+			},
+		} as any);
+		const start = Date.now();
+		expect(await store.consumeSlidingWindow("ns", "sw", 2, 60_000)).toEqual({
+			success: true,
+			remaining: 1,
+			reset: start + 60_000,
+		});
+		await store.consumeSlidingWindow("ns", "sw", 2, 60_000);
+		expect(kv["usefulkey:rl:ns:id"]).toBeUndefined();
+		expect(kv["usefulkey:rl:ns:sw:sw"]).toBe(`${start}:0:2`);
+		expect(ttls).toEqual([120, 120]);
+
+		const blocked = await store.consumeSlidingWindow("ns", "sw", 2, 60_000);
+		expect(blocked.success).toBe(false);
+
+		await vi.advanceTimersByTimeAsync(90_000);
+		const next = await store.consumeSlidingWindow("ns", "sw", 2, 60_000);
+		expect(next).toMatchObject({ success: true, remaining: 0 });
+		expect(kv["usefulkey:rl:ns:sw:sw"]).toBe(`${start + 60_000}:2:1`);
+	});
+
 	it("reset: uses delete when available and falls back to short TTL otherwise", async () => {
 		const kv1: any = {
 			store: {} as Record<string, string>,
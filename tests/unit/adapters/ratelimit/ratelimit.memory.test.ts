@@ -1,5 +1,6 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { MemoryRateLimitStore } from "../../../../src";
+import { now } from "../../../../src/utils/time";
 
 describe("MemoryRateLimitStore", () => {
 	beforeEach(() => {
@@ -87,6 +88,124 @@ describe("MemoryRateLimitStore", () => {
 		expect(d.success).toBe(true);
 	});
 
+	it("sliding window: weighs the previous window so boundary bursts stay limited", async () => {
+		const rl = new MemoryRateLimitStore();
+		const ns = "svc",
+			id = "sw";
+		const dur = 1000;
+		for (let i = 0; i < 4; i++) {
+			expect((await rl.consumeSlidingWindow(ns, id, 4, dur)).success).toBe(
+				true,
+			);
+		}
+		const blocked = await rl.consumeSlidingWindow(ns, id, 4, dur);
+		expect(blocked).toEqual({
+			success: false,
+			remaining: 0,
+			reset: now() + dur,
+		});
+
+		// At the boundary the previous window still counts in full.
+		await vi.advanceTimersByTimeAsync(dur);
+		expect((await rl.consumeSlidingWindow(ns, id, 4, dur)).success).toBe(false);
+
+		// Halfway through, half of it has slid out.
+		await vi.advanceTimersByTimeAsync(dur / 2);
+		const a = await rl.consumeSlidingWindow(ns, id, 4, dur);
+		expect(a).toMatchObject({ success: true, remaining: 1 });
+		expect((await rl.consumeSlidingWindow(ns, id, 4, dur)).success).toBe(true);
+		expect((await rl.consumeSlidingWindow(ns, id, 4, dur)).success).toBe(false);
+
+		await rl.reset(ns, id);
+		expect((await rl.consumeSlidingWindow(ns, id, 4, dur)).remaining).toBe(3);
+	});
+
+	it("gcra: allows the burst, then spaces requests one interval apart", async () => {
+		const rl = new MemoryRateLimitStore();
+		const ns = "svc",
+			id = "gcra";
+		const start = now();
+		const results = [];
+		for (let i = 0; i < 3; i++) {
+			results.push(await rl.consumeGcra(ns, id, 2, 1000, 3));
+		}
+		expect(results.map((r) => r.remaining)).toEqual([2, 1, 0]);
+		expect(results.every((r) => r.success)).toBe(true);
+
+		// The next slot opens exactly one emission interval (500ms) later.
+		const blocked = await rl.consumeGcra(ns, id, 2, 1000, 3);
+		expect(blocked).toEqual({
+			success: false,
+			remaining: 0,
+			reset: start + 500,
+		});
+		await vi.advanceTimersByTimeAsync(499);
+		expect((await rl.consumeGcra(ns, id, 2, 1000, 3)).success).toBe(false);
+		await vi.advanceTimersByTimeAsync(1);
+		expect(await rl.consumeGcra(ns, id, 2, 1000, 3)).toEqual({
+			success: true,
+			remaining: 0,
+			reset: start + 2000,
+		});
+
+		await rl.reset(ns, id);
+		expect((await rl.consumeGcra(ns, id, 2, 1000, 3)).remaining).toBe(2);
+	});
+
+	it("leases: caps concurrent holders until released or expired", async () => {
+		const rl = new MemoryRateLimitStore();
+		const ns = "svc",
+			id = "jobs";
+		const start = now();
+		expect(await rl.acquireLease(ns, id, "a", 2, 1000)).toEqual({
+			success: true,
+			remaining: 1,
+			reset: start + 1000,
+		});
+		await vi.advanceTimersByTimeAsync(100);
+		expect((await rl.acquireLease(ns, id, "b", 2, 1000)).remaining).toBe(0);
+		expect(await rl.acquireLease(ns, id, "c", 2, 1000)).toEqual({
+			success: false,
+			remaining: 0,
+			reset: start + 1000,
+		});
+
+		await rl.releaseLease(ns, id, "a");
+		expect((await rl.acquireLease(ns, id, "c", 2, 1000)).success).toBe(true);
+
+		await vi.advanceTimersByTimeAsync(1100);
+		expect((await rl.acquireLease(ns, id, "d", 2, 1000)).remaining).toBe(1);
+	});
+
+	it("refund: gives back one request for each kind of limit", async () => {
+		const rl = new MemoryRateLimitStore();
+		const ns = "svc",
+			id = "r";
+		await rl.incrementAndCheck(ns, id, 2, 10_000);
+		await rl.incrementAndCheck(ns, id, 2, 10_000);
+		await rl.refund(ns, id, { kind: "fixed" });
+		expect((await rl.incrementAndCheck(ns, id, 2, 10_000)).success).toBe(true);
+
+		const consumedAt = now();
+		await rl.consumeSlidingWindow(ns, id, 1, 1000);
+		await rl.refund(ns, id, {
+			kind: "slidingWindow",
+			durationMs: 1000,
+			consumedAt,
+		});
+		expect((await rl.consumeSlidingWindow(ns, id, 1, 1000)).success).toBe(true);
+
+		await rl.consumeTokenBucket(ns, "b", 1, 1, 60_000, 1);
+		await rl.refund(ns, "b", { kind: "tokenBucket", capacity: 1, cost: 1 });
+		expect(
+			(await rl.consumeTokenBucket(ns, "b", 1, 1, 60_000, 1)).success,
+		).toBe(true);
+
+		await rl.consumeGcra(ns, id, 1, 1000, 1);
+		await rl.refund(ns, id, { kind: "gcra", rate: 1, periodMs: 1000 });
+		expect((await rl.consumeGcra(ns, id, 1, 1000, 1)).success).toBe(true);
+	});
+
 	it("reset clears both window and bucket state", async () => {
 		const rl = new MemoryRateLimitStore();
 		const ns = "svc",
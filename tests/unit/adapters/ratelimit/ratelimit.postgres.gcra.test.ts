@@ -0,0 +1,51 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { PostgresRateLimitStore } from "../../../../src";
+
+describe("PostgresRateLimitStore gcra", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+	});
+
+	it("decides in one conditional upsert and reads the arrival time only when blocked", async () => {
+		const arrivals = new Map<string, number>();
+		const statements: string[] = [];
+		const client = {
+			async query(text: string, values?: unknown[]) {
+				if (/INSERT INTO uk_rl_gcra/.test(text)) {
+					statements.push("upsert");
+					const [ns, id, now, interval, tolerance] = values as any[];
+					const k = `${ns}:${id}`;
+					const stored = arrivals.get(k);
+					const tat = Math.max(stored ?? now, now) + interval;
+					if (stored !== undefined && tat - tolerance > now) {
+						return { rows: [] } as any;
+					}
+					arrivals.set(k, tat);
+					return { rows: [{ tat }] } as any;
+				}
+				if (/SELECT tat FROM uk_rl_gcra/.test(text)) {
+					statements.push("select");
+					const [ns, id] = values as [string, string];
+					const tat = arrivals.get(`${ns}:${id}`);
+					return { rows: tat === undefined ? [] : [{ tat }] } as any;
+				}
+				return { rows: [], rowCount: 0 } as any;
+			},
+		} as any;
+		const store = new PostgresRateLimitStore(client, { tableName: "uk_rl" });
+		await store.ready;
+		const start = Date.now();
+
+		const a = await store.consumeGcra("svc", "id", 1, 60_000, 1);
+		expect(a).toEqual({ success: true, remaining: 0, reset: start + 60_000 });
+		const b = await store.consumeGcra("svc", "id", 1, 60_000, 1);
+		expect(b).toEqual({ success: false, remaining: 0, reset: start + 60_000 });
+		expect(statements).toEqual(["upsert", "upsert", "select"]);
+
+		await vi.advanceTimersByTimeAsync(60_000);
+		expect((await store.consumeGcra("svc", "id", 1, 60_000, 1)).success).toBe(
+			true,
+		);
+	});
+});
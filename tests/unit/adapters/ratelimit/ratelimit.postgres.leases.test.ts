@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { PostgresRateLimitStore } from "../../../../src";
+
+describe("PostgresRateLimitStore leases", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+	});
+
+	// Emulates the slot upsert: the lowest slot without an unexpired lease.
+	function makeClient() {
+		const slots: Array<{
+			namespace: string;
+			identifier: string;
+			slot: number;
+			leaseId: string;
+			expiresAt: number;
+		}> = [];
+		const client = {
+			async query(text: string, values?: unknown[]) {
+				if (/INSERT INTO uk_rl_leases/.test(text)) {
+					const [ns, id, leaseId, expiresAt, limit, now] = values as any[];
+					for (let slot = 0; slot < limit; slot++) {
+						const idx = slots.findIndex(
+							(r) =>
+								r.namespace === ns && r.identifier === id && r.slot === slot,
+						);
+						if (idx >= 0 && slots[idx].expiresAt > now) continue;
+						const row = {
+							namespace: ns,
+							identifier: id,
+							slot,
+							leaseId,
+							expiresAt,
+						};
+						if (idx >= 0) slots[idx] = row;
+						else slots.push(row);
+						return { rows: [{ slot }] } as any;
+					}
+					return { rows: [] } as any;
+				}
+				if (/SELECT COUNT\(\*\) AS count/.test(text)) {
+					const [ns, id, limit, now] = values as any[];
+					const live = slots.filter(
+						(r) =>
+							r.namespace === ns &&
+							r.identifier === id &&
+							r.slot < limit &&
+							r.expiresAt > now,
+					);
+					const earliest = live.length
+						? Math.min(...live.map((r) => r.expiresAt))
+						: null;
+					return { rows: [{ count: String(live.length), earliest }] } as any;
+				}
+				if (/DELETE FROM uk_rl_leases WHERE .* leaseId/.test(text)) {
+					const [ns, id, leaseId] = values as any[];
+					const idx = slots.findIndex(
+						(r) =>
+							r.namespace === ns &&
+							r.identifier === id &&
+							r.leaseId === leaseId,
+					);
+					if (idx >= 0) slots.splice(idx, 1);
+					return { rows: [], rowCount: 1 } as any;
+				}
+				return { rows: [], rowCount: 0 } as any;
+			},
+		} as any;
+		return { client, slots };
+	}
+
+	it("fills slots up to the limit, reports the oldest expiry and reuses freed slots", async () => {
+		const { client, slots } = makeClient();
+		const store = new PostgresRateLimitStore(client, { tableName: "uk_rl" });
+		await store.ready;
+		const start = Date.now();
+
+		expect(await store.acquireLease("svc", "id", "a", 2, 10_000)).toEqual({
+			success: true,
+			remaining: 1,
+			reset: start + 10_000,
+		});
+		await vi.advanceTimersByTimeAsync(1000);
+		expect(
+			(await store.acquireLease("svc", "id", "b", 2, 10_000)).remaining,
+		).toBe(0);
+		expect(await store.acquireLease("svc", "id", "c", 2, 10_000)).toEqual({
+			success: false,
+			remaining: 0,
+			reset: start + 10_000,
+		});
+
+		await store.releaseLease("svc", "id", "a");
+		expect(
+			(await store.acquireLease("svc", "id", "c", 2, 10_000)).success,
+		).toBe(true);
+		expect(slots.map((r) => [r.slot, r.leaseId])).toEqual([
+			[1, "b"],
+			[0, "c"],
+		]);
+	});
+});
@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { PostgresRateLimitStore } from "../../../../src";
+
+describe("PostgresRateLimitStore sliding window", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+	});
+
+	it("persists both windows and forgets the previous one after a gap", async () => {
+		const rows: any[] = [];
+		const queries: string[] = [];
+		// Mirrors the conditional upsert: roll the windows forward, then only
+		// count the request when it fits.
+		const client = {
+			async query(text: string, values?: unknown[]) {
+				if (!/uk_rl_sliding/.test(text) || /CREATE/.test(text)) {
+					return { rows: [], rowCount: 0 } as any;
+				}
+				queries.push(text);
+				const [ns, id, windowStart, durationMs, weight, limit] =
+					values as any[];
+				const found = rows.find(
+					(r) => r.namespace === ns && r.identifier === id,
+				);
+				let previous = 0;
+				let current = 0;
+				if (found?.windowStart === windowStart) {
+					previous = found.previousCount;
+					current = found.currentCount;
+				} else if (found?.windowStart === windowStart - durationMs) {
+					previous = found.currentCount;
+				}
+				if (found && previous * weight + current + 1 > limit) {
+					return { rows: [], rowCount: 0 } as any;
+				}
+				const row = {
+					namespace: ns,
+					identifier: id,
+					windowStart,
+					previousCount: previous,
+					currentCount: current + 1,
+				};
+				if (found) Object.assign(found, row);
+				else rows.push(row);
+				return { rows: [row], rowCount: 1 } as any;
+			},
+		} as any;
+		const store = new PostgresRateLimitStore(client, { tableName: "uk_rl" });
+		const start = Date.now();
+
+		for (let i = 0; i < 3; i++) {
+			expect(
+				(await store.consumeSlidingWindow("svc", "id", 3, 1000)).success,
+			).toBe(true);
+		}
+		expect(
+			(await store.consumeSlidingWindow("svc", "id", 3, 1000)).success,
+		).toBe(false);
+
+		await vi.advanceTimersByTimeAsync(1000);
+		expect(
+			(await store.consumeSlidingWindow("svc", "id", 3, 1000)).success,
+		).toBe(false);
+
+		await vi.advanceTimersByTimeAsync(1000);
+		const fresh = await store.consumeSlidingWindow("svc", "id", 3, 1000);
+		expect(fresh).toEqual({ success: true, remaining: 2, reset: start + 3000 });
+		// One statement per request, with no separate read to race on.
+		expect(queries).toHaveLength(6);
+		expect(queries.every((q) => /^INSERT .* RETURNING/s.test(q))).toBe(true);
+		expect(rows[0]).toMatchObject({
+			windowStart: start + 2000,
+			previousCount: 0,
+			currentCount: 1,
+		});
+	});
+});
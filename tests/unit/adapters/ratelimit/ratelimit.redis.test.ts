@@ -166,6 +166,172 @@ describe("RedisRateLimitStore", () => {
 		expect(c.success).toBe(false);
 	});
 
+	it("sliding window via eval: passes limit, window and now for its own key", async () => {
+		const calls: unknown[][] = [];
+		const client = {
+			async eval(...args: unknown[]) {
+				calls.push(args);
+				return [0, 0, 1234];
+			},
+		} as any;
+		const store = new RedisRateLimitStore(client);
+		const r = await store.consumeSlidingWindow("ns", "id", 5, 60_000);
+		expect(r).toEqual({ success: false, remaining: 0, reset: 1234 });
+		expect(calls[0].slice(1)).toEqual([
+			1,
+			"usefulkey:rl:ns:id:sw",
+			"5",
+			"60000",
+			String(nowFn()),
+		]);
+	});
+
+	it("sliding window fallback via get/set carries the previous window over", async () => {
+		const store: Record<string, string> = {};
+		const client = {
+			async get(k: string) {
+				return store[k] ?? null;
+			},
+			async set(k: string, v: string, opt: string, px: number) {
+				expect(opt).toBe("PX");
+				expect(px).toBe(2000);
+				store[k] = v;
+			},
+		} as any;
+		const s = new RedisRateLimitStore(client);
+		const start = nowFn();
+		expect((await s.consumeSlidingWindow("ns", "sw", 2, 1000)).success).toBe(
+			true,
+		);
+		expect((await s.consumeSlidingWindow("ns", "sw", 2, 1000)).success).toBe(
+			true,
+		);
+		expect((await s.consumeSlidingWindow("ns", "sw", 2, 1000)).success).toBe(
+			false,
+		);
+		expect(store["usefulkey:rl:ns:sw:sw"]).toBe(`${start}:0:2`);
+
+		await vi.advanceTimersByTimeAsync(1500);
+		const next = await s.consumeSlidingWindow("ns", "sw", 2, 1000);
+		expect(next).toEqual({ success: true, remaining: 0, reset: start + 2000 });
+		expect(store["usefulkey:rl:ns:sw:sw"]).toBe(`${start + 1000}:2:1`);
+	});
+
+	it("gcra via eval: passes the emission interval and burst tolerance", async () => {
+		const calls: unknown[][] = [];
+		const client = {
+			async eval(...args: unknown[]) {
+				calls.push(args);
+				return [1, 3, 5000];
+			},
+		} as any;
+		const store = new RedisRateLimitStore(client);
+		const r = await store.consumeGcra("ns", "id", 4, 1000, 5);
+		expect(r).toEqual({ success: true, remaining: 3, reset: 5000 });
+		expect(calls[0].slice(1)).toEqual([
+			1,
+			"usefulkey:rl:ns:id:gcra",
+			"250",
+			"1250",
+			String(nowFn()),
+		]);
+	});
+
+	it("gcra fallback via get/set stores only the arrival time", async () => {
+		const store: Record<string, string> = {};
+		const ttls: number[] = [];
+		const client = {
+			async get(k: string) {
+				return store[k] ?? null;
+			},
+			async set(k: string, v: string, _opt: string, px: number) {
+				store[k] = v;
+				ttls.push(px);
+			},
+		} as any;
+		const s = new RedisRateLimitStore(client);
+		const start = nowFn();
+		expect((await s.consumeGcra("ns", "g", 1, 1000, 2)).remaining).toBe(1);
+		expect((await s.consumeGcra("ns", "g", 1, 1000, 2)).remaining).toBe(0);
+		const blocked = await s.consumeGcra("ns", "g", 1, 1000, 2);
+		expect(blocked).toEqual({
+			success: false,
+			remaining: 0,
+			reset: start + 1000,
+		});
+		expect(store["usefulkey:rl:ns:g:gcra"]).toBe(String(start + 2000));
+		expect(ttls).toEqual([1000, 2000]);
+	});
+
+	it("leases via eval use a sorted set and release with zRem", async () => {
+		const calls: unknown[][] = [];
+		const removed: unknown[][] = [];
+		const client = {
+			async eval(...args: unknown[]) {
+				calls.push(args);
+				return [1, 4, 9000];
+			},
+			async zRem(...args: unknown[]) {
+				removed.push(args);
+			},
+		} as any;
+		const store = new RedisRateLimitStore(client);
+		const r = await store.acquireLease("ns", "id", "lease-1", 5, 30_000);
+		expect(r).toEqual({ success: true, remaining: 4, reset: 9000 });
+		expect(calls[0][0]).toContain("ZREMRANGEBYSCORE");
+		expect(calls[0].slice(1)).toEqual([
+			1,
+			"usefulkey:rl:ns:id:leases",
+			"lease-1",
+			"5",
+			"30000",
+			String(nowFn()),
+		]);
+
+		await store.releaseLease("ns", "id", "lease-1");
+		expect(removed).toEqual([["usefulkey:rl:ns:id:leases", "lease-1"]]);
+	});
+
+	it("refunds via eval target each limit's own key", async () => {
+		const calls: unknown[][] = [];
+		const client = {
+			async eval(...args: unknown[]) {
+				calls.push(args);
+				return 1;
+			},
+		} as any;
+		const store = new RedisRateLimitStore(client);
+		await store.refund("ns", "id", { kind: "fixed" });
+		await store.refund("ns", "id", {
+			kind: "slidingWindow",
+			durationMs: 1000,
+			consumedAt: 2500,
+		});
+		await store.refund("ns", "id", {
+			kind: "tokenBucket",
+			capacity: 10,
+			cost: 2,
+		});
+		await store.refund("ns", "id", { kind: "gcra", rate: 4, periodMs: 1000 });
+		expect(calls.map((c) => c.slice(1))).toEqual([
+			[1, "usefulkey:rl:ns:id"],
+			[1, "usefulkey:rl:ns:id:sw", "2000", "1000"],
+			[1, "usefulkey:rl:ns:id", "10", "2"],
+			[1, "usefulkey:rl:ns:id:gcra", "250", String(nowFn())],
+		]);
+
+		await expect(
+			new RedisRateLimitStore({} as any).refund("ns", "id", { kind: "fixed" }),
+		).rejects.toThrow(/eval for refunds/);
+	});
+
+	it("leases require eval", async () => {
+		const store = new RedisRateLimitStore({} as any);
+		await expect(store.acquireLease("ns", "id", "l", 1, 1000)).rejects.toThrow(
+			/eval for concurrency leases/,
+		);
+	});
+
 	it("check allows when get missing or value missing/NaN", async () => {
 		const clientA = {} as any;
 		const sA = new RedisRateLimitStore(clientA);
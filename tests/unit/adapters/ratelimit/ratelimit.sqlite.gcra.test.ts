@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { SqliteRateLimitStore } from "../../../../src";
+
+describe("SqliteRateLimitStore gcra", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+	});
+
+	// Emulates the conditional upsert: insert, or update only when the
+	// request fits, returning the new arrival time when it was written.
+	function makeDb() {
+		const arrivals = new Map<string, number>();
+		return {
+			arrivals,
+			exec(_sql: string) {},
+			prepare(sql: string) {
+				return {
+					run: (...args: any[]) => {
+						if (/DELETE FROM uk_rl_gcra/.test(sql)) {
+							arrivals.delete(`${args[0]}:${args[1]}`);
+						}
+					},
+					get: (...args: any[]) => {
+						const k = `${args[0]}:${args[1]}`;
+						if (/INSERT INTO uk_rl_gcra/.test(sql)) {
+							const [, , first, now, interval, , , tolerance] = args;
+							const stored = arrivals.get(k);
+							if (stored === undefined) {
+								arrivals.set(k, first);
+								return { tat: first };
+							}
+							const tat = Math.max(stored, now) + interval;
+							if (tat - tolerance > now) return undefined;
+							arrivals.set(k, tat);
+							return { tat };
+						}
+						if (/SELECT tat FROM uk_rl_gcra/.test(sql)) {
+							const tat = arrivals.get(k);
+							return tat === undefined ? undefined : { tat };
+						}
+						return undefined;
+					},
+				} as any;
+			},
+		};
+	}
+
+	it("allows the burst, then reports the exact time of the next slot", async () => {
+		const db = makeDb();
+		const store = new SqliteRateLimitStore(db, { tableName: "uk_rl" });
+		const start = Date.now();
+
+		expect(await store.consumeGcra("svc", "id", 10, 1000, 2)).toEqual({
+			success: true,
+			remaining: 1,
+			reset: start + 100,
+		});
+		expect((await store.consumeGcra("svc", "id", 10, 1000, 2)).remaining).toBe(
+			0,
+		);
+		const blocked = await store.consumeGcra("svc", "id", 10, 1000, 2);
+		expect(blocked).toEqual({
+			success: false,
+			remaining: 0,
+			reset: start + 100,
+		});
+
+		await vi.advanceTimersByTimeAsync(100);
+		expect((await store.consumeGcra("svc", "id", 10, 1000, 2)).success).toBe(
+			true,
+		);
+
+		await store.reset("svc", "id");
+		expect(db.arrivals.size).toBe(0);
+	});
+});
@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { SqliteRateLimitStore } from "../../../../src";
+
+describe("SqliteRateLimitStore sliding window", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+	});
+
+	function makeDb() {
+		const rows: any[] = [];
+		return {
+			rows,
+			exec(_sql: string) {},
+			prepare(sql: string) {
+				const find = (ns: string, id: string) =>
+					rows.findIndex((r) => r.namespace === ns && r.identifier === id);
+				return {
+					run: (...args: any[]) => {
+						if (/INSERT INTO uk_rl_sliding/.test(sql)) {
+							const row = {
+								namespace: args[0],
+								identifier: args[1],
+								windowStart: args[2],
+								previousCount: args[3],
+								currentCount: args[4],
+							};
+							const idx = find(args[0], args[1]);
+							if (idx >= 0) rows[idx] = row;
+							else rows.push(row);
+						}
+						if (/DELETE FROM uk_rl_sliding/.test(sql)) {
+							const idx = find(args[0], args[1]);
+							if (idx >= 0) rows.splice(idx, 1);
+						}
+					},
+					get: (...args: any[]) => {
+						if (/FROM uk_rl_sliding/.test(sql)) {
+							return rows[find(args[0], args[1])];
+						}
+						return undefined;
+					},
+				} as any;
+			},
+		};
+	}
+
+	it("blocks over the limit and weighs the previous window as it slides out", async () => {
+		const db = makeDb();
+		const store = new SqliteRateLimitStore(db, { tableName: "uk_rl" });
+		const start = Date.now();
+
+		const r1 = await store.consumeSlidingWindow("svc", "id", 2, 1000);
+		expect(r1).toEqual({ success: true, remaining: 1, reset: start + 1000 });
+		expect(
+			(await store.consumeSlidingWindow("svc", "id", 2, 1000)).success,
+		).toBe(true);
+		const r3 = await store.consumeSlidingWindow("svc", "id", 2, 1000);
+		expect(r3).toEqual({ success: false, remaining: 0, reset: start + 1000 });
+		expect(db.rows[0]).toMatchObject({ windowStart: start, currentCount: 2 });
+
+		await vi.advanceTimersByTimeAsync(1500);
+		const r4 = await store.consumeSlidingWindow("svc", "id", 2, 1000);
+		expect(r4).toEqual({ success: true, remaining: 0, reset: start + 2000 });
+		expect(db.rows[0]).toMatchObject({
+			windowStart: start + 1000,
+			previousCount: 2,
+			currentCount: 1,
+		});
+
+		await store.reset("svc", "id");
+		expect(db.rows).toHaveLength(0);
+	});
+});
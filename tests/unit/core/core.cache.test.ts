@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from "vitest";
+import { MemoryKeyStore, NoopAnalytics, usefulkey } from "../../../src";
+import { enableDisable } from "../../../src/plugins/enable-disable";
+import { usageLimitsPerKey } from "../../../src/plugins/usage-limits-per-key";
+
+class RecordingAnalytics extends NoopAnalytics {
+	events: Array<{ event: string; payload: Record<string, unknown> }> = [];
+	async track(event: string, payload: Record<string, unknown>): Promise<void> {
+		this.events.push({ event, payload });
+	}
+}
+
+describe("UsefulKey cache option", () => {
+	function setup() {
+		const keyStore = new MemoryKeyStore();
+		const spy = vi.spyOn(keyStore, "findKeyByHash");
+		const analytics = new RecordingAnalytics();
+		const uk = usefulkey(
+			{ adapters: { keyStore, analytics }, cache: { ttl: "1m" } },
+			{ plugins: [enableDisable(), usageLimitsPerKey()] },
+		);
+		return { uk, spy, analytics };
+	}
+
+	it("serves repeated verifications from the cache and tracks hits and misses", async () => {
+		const { uk, spy, analytics } = setup();
+		const created = await uk.createKey();
+		const key = created.result?.key as string;
+
+		await uk.verifyKey({ key });
+		await uk.verifyKey({ key });
+		await uk.verifyKey({ key: "uk_unknown" });
+		await uk.verifyKey({ key: "uk_unknown" });
+		expect(spy).toHaveBeenCalledTimes(2);
+
+		const cacheEvents = analytics.events
+			.filter((e) => e.event.startsWith("key_cache."))
+			.map((e) => `${e.event}:${e.payload.negative ?? "-"}`);
+		expect(cacheEvents).toEqual([
+			"key_cache.miss:-",
+			"key_cache.hit:false",
+			"key_cache.miss:-",
+			"key_cache.hit:true",
+		]);
+	});
+
+	it("sees revocations, updates and plugin mutations immediately", async () => {
+		const { uk } = setup();
+		const created = await uk.createKey();
+		const id = created.result?.id as string;
+		const key = created.result?.key as string;
+		expect((await uk.verifyKey({ key })).result?.valid).toBe(true);
+
+		await uk.disableKey(id);
+		expect((await uk.verifyKey({ key })).result?.reason).toBe("disabled");
+		await uk.enableKey(id);
+		expect((await uk.verifyKey({ key })).result?.valid).toBe(true);
+
+		await uk.setUsesRemaining(id, 0);
+		expect((await uk.verifyKey({ key })).result?.valid).toBe(false);
+		await uk.clearUsageLimit(id);
+
+		await uk.updateKey(id, { expiresAt: Date.now() - 1 });
+		expect((await uk.verifyKey({ key })).result?.reason).toBe("expired");
+		await uk.updateKey(id, { expiresAt: null });
+
+		await uk.revokeKey(id);
+		expect((await uk.verifyKey({ key })).result?.reason).toBe("revoked");
+	});
+
+	it("is off by default", () => {
+		const keyStore = new MemoryKeyStore();
+		const uk = usefulkey({ adapters: { keyStore } });
+		expect(uk.keyStore).toBe(keyStore);
+	});
+});
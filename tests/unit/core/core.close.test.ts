@@ -0,0 +1,134 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+	ClickHouseAnalytics,
+	ErrorCodes,
+	MemoryKeyStore,
+	MemoryRateLimitStore,
+	NoopAnalytics,
+	usefulkey,
+} from "../../../src";
+import type { UsefulKeyPluginHooks } from "../../../src/types/plugins";
+
+describe("UsefulKey close and flush", () => {
+	it("tears down plugins, closes adapters and rejects further calls", async () => {
+		const calls: string[] = [];
+		const keyStore = Object.assign(new MemoryKeyStore(), {
+			async close() {
+				calls.push("keyStore.close");
+			},
+		});
+		const rateLimitStore = Object.assign(new MemoryRateLimitStore(), {
+			async flush() {
+				calls.push("rateLimitStore.flush");
+			},
+		});
+		const analytics = Object.assign(new NoopAnalytics(), {
+			async close() {
+				calls.push("analytics.close");
+			},
+		});
+		const plugin = (): UsefulKeyPluginHooks => ({
+			name: "queue",
+			async teardown() {
+				calls.push("plugin.teardown");
+			},
+		});
+		const uk = usefulkey(
+			{ adapters: { keyStore, rateLimitStore, analytics } },
+			{ plugins: [plugin] },
+		);
+		const created = await uk.createKey();
+
+		const closed = await uk.close();
+		expect(closed.error).toBeFalsy();
+		expect(calls).toEqual([
+			"plugin.teardown",
+			"analytics.close",
+			"keyStore.close",
+			"rateLimitStore.flush",
+		]);
+
+		const v = await uk.verifyKey({ key: created.result?.key as string });
+		expect(v.error?.code).toBe(ErrorCodes.INSTANCE_CLOSED);
+		expect(v.error?.meta).toEqual({ op: "verifyKey" });
+		expect((await uk.createKey()).error?.code).toBe(ErrorCodes.INSTANCE_CLOSED);
+		expect((await uk.flush()).error?.code).toBe(ErrorCodes.INSTANCE_CLOSED);
+
+		expect(await uk.close()).toBe(closed);
+		expect(calls).toHaveLength(4);
+	});
+
+	it("awaits analytics still in flight before closing adapters", async () => {
+		const order: string[] = [];
+		let release!: () => void;
+		const gate = new Promise<void>((resolve) => {
+			release = resolve;
+		});
+		let tracking!: () => void;
+		const started = new Promise<void>((resolve) => {
+			tracking = resolve;
+		});
+		const analytics = {
+			async track(event: string) {
+				if (event !== "key.created") return;
+				tracking();
+				await gate;
+				order.push("tracked");
+			},
+			async close() {
+				order.push("closed");
+			},
+		};
+		const uk = usefulkey({ adapters: { analytics } });
+		const creating = uk.createKey();
+		await started;
+
+		const closing = uk.close();
+		release();
+		await Promise.all([creating, closing]);
+		expect(order).toEqual(["tracked", "closed"]);
+	});
+
+	it("flushes the ClickHouse queue on flush and stops its timer on close", async () => {
+		const inserts: unknown[] = [];
+		const analytics = new ClickHouseAnalytics({
+			url: "http://localhost:8123",
+			client: {
+				async insert(args) {
+					inserts.push(...(args.values as unknown[]));
+				},
+			},
+			flushIntervalMs: 60_000,
+		});
+		const uk = usefulkey({ adapters: { analytics } });
+		await uk.ready;
+		await uk.createKey();
+		expect(inserts).toHaveLength(0);
+
+		expect((await uk.flush()).error).toBeFalsy();
+		expect(inserts).toHaveLength(1);
+
+		await uk.createKey();
+		expect((await uk.close()).error).toBeFalsy();
+		expect(inserts).toHaveLength(2);
+	});
+
+	it("reports adapter failures after attempting every adapter", async () => {
+		const keyStore = Object.assign(new MemoryKeyStore(), {
+			async close() {
+				throw new Error("pool already ended");
+			},
+		});
+		const closedAnalytics = vi.fn(async () => {});
+		const analytics = Object.assign(new NoopAnalytics(), {
+			close: closedAnalytics,
+		});
+		const spy = vi.spyOn(console, "error").mockImplementation(() => {});
+		const uk = usefulkey({ adapters: { keyStore, analytics } });
+		const res = await uk.close();
+		expect(res.error?.message).toBe("pool already ended");
+		expect(res.error?.meta).toEqual({ op: "close" });
+		expect(closedAnalytics).toHaveBeenCalledTimes(1);
+		spy.mockRestore();
+	});
+});
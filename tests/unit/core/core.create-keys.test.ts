@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import {
+	ErrorCodes,
+	type KeyRecord,
+	MemoryKeyStore,
+	NoopAnalytics,
+	usefulkey,
+} from "../../../src";
+import { MAX_BATCH_SIZE } from "../../../src/core/constants";
+import type { UsefulKeyPluginHooks } from "../../../src/types/plugins";
+
+class BatchMemoryKeyStore extends MemoryKeyStore {
+	batches: number[] = [];
+	failBatch = false;
+	async createKeys(records: KeyRecord[]): Promise<void> {
+		this.batches.push(records.length);
+		if (this.failBatch) throw new Error("batch failed");
+		for (const record of records) await this.createKey(record);
+	}
+}
+
+describe("UsefulKey createKeys", () => {
+	it("returns one result per input in order and runs hooks per item", async () => {
+		const calls: string[] = [];
+		const plugin = (): UsefulKeyPluginHooks => ({
+			name: "gate",
+			async beforeCreateKey(_ctx, { input }) {
+				calls.push(`before:${input.id}`);
+				if (input.metadata?.blocked) return { reject: true, reason: "nope" };
+			},
+			async onKeyCreated(_ctx, { record }) {
+				calls.push(`created:${record.id}`);
+			},
+		});
+		const keyStore = new BatchMemoryKeyStore();
+		const uk = usefulkey(
+			{ adapters: { keyStore, analytics: new NoopAnalytics() } },
+			{ plugins: [plugin] },
+		);
+
+		const res = await uk.createKeys([
+			{ id: "a", userId: "u1" },
+			{ id: "b", metadata: { blocked: true } },
+			{ id: "c", userId: "u2" },
+		]);
+		expect(res.error).toBeFalsy();
+		const items = res.result ?? [];
+		expect(items).toHaveLength(3);
+		expect(items[0].result?.id).toBe("a");
+		expect(items[1].error?.code).toBe("nope");
+		expect(items[2].result?.id).toBe("c");
+		expect(keyStore.batches).toEqual([2]);
+		expect(calls).toEqual([
+			"before:a",
+			"before:b",
+			"before:c",
+			"created:a",
+			"created:c",
+		]);
+
+		const v = await uk.verifyKey({ key: items[2].result?.key as string });
+		expect(v.result).toMatchObject({ valid: true, keyId: "c", userId: "u2" });
+	});
+
+	it("writes in chunks of MAX_BATCH_SIZE", async () => {
+		const keyStore = new BatchMemoryKeyStore();
+		const uk = usefulkey({
+			adapters: { keyStore, analytics: new NoopAnalytics() },
+		});
+		const inputs = Array.from({ length: MAX_BATCH_SIZE + 5 }, () => ({}));
+		const res = await uk.createKeys(inputs);
+		expect(res.result).toHaveLength(MAX_BATCH_SIZE + 5);
+		expect(res.result?.every((r) => r.result)).toBe(true);
+		expect(keyStore.batches).toEqual([MAX_BATCH_SIZE, 5]);
+	});
+
+	it("fails every item of a chunk when the batch write fails", async () => {
+		const keyStore = new BatchMemoryKeyStore();
+		keyStore.failBatch = true;
+		const uk = usefulkey({
+			adapters: { keyStore, analytics: new NoopAnalytics() },
+		});
+		const res = await uk.createKeys([{}, {}]);
+		expect(res.result?.map((r) => r.error?.code)).toEqual([
+			ErrorCodes.KEYSTORE_WRITE_FAILED,
+			ErrorCodes.KEYSTORE_WRITE_FAILED,
+		]);
+		expect(res.result?.[0].error?.meta).toEqual({ op: "createKeys" });
+	});
+
+	it("falls back to createKey per record and reports individual failures", async () => {
+		const keyStore = new MemoryKeyStore();
+		const createKey = keyStore.createKey.bind(keyStore);
+		keyStore.createKey = async (record) => {
+			if (record.id === "bad") throw new Error("duplicate");
+			return createKey(record);
+		};
+		const uk = usefulkey({
+			adapters: { keyStore, analytics: new NoopAnalytics() },
+		});
+		const res = await uk.createKeys([{ id: "ok" }, { id: "bad" }]);
+		expect(res.result?.[0].result?.id).toBe("ok");
+		expect(res.result?.[1].error?.code).toBe(ErrorCodes.KEYSTORE_WRITE_FAILED);
+		expect(await keyStore.findKeyById("ok")).not.toBeNull();
+	});
+
+	it("rejects non-array input", async () => {
+		const uk = usefulkey({ adapters: { analytics: new NoopAnalytics() } });
+		const res = await uk.createKeys(undefined as never);
+		expect(res.error?.code).toBe("INVALID_INPUT");
+	});
+});
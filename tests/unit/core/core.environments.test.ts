@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { MemoryKeyStore, NoopAnalytics, usefulkey } from "../../../src";
+
+describe("UsefulKey key environments", () => {
+	function setup() {
+		const keyStore = new MemoryKeyStore();
+		const events: Array<{ event: string; payload: Record<string, unknown> }> =
+			[];
+		const analytics = new NoopAnalytics();
+		const uk = usefulkey({ adapters: { keyStore, analytics } });
+		for (const event of ["key.created", "key.verified"]) {
+			uk.on(event, (payload) => {
+				events.push({ event, payload });
+			});
+		}
+		return { uk, keyStore, events };
+	}
+
+	it("encodes the environment in the key and reports it on verification", async () => {
+		const { uk, keyStore, events } = setup();
+		const created = await uk.createKey({ environment: "test" });
+		const key = created.result?.key as string;
+		expect(key.startsWith("uk_test_")).toBe(true);
+
+		const record = await keyStore.findKeyById(created.result?.id as string);
+		expect(record).toMatchObject({ prefix: "uk", environment: "test" });
+		expect(record?.hint?.startsWith("uk_test_…")).toBe(true);
+
+		const res = await uk.verifyKey({ key });
+		expect(res.result).toMatchObject({ valid: true, environment: "test" });
+		expect(events.map((e) => e.payload.environment)).toEqual(["test", "test"]);
+	});
+
+	it("rejects keys of another environment when one is required", async () => {
+		const { uk } = setup();
+		const test = await uk.createKey({ environment: "test" });
+		const live = await uk.createKey({ environment: "live" });
+		const legacy = await uk.createKey();
+
+		const wrong = await uk.verifyKey({
+			key: test.result?.key as string,
+			environment: "live",
+		});
+		expect(wrong.result).toEqual({
+			valid: false,
+			reason: "environment_mismatch",
+		});
+		for (const key of [live.result?.key, legacy.result?.key]) {
+			const res = await uk.verifyKey({
+				key: key as string,
+				environment: "live",
+			});
+			expect(res.result?.valid).toBe(true);
+		}
+		const testOnly = await uk.verifyKey({
+			key: legacy.result?.key as string,
+			environment: "test",
+		});
+		expect(testOnly.result?.reason).toBe("environment_mismatch");
+	});
+
+	it("keeps the environment when rotating and validates it on create", async () => {
+		const { uk, keyStore } = setup();
+		const created = await uk.createKey({ environment: "live" });
+		const rotated = await uk.rotateKey(created.result?.id as string);
+		const next = await keyStore.findKeyById(rotated.result?.id as string);
+		expect(next?.environment).toBe("live");
+		expect(rotated.result?.key.startsWith("uk_live_")).toBe(true);
+
+		const bad = await uk.createKey({ environment: "staging" as never });
+		expect(bad.error?.code).toBe("INVALID_INPUT");
+	});
+});
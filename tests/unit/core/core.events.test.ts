@@ -0,0 +1,111 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+	MemoryKeyStore,
+	NoopAnalytics,
+	type UsefulKeyEventMap,
+	usefulkey,
+} from "../../../src";
+import { permissionsScopes } from "../../../src/plugins/permissions-scopes";
+
+class RecordingAnalytics extends NoopAnalytics {
+	events: string[] = [];
+	async track(event: string): Promise<void> {
+		this.events.push(event);
+	}
+}
+
+describe("UsefulKey on/off", () => {
+	it("delivers core events alongside the analytics adapter", async () => {
+		const analytics = new RecordingAnalytics();
+		const uk = usefulkey({
+			adapters: { keyStore: new MemoryKeyStore(), analytics },
+		});
+		const created: UsefulKeyEventMap["key.created"][] = [];
+		const verified: string[] = [];
+		uk.on("key.created", (payload) => {
+			created.push(payload);
+		});
+		uk.on("key.verified", async (payload) => {
+			verified.push(payload.keyId);
+		});
+
+		const res = await uk.createKey({ userId: "u1" });
+		await uk.verifyKey({ key: res.result?.key as string });
+
+		expect(created).toEqual([
+			{ keyId: res.result?.id, userId: "u1", ts: expect.any(Number) },
+		]);
+		expect(verified).toEqual([res.result?.id]);
+		expect(analytics.events).toEqual(["key.created", "key.verified"]);
+	});
+
+	it("delivers plugin events", async () => {
+		const uk = usefulkey(
+			{ adapters: { analytics: new NoopAnalytics() } },
+			{ plugins: [permissionsScopes()] },
+		);
+		const granted: UsefulKeyEventMap["scopes.granted"][] = [];
+		uk.on("scopes.granted", (payload) => {
+			granted.push(payload);
+		});
+		const res = await uk.createKey();
+		await uk.grantScopes(res.result?.id as string, ["read", "write"]);
+		expect(granted).toHaveLength(1);
+		expect(granted[0]).toMatchObject({
+			keyId: res.result?.id,
+			added: ["read", "write"],
+		});
+	});
+
+	it("removes handlers with the returned function and with off()", async () => {
+		const uk = usefulkey({ adapters: { analytics: new NoopAnalytics() } });
+		const a = vi.fn();
+		const b = vi.fn();
+		const c = vi.fn();
+		const unsubscribe = uk.on("key.created", a);
+		uk.on("key.created", b);
+		uk.on("key.revoked", c);
+
+		await uk.createKey();
+		unsubscribe();
+		await uk.createKey();
+		expect(a).toHaveBeenCalledTimes(1);
+		expect(b).toHaveBeenCalledTimes(2);
+
+		uk.off("key.created", b);
+		await uk.createKey();
+		expect(b).toHaveBeenCalledTimes(2);
+
+		uk.on("key.created", a);
+		uk.off();
+		const res = await uk.createKey();
+		await uk.revokeKey(res.result?.id as string);
+		expect(a).toHaveBeenCalledTimes(1);
+		expect(c).not.toHaveBeenCalled();
+	});
+
+	it("accepts custom event names", async () => {
+		const uk = usefulkey({ adapters: { analytics: new NoopAnalytics() } });
+		const handler = vi.fn();
+		uk.on("custom.event", handler);
+		await uk.analytics.track("custom.event", { n: 1 });
+		expect(handler).toHaveBeenCalledWith({ n: 1 });
+	});
+
+	it("logs handler errors without failing the operation", async () => {
+		const spy = vi.spyOn(console, "error").mockImplementation(() => {});
+		const uk = usefulkey({ adapters: { analytics: new NoopAnalytics() } });
+		const after = vi.fn();
+		uk.on("key.created", () => {
+			throw new Error("boom");
+		});
+		uk.on("key.created", after);
+
+		const res = await uk.createKey();
+		expect(res.error).toBeFalsy();
+		expect(res.result?.id).toBeTruthy();
+		expect(after).toHaveBeenCalledTimes(1);
+		expect(spy).toHaveBeenCalled();
+		spy.mockRestore();
+	});
+});
@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	ErrorCodes,
+	type KeyStoreAdapter,
+	MemoryKeyStore,
+	NoopAnalytics,
+	usefulkey,
+} from "../../../src";
+
+beforeEach(() => {
+	vi.useFakeTimers();
+	vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+});
+
+async function seed() {
+	const uk = usefulkey({
+		adapters: {
+			keyStore: new MemoryKeyStore(),
+			analytics: new NoopAnalytics(),
+		},
+	});
+	await uk.createKey({
+		id: "a",
+		metadata: { plan: "pro", scopes: ["admin", "read"], beta: true },
+	});
+	await uk.createKey({ id: "b", metadata: { plan: "free", scopes: "admin" } });
+	await uk.createKey({
+		id: "c",
+		metadata: { plan: "pro" },
+		expiresAt: Date.now() - 1,
+	});
+	await uk.createKey({ id: "d", metadata: { plan: "pro" } });
+	await uk.revokeKey("d");
+	return uk;
+}
+
+describe("UsefulKey findKeys", () => {
+	it("matches metadata fields exactly", async () => {
+		const uk = await seed();
+		const res = await uk.findKeys({ metadata: { plan: "pro" } });
+		expect(res.error).toBeFalsy();
+		expect(res.result?.items.map((r) => r.id)).toEqual(["a", "c", "d"]);
+
+		const both = await uk.findKeys({ metadata: { plan: "pro", beta: true } });
+		expect(both.result?.items.map((r) => r.id)).toEqual(["a"]);
+	});
+
+	it("matches array membership with contains", async () => {
+		const uk = await seed();
+		const res = await uk.findKeys({
+			metadata: { scopes: { contains: "admin" } },
+		});
+		expect(res.result?.items.map((r) => r.id)).toEqual(["a"]);
+	});
+
+	it("filters by revoked and expired state", async () => {
+		const uk = await seed();
+		const revoked = await uk.findKeys({ revoked: true });
+		expect(revoked.result?.items.map((r) => r.id)).toEqual(["d"]);
+
+		const expired = await uk.findKeys({ expired: true });
+		expect(expired.result?.items.map((r) => r.id)).toEqual(["c"]);
+
+		const active = await uk.findKeys({
+			metadata: { plan: "pro" },
+			revoked: false,
+			expired: false,
+		});
+		expect(active.result?.items.map((r) => r.id)).toEqual(["a"]);
+	});
+
+	it("pages results with a cursor", async () => {
+		const uk = await seed();
+		const first = await uk.findKeys({ limit: 3 });
+		expect(first.result?.items.map((r) => r.id)).toEqual(["a", "b", "c"]);
+		expect(first.result?.nextCursor).toBe("c");
+		const second = await uk.findKeys({
+			limit: 3,
+			cursor: first.result?.nextCursor,
+		});
+		expect(second.result?.items.map((r) => r.id)).toEqual(["d"]);
+		expect(second.result?.nextCursor).toBeNull();
+	});
+
+	it("rejects unsupported filter values with INVALID_INPUT", async () => {
+		const uk = await seed();
+		const nested = await uk.findKeys({
+			metadata: { plan: { nested: true } as any },
+		});
+		expect(nested.error?.code).toBe("INVALID_INPUT");
+		const badField = await uk.findKeys({ metadata: { 'a"b': "x" } });
+		expect(badField.error?.code).toBe("INVALID_INPUT");
+	});
+
+	it("returns KEYSTORE_FIND_UNSUPPORTED when the keystore cannot search", async () => {
+		const keyStore = {
+			createKey: async () => {},
+			findKeyById: async () => null,
+			findKeyByHash: async () => null,
+			updateKey: async () => {},
+			revokeKeyById: async () => {},
+			hardRemoveKeyById: async () => {},
+		} satisfies KeyStoreAdapter;
+		const uk = usefulkey({
+			adapters: { keyStore, analytics: new NoopAnalytics() },
+		});
+		const res = await uk.findKeys({ metadata: { plan: "pro" } });
+		expect(res.error?.code).toBe(ErrorCodes.KEYSTORE_FIND_UNSUPPORTED);
+	});
+});
@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	ErrorCodes,
+	type HookErrorPolicy,
+	MemoryRateLimitStore,
+	NoopAnalytics,
+	usefulkey,
+} from "../../../src";
+import { ratelimit } from "../../../src/plugins/rate-limit";
+import type { UsefulKeyPluginHooks } from "../../../src/types/plugins";
+
+const failing =
+	(hook: keyof UsefulKeyPluginHooks, onHookError?: HookErrorPolicy) =>
+	(): UsefulKeyPluginHooks => ({
+		name: "flaky",
+		onHookError,
+		[hook]: async () => {
+			throw new Error("store down");
+		},
+	});
+
+describe("plugin hook error policy", () => {
+	beforeEach(() => {
+		vi.spyOn(console, "error").mockImplementation(() => {});
+	});
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("fails open by default", async () => {
+		const uk = usefulkey(
+			{ adapters: { analytics: new NoopAnalytics() } },
+			{ plugins: [failing("beforeVerify")] },
+		);
+		const created = await uk.createKey();
+		const v = await uk.verifyKey({ key: created.result?.key as string });
+		expect(v.result?.valid).toBe(true);
+	});
+
+	it("returns plugin_error with the plugin name when failing closed", async () => {
+		const uk = usefulkey(
+			{
+				adapters: { analytics: new NoopAnalytics() },
+				onHookError: "fail-closed",
+			},
+			{ plugins: [failing("onKeyRecordLoaded")] },
+		);
+		const created = await uk.createKey();
+		const v = await uk.verifyKey({ key: created.result?.key as string });
+		expect(v.result).toMatchObject({
+			valid: false,
+			reason: "plugin_error",
+			error: {
+				code: ErrorCodes.PLUGIN_HOOK_FAILED,
+				message: "store down",
+				meta: { op: "onKeyRecordLoaded", plugin: "flaky" },
+			},
+		});
+	});
+
+	it("lets a plugin override the instance policy", async () => {
+		const closed = usefulkey(
+			{ adapters: { analytics: new NoopAnalytics() } },
+			{ plugins: [failing("beforeVerify", "fail-closed")] },
+		);
+		const a = await closed.createKey();
+		const va = await closed.verifyKey({ key: a.result?.key as string });
+		expect(va.result?.reason).toBe("plugin_error");
+
+		const open = usefulkey(
+			{
+				adapters: { analytics: new NoopAnalytics() },
+				onHookError: "fail-closed",
+			},
+			{ plugins: [failing("beforeVerify", "fail-open")] },
+		);
+		const b = await open.createKey();
+		const vb = await open.verifyKey({ key: b.result?.key as string });
+		expect(vb.result?.valid).toBe(true);
+	});
+
+	it("blocks other operations with the hook error", async () => {
+		const uk = usefulkey(
+			{
+				adapters: { analytics: new NoopAnalytics() },
+				onHookError: "fail-closed",
+			},
+			{ plugins: [failing("beforeCreateKey")] },
+		);
+		const res = await uk.createKey();
+		expect(res.error).toMatchObject({
+			code: ErrorCodes.PLUGIN_HOOK_FAILED,
+			meta: { op: "beforeCreateKey", plugin: "flaky" },
+		});
+	});
+
+	it("rejects requests when the rate limit store is down and the plugin fails closed", async () => {
+		const rateLimitStore = new MemoryRateLimitStore();
+		rateLimitStore.incrementAndCheck = async () => {
+			throw new Error("redis unavailable");
+		};
+		const uk = usefulkey(
+			{ adapters: { rateLimitStore, analytics: new NoopAnalytics() } },
+			{
+				plugins: [
+					ratelimit({ limit: 5, duration: "1m", onHookError: "fail-closed" }),
+				],
+			},
+		);
+		const created = await uk.createKey();
+		const v = await uk.verifyKey({
+			key: created.result?.key as string,
+			namespace: "api",
+		});
+		expect(v.result?.reason).toBe("plugin_error");
+		expect(v.result?.error?.meta).toEqual({
+			op: "beforeVerify",
+			plugin: "ratelimit",
+		});
+	});
+});
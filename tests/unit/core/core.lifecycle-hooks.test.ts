@@ -0,0 +1,171 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	ErrorCodes,
+	MemoryKeyStore,
+	NoopAnalytics,
+	usefulkey,
+} from "../../../src";
+import type { UsefulKeyPluginHooks } from "../../../src/types/plugins";
+
+describe("UsefulKey revocation and deletion hooks", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+	});
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	function setup(protectedIds: string[] = []) {
+		const calls: string[] = [];
+		const plugin = (): UsefulKeyPluginHooks => ({
+			name: "lifecycle",
+			async beforeRevokeKey(_ctx, { id }) {
+				calls.push(`beforeRevoke:${id}`);
+				if (protectedIds.includes(id))
+					return { reject: true, reason: "protected_key" };
+			},
+			async onKeyRevoked(_ctx, { id }) {
+				calls.push(`revoked:${id}`);
+			},
+			async beforeHardRemove(_ctx, { id }) {
+				calls.push(`beforeRemove:${id}`);
+				if (protectedIds.includes(id))
+					return { reject: true, reason: "protected_key" };
+			},
+			async onKeyHardRemoved(_ctx, { id }) {
+				calls.push(`removed:${id}`);
+			},
+			async onKeyExpiryExtended(_ctx, { record, from }) {
+				calls.push(`extended:${record.id}:${from}:${record.expiresAt}`);
+			},
+		});
+		const keyStore = new MemoryKeyStore();
+		const uk = usefulkey(
+			{
+				adapters: { keyStore, analytics: new NoopAnalytics() },
+				autoDeleteExpiredKeys: true,
+			},
+			{ plugins: [plugin] },
+		);
+		return { uk, keyStore, calls };
+	}
+
+	it("runs revoke and hard remove hooks around the keystore call", async () => {
+		const { uk, calls } = setup();
+		await uk.createKey({ id: "a" });
+		await uk.revokeKey("a");
+		await uk.hardRemoveKey("a");
+		expect(calls).toEqual([
+			"beforeRevoke:a",
+			"revoked:a",
+			"beforeRemove:a",
+			"removed:a",
+		]);
+	});
+
+	it("lets plugins block revocation and removal of protected keys", async () => {
+		const { uk, keyStore, calls } = setup(["root"]);
+		await uk.createKey({ id: "root" });
+
+		const revoked = await uk.revokeKey("root");
+		expect(revoked.error?.code).toBe("protected_key");
+		expect(revoked.error?.meta).toEqual({ op: "revokeKey" });
+		const removed = await uk.hardRemoveKey("root");
+		expect(removed.error?.code).toBe("protected_key");
+
+		const stored = await keyStore.findKeyById("root");
+		expect(stored?.revokedAt).toBeFalsy();
+		expect(calls).toEqual(["beforeRevoke:root", "beforeRemove:root"]);
+	});
+
+	it("runs onKeyExpiryExtended with the previous expiry", async () => {
+		const { uk, calls } = setup();
+		const t = Date.now();
+		await uk.createKey({ id: "a", expiresAt: t + 1000 });
+		await uk.extendKeyExpiry("a", 500);
+		expect(calls).toEqual([`extended:a:${t + 1000}:${t + 1500}`]);
+	});
+
+	it("skips protected keys when sweeping and reports removals", async () => {
+		const { uk, keyStore, calls } = setup(["keep"]);
+		const past = Date.now() - 1000;
+		await keyStore.createKey({
+			id: "keep",
+			prefix: "uk",
+			keyHash: "h1",
+			createdAt: past,
+			expiresAt: past,
+		});
+		await keyStore.createKey({
+			id: "drop",
+			prefix: "uk",
+			keyHash: "h2",
+			createdAt: past,
+			expiresAt: past,
+		});
+
+		const res = await uk.sweepExpired({});
+		expect(res.result).toMatchObject({ processed: 2, hardRemoved: 1 });
+		expect(await keyStore.findKeyById("keep")).not.toBeNull();
+		expect(calls).toEqual([
+			"beforeRemove:keep",
+			"beforeRemove:drop",
+			"removed:drop",
+		]);
+	});
+
+	it("reports automatic revocations and deletions from verification", async () => {
+		const { uk, calls } = setup();
+		const rotated = await uk.createKey({ id: "old" });
+		await uk.rotateKey("old", { gracePeriod: "1h" });
+		vi.advanceTimersByTime(60 * 60 * 1000);
+		await uk.verifyKey({ key: rotated.result?.key as string });
+
+		const expiring = await uk.createKey({
+			id: "exp",
+			expiresAt: Date.now() + 1000,
+		});
+		vi.advanceTimersByTime(1000);
+		const v = await uk.verifyKey({ key: expiring.result?.key as string });
+		expect(v.result?.reason).toBe("expired");
+
+		expect(calls).toEqual([
+			"beforeRevoke:old",
+			"revoked:old",
+			"beforeRemove:exp",
+			"removed:exp",
+		]);
+	});
+
+	it("keeps protected expired keys when deleting them on access", async () => {
+		const { uk, keyStore, calls } = setup(["keep"]);
+		const created = await uk.createKey({
+			id: "keep",
+			expiresAt: Date.now() + 1000,
+		});
+		vi.advanceTimersByTime(1000);
+
+		const v = await uk.verifyKey({ key: created.result?.key as string });
+		expect(v.result?.reason).toBe("expired");
+		expect((await uk.getKey(created.result?.key as string)).result).toBeNull();
+		expect((await uk.getKeyById("keep")).result).toBeNull();
+
+		expect(await keyStore.findKeyById("keep")).not.toBeNull();
+		expect(calls).toEqual([
+			"beforeRemove:keep",
+			"beforeRemove:keep",
+			"beforeRemove:keep",
+		]);
+	});
+
+	it("does not run after-hooks when the keystore fails", async () => {
+		const { uk, keyStore, calls } = setup();
+		keyStore.revokeKeyById = async () => {
+			throw new Error("boom");
+		};
+		const res = await uk.revokeKey("a");
+		expect(res.error?.code).toBe(ErrorCodes.KEYSTORE_REVOKE_FAILED);
+		expect(calls).toEqual(["beforeRevoke:a"]);
+	});
+});
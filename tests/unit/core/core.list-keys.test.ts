@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import {
+	ErrorCodes,
+	type KeyStoreAdapter,
+	MemoryKeyStore,
+	NoopAnalytics,
+	usefulkey,
+} from "../../../src";
+
+describe("UsefulKey listKeysByUser", () => {
+	it("pages through a user's keys ordered by id", async () => {
+		const keyStore = new MemoryKeyStore();
+		const uk = usefulkey({
+			adapters: { keyStore, analytics: new NoopAnalytics() },
+		});
+
+		for (const id of ["k3", "k1", "k5", "k2", "k4"]) {
+			await uk.createKey({ id, userId: "user_a" });
+		}
+		await uk.createKey({ id: "other", userId: "user_b" });
+
+		const first = await uk.listKeysByUser("user_a", { limit: 2 });
+		expect(first.error).toBeFalsy();
+		expect(first.result?.items.map((r) => r.id)).toEqual(["k1", "k2"]);
+		expect(first.result?.nextCursor).toBe("k2");
+
+		const second = await uk.listKeysByUser("user_a", {
+			limit: 2,
+			cursor: first.result?.nextCursor,
+		});
+		expect(second.result?.items.map((r) => r.id)).toEqual(["k3", "k4"]);
+		expect(second.result?.nextCursor).toBe("k4");
+
+		const third = await uk.listKeysByUser("user_a", {
+			limit: 2,
+			cursor: second.result?.nextCursor,
+		});
+		expect(third.result?.items.map((r) => r.id)).toEqual(["k5"]);
+		expect(third.result?.nextCursor).toBeNull();
+	});
+
+	it("returns an empty page for a user without keys", async () => {
+		const uk = usefulkey({ adapters: { analytics: new NoopAnalytics() } });
+		const res = await uk.listKeysByUser("nobody");
+		expect(res.error).toBeFalsy();
+		expect(res.result).toEqual({ items: [], nextCursor: null });
+	});
+
+	it("clamps the page size to MAX_BATCH_SIZE and passes it to the keystore", async () => {
+		const calls: Array<{ limit: number; cursor?: string | null }> = [];
+		const keyStore = new MemoryKeyStore();
+		const original = keyStore.listKeys.bind(keyStore);
+		keyStore.listKeys = async (input) => {
+			calls.push({ limit: input.limit, cursor: input.cursor });
+			return original(input);
+		};
+		const uk = usefulkey({
+			adapters: { keyStore, analytics: new NoopAnalytics() },
+		});
+
+		await uk.listKeysByUser("u", { limit: 5000 });
+		await uk.listKeysByUser("u", { limit: 0 });
+		await uk.listKeysByUser("u");
+		expect(calls).toEqual([
+			{ limit: 1000, cursor: null },
+			{ limit: 1, cursor: null },
+			{ limit: 100, cursor: null },
+		]);
+	});
+
+	it("returns KEYSTORE_LIST_UNSUPPORTED when the keystore cannot list", async () => {
+		const keyStore = {
+			createKey: async () => {},
+			findKeyById: async () => null,
+			findKeyByHash: async () => null,
+			updateKey: async () => {},
+			revokeKeyById: async () => {},
+			hardRemoveKeyById: async () => {},
+		} satisfies KeyStoreAdapter;
+		const uk = usefulkey({
+			adapters: { keyStore, analytics: new NoopAnalytics() },
+		});
+		const res = await uk.listKeysByUser("u");
+		expect(res.error?.code).toBe(ErrorCodes.KEYSTORE_LIST_UNSUPPORTED);
+	});
+
+	it("wraps keystore failures as KEYSTORE_READ_FAILED", async () => {
+		const keyStore = new MemoryKeyStore();
+		keyStore.listKeys = async () => {
+			throw new Error("boom");
+		};
+		const uk = usefulkey({
+			adapters: { keyStore, analytics: new NoopAnalytics() },
+		});
+		const res = await uk.listKeysByUser("u");
+		expect(res.error?.code).toBe(ErrorCodes.KEYSTORE_READ_FAILED);
+		expect(res.error?.meta).toEqual({ op: "listKeysByUser" });
+	});
+});
@@ -55,6 +55,18 @@ describe("UsefulKey getKey/getKeyById and metadata", () => {
 		expect(byId.result?.metadata).toEqual(metadata);
 	});
 
+	it("stores a redacted hint and exposes it via getKeyById", async () => {
+		const uk = usefulkey({
+			adapters: { keyStore: new MemoryKeyStore() },
+		});
+		const created = await uk.createKey();
+		const key = created.result?.key as string;
+
+		const byId = await uk.getKeyById(created.result?.id as string);
+		expect(byId.result?.hint).toBe(`uk_…${key.slice(-4)}`);
+		expect(byId.result?.hint).not.toContain(key.slice(3, -4));
+	});
+
 	it("returns null for unknown key or id", async () => {
 		const uk = usefulkey({});
 
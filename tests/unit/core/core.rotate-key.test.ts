@@ -0,0 +1,198 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MemoryKeyStore, NoopAnalytics, usefulkey } from "../../../src";
+
+describe("UsefulKey rotateKey", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+	});
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	function setup() {
+		const keyStore = new MemoryKeyStore();
+		const uk = usefulkey({
+			adapters: { keyStore, analytics: new NoopAnalytics() },
+		});
+		return { uk, keyStore };
+	}
+
+	it("carries userId, metadata, expiry and uses remaining onto the new key", async () => {
+		const { uk, keyStore } = setup();
+		const expiresAt = Date.now() + 7 * 24 * 60 * 60 * 1000;
+		const created = await uk.createKey({
+			userId: "user_1",
+			metadata: { plan: "pro", scopes: ["read"] },
+			expiresAt,
+			usesRemaining: 5,
+		});
+		const oldId = created.result?.id as string;
+
+		const rotated = await uk.rotateKey(oldId, { gracePeriod: "24h" });
+		expect(rotated.error).toBeFalsy();
+		expect(rotated.result?.previousId).toBe(oldId);
+		expect(rotated.result?.graceEndsAt).toBe(Date.now() + 24 * 60 * 60 * 1000);
+
+		const next = await keyStore.findKeyById(rotated.result?.id as string);
+		expect(next?.userId).toBe("user_1");
+		expect(next?.metadata).toEqual({ plan: "pro", scopes: ["read"] });
+		expect(next?.expiresAt).toBe(expiresAt);
+		expect(next?.usesRemaining).toBe(5);
+
+		const v = await uk.verifyKey({ key: rotated.result?.key as string });
+		expect(v.result?.valid).toBe(true);
+		expect(v.result?.rotated).toBeUndefined();
+	});
+
+	it("keeps the old key valid during the grace period, then revokes it", async () => {
+		const { uk, keyStore } = setup();
+		const created = await uk.createKey({ userId: "user_1" });
+		const oldKey = created.result?.key as string;
+		const oldId = created.result?.id as string;
+
+		const rotated = await uk.rotateKey(oldId, { gracePeriod: "24h" });
+		const newId = rotated.result?.id;
+
+		const during = await uk.verifyKey({ key: oldKey });
+		expect(during.result).toMatchObject({
+			valid: true,
+			keyId: oldId,
+			rotated: true,
+			replacedBy: newId,
+			graceEndsAt: rotated.result?.graceEndsAt,
+		});
+
+		vi.advanceTimersByTime(24 * 60 * 60 * 1000);
+		const after = await uk.verifyKey({ key: oldKey });
+		expect(after.result).toEqual({ valid: false, reason: "revoked" });
+		expect((await keyStore.findKeyById(oldId))?.revokedAt).toBe(Date.now());
+	});
+
+	it("revokes the old key immediately without a grace period", async () => {
+		const { uk } = setup();
+		const created = await uk.createKey();
+		const rotated = await uk.rotateKey(created.result?.id as string);
+		expect(rotated.result?.graceEndsAt).toBe(Date.now());
+
+		const v = await uk.verifyKey({ key: created.result?.key as string });
+		expect(v.result).toEqual({ valid: false, reason: "revoked" });
+	});
+
+	it("revokes through revokeKey so hooks and key.revoked subscribers see it", async () => {
+		const keyStore = new MemoryKeyStore();
+		const revokeHooks: string[] = [];
+		const uk = usefulkey(
+			{ adapters: { keyStore, analytics: new NoopAnalytics() } },
+			{
+				plugins: [
+					() => ({
+						name: "audit",
+						async beforeRevokeKey(_ctx, { id }) {
+							revokeHooks.push(id);
+						},
+					}),
+				],
+			},
+		);
+		const revokedEvents: unknown[] = [];
+		uk.on("key.revoked", (payload) => {
+			revokedEvents.push(payload.keyId);
+		});
+
+		const a = await uk.createKey();
+		const aId = a.result?.id as string;
+		await uk.rotateKey(aId);
+		const b = await uk.createKey();
+		const bId = b.result?.id as string;
+		await uk.rotateKey(bId, { gracePeriod: "1h" });
+		vi.advanceTimersByTime(60 * 60 * 1000);
+		await uk.verifyKey({ key: b.result?.key as string });
+
+		expect(revokeHooks).toEqual([aId, bId]);
+		expect(revokedEvents).toEqual([aId, bId]);
+	});
+
+	it("reports the rotation when a plugin blocks revoking the old key", async () => {
+		const keyStore = new MemoryKeyStore();
+		const uk = usefulkey(
+			{ adapters: { keyStore, analytics: new NoopAnalytics() } },
+			{
+				plugins: [
+					() => ({
+						name: "legal-hold",
+						async beforeRevokeKey() {
+							return { reject: true, reason: "legal_hold" };
+						},
+					}),
+				],
+			},
+		);
+		const created = await uk.createKey();
+		const id = created.result?.id as string;
+		await uk.rotateKey(id, { gracePeriod: "1h" });
+		vi.advanceTimersByTime(60 * 60 * 1000);
+
+		const errors = vi.spyOn(console, "error").mockImplementation(() => {});
+		const v = await uk.verifyKey({ key: created.result?.key as string });
+		errors.mockRestore();
+		expect(v.result).toEqual({ valid: false, reason: "rotated" });
+		expect((await keyStore.findKeyById(id))?.revokedAt).toBeNull();
+	});
+
+	it("hides the rotation marker from returned metadata", async () => {
+		const { uk, keyStore } = setup();
+		const created = await uk.createKey({ metadata: { plan: "pro" } });
+		const id = created.result?.id as string;
+		await uk.rotateKey(id, { gracePeriod: "1h" });
+
+		expect((await uk.getKeyById(id)).result?.metadata).toEqual({
+			plan: "pro",
+		});
+		const v = await uk.verifyKey({ key: created.result?.key as string }, true);
+		expect(v.result?.metadata).toEqual({ plan: "pro" });
+		// The marker is still stored, so the key keeps reporting the rotation.
+		expect(v.result?.rotated).toBe(true);
+		expect(
+			Object.keys((await keyStore.findKeyById(id))?.metadata ?? {}),
+		).toContain("__uk_rotation");
+	});
+
+	it("returns null for unknown keys and refuses revoked or already rotated keys", async () => {
+		const { uk } = setup();
+		expect((await uk.rotateKey("missing")).result).toBeNull();
+
+		const a = await uk.createKey();
+		await uk.revokeKey(a.result?.id as string);
+		const revoked = await uk.rotateKey(a.result?.id as string);
+		expect(revoked.error?.code).toBe("KEY_NOT_ROTATABLE");
+
+		const b = await uk.createKey();
+		await uk.rotateKey(b.result?.id as string, { gracePeriod: "1h" });
+		const again = await uk.rotateKey(b.result?.id as string);
+		expect(again.error?.code).toBe("KEY_NOT_ROTATABLE");
+	});
+
+	it("rejects an invalid grace period", async () => {
+		const { uk } = setup();
+		const created = await uk.createKey();
+		const res = await uk.rotateKey(created.result?.id as string, {
+			gracePeriod: "soon",
+		});
+		expect(res.error?.code).toBe("INVALID_INPUT");
+	});
+
+	it("removes the new key when the old key cannot be marked", async () => {
+		const { uk, keyStore } = setup();
+		const created = await uk.createKey();
+		keyStore.updateKey = async () => {
+			throw new Error("boom");
+		};
+		const res = await uk.rotateKey(created.result?.id as string, {
+			gracePeriod: "1h",
+		});
+		expect(res.error?.code).toBe("KEYSTORE_WRITE_FAILED");
+		const page = await keyStore.findKeys({ limit: 10, now: Date.now() });
+		expect(page.items.map((r) => r.id)).toEqual([created.result?.id]);
+	});
+});
@@ -0,0 +1,127 @@
+import crypto from "node:crypto";
+import { describe, expect, it } from "vitest";
+import {
+	hashKeyCandidates,
+	MemoryKeyStore,
+	NoopAnalytics,
+	usefulkey,
+} from "../../../src";
+
+const hmac = (value: string, secret: string) =>
+	crypto.createHmac("sha256", secret).update(value).digest("hex");
+
+describe("UsefulKey multiple secrets", () => {
+	it("hashes new keys with the first secret and records its id", async () => {
+		const keyStore = new MemoryKeyStore();
+		const uk = usefulkey({
+			adapters: { keyStore, analytics: new NoopAnalytics() },
+			secrets: [
+				{ id: "s2", value: "pepper-2" },
+				{ id: "s1", value: "pepper-1" },
+			],
+		});
+
+		const created = await uk.createKey();
+		const plaintext = created.result?.key as string;
+		const stored = await keyStore.findKeyById(created.result?.id as string);
+		expect(stored?.keyHash).toBe(hmac(plaintext, "pepper-2"));
+		expect(stored?.secretId).toBe("s2");
+	});
+
+	it("verifies keys hashed with an older secret and rehashes them", async () => {
+		const keyStore = new MemoryKeyStore();
+		const analytics = new NoopAnalytics();
+		const old = usefulkey({
+			adapters: { keyStore, analytics },
+			secrets: [{ id: "s1", value: "pepper-1" }],
+		});
+		const created = await old.createKey({ userId: "u1" });
+		const plaintext = created.result?.key as string;
+
+		const uk = usefulkey({
+			adapters: { keyStore, analytics },
+			secrets: [
+				{ id: "s2", value: "pepper-2" },
+				{ id: "s1", value: "pepper-1" },
+			],
+		});
+		const v = await uk.verifyKey({ key: plaintext });
+		expect(v.result).toMatchObject({ valid: true, keyId: created.result?.id });
+
+		const stored = await keyStore.findKeyById(created.result?.id as string);
+		expect(stored?.secretId).toBe("s2");
+		expect(stored?.keyHash).toBe(hmac(plaintext, "pepper-2"));
+		expect(
+			await keyStore.findKeyByHash(hmac(plaintext, "pepper-1")),
+		).toBeNull();
+
+		const rotatedOut = usefulkey({
+			adapters: { keyStore, analytics },
+			secrets: [{ id: "s2", value: "pepper-2" }],
+		});
+		const again = await rotatedOut.verifyKey({ key: plaintext });
+		expect(again.result?.valid).toBe(true);
+	});
+
+	it("falls back to the legacy secret after the listed secrets", async () => {
+		const keyStore = new MemoryKeyStore();
+		const analytics = new NoopAnalytics();
+		const legacy = usefulkey({
+			adapters: { keyStore, analytics },
+			secret: "pepper-0",
+		});
+		const created = await legacy.createKey();
+		const plaintext = created.result?.key as string;
+
+		const uk = usefulkey({
+			adapters: { keyStore, analytics },
+			secret: "pepper-0",
+			secrets: [{ id: "s1", value: "pepper-1" }],
+		});
+		const looked = await uk.getKey(plaintext);
+		expect(looked.result?.id).toBe(created.result?.id);
+		expect(looked.result?.secretId).toBeNull();
+
+		const v = await uk.verifyKey({ key: plaintext });
+		expect(v.result?.valid).toBe(true);
+		const stored = await keyStore.findKeyById(created.result?.id as string);
+		expect(stored?.secretId).toBe("s1");
+	});
+
+	it("still verifies when the rehash write fails", async () => {
+		const keyStore = new MemoryKeyStore();
+		const analytics = new NoopAnalytics();
+		const created = await usefulkey({
+			adapters: { keyStore, analytics },
+			secrets: [{ id: "s1", value: "pepper-1" }],
+		}).createKey();
+
+		keyStore.updateKey = async () => {
+			throw new Error("boom");
+		};
+		const uk = usefulkey({
+			adapters: { keyStore, analytics },
+			secrets: [
+				{ id: "s2", value: "pepper-2" },
+				{ id: "s1", value: "pepper-1" },
+			],
+		});
+		const v = await uk.verifyKey({ key: created.result?.key as string });
+		expect(v.result?.valid).toBe(true);
+	});
+
+	it("lists hash candidates in order with their secret ids", () => {
+		const candidates = hashKeyCandidates("k", {
+			secret: "legacy",
+			secrets: [
+				{ id: "b", value: "pepper-b" },
+				{ id: "a", value: "pepper-a" },
+			],
+		});
+		expect(candidates).toEqual([
+			{ keyHash: hmac("k", "pepper-b"), secretId: "b" },
+			{ keyHash: hmac("k", "pepper-a"), secretId: "a" },
+			{ keyHash: hmac("k", "legacy"), secretId: null },
+		]);
+	});
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { MemoryKeyStore, NoopAnalytics, usefulkey } from "../../../src";
+
+describe("UsefulKey tenants", () => {
+	function setup() {
+		const keyStore = new MemoryKeyStore();
+		const uk = usefulkey({
+			adapters: { keyStore, analytics: new NoopAnalytics() },
+		});
+		return {
+			uk,
+			keyStore,
+			acme: uk.forTenant("acme"),
+			globex: uk.forTenant("globex"),
+		};
+	}
+
+	it("stamps keys with the tenant and reports it on verification", async () => {
+		const { acme, keyStore } = setup();
+		const created = await acme.createKey({ userId: "u1" });
+		const record = await keyStore.findKeyById(created.result?.id as string);
+		expect(record?.tenantId).toBe("acme");
+
+		const res = await acme.verifyKey({ key: created.result?.key as string });
+		expect(res.result).toMatchObject({ valid: true, tenantId: "acme" });
+	});
+
+	it("treats keys of other tenants as not found", async () => {
+		const { uk, acme, globex } = setup();
+		const created = await acme.createKey();
+		const key = created.result?.key as string;
+		const id = created.result?.id as string;
+
+		const res = await globex.verifyKey({ key });
+		expect(res.result).toEqual({ valid: false, reason: "not_found" });
+		const batch = await globex.verifyKeys([{ key }]);
+		expect(batch.result?.[0].result?.reason).toBe("not_found");
+		expect(
+			(await uk.verifyKey({ key, tenantId: "globex" })).result?.reason,
+		).toBe("not_found");
+
+		expect((await globex.getKey(key)).result).toBeNull();
+		expect((await globex.getKeyById(id)).result).toBeNull();
+		expect(
+			(await globex.updateKey(id, { metadata: { x: 1 } })).result,
+		).toBeNull();
+		expect(await globex.rotateKey(id)).toEqual({ result: null });
+		expect(await globex.extendKeyExpiry(id, 1000)).toEqual({ result: null });
+
+		await globex.revokeKey(id);
+		await globex.hardRemoveKey(id);
+		expect((await acme.verifyKey({ key })).result?.valid).toBe(true);
+		expect((await acme.getKeyById(id)).result?.id).toBe(id);
+		expect((await acme.getKey(key)).result?.id).toBe(id);
+	});
+
+	it("lists and finds only the tenant's keys", async () => {
+		const { uk, acme, globex } = setup();
+		await acme.createKeys([
+			{ id: "a1", userId: "u1", metadata: { plan: "pro" } },
+			{ id: "a2", userId: "u1" },
+		]);
+		await globex.createKey({
+			id: "g1",
+			userId: "u1",
+			metadata: { plan: "pro" },
+		});
+		await uk.createKey({ id: "n1", userId: "u1" });
+
+		const listed = await acme.listKeysByUser("u1");
+		expect(listed.result?.items.map((r) => r.id)).toEqual(["a1", "a2"]);
+		const all = await uk.listKeysByUser("u1");
+		expect(all.result?.items.map((r) => r.id)).toEqual([
+			"a1",
+			"a2",
+			"g1",
+			"n1",
+		]);
+
+		const found = await globex.findKeys({ metadata: { plan: "pro" } });
+		expect(found.result?.items.map((r) => r.id)).toEqual(["g1"]);
+	});
+
+	it("keeps the tenant when rotating", async () => {
+		const { acme, keyStore } = setup();
+		const created = await acme.createKey();
+		const rotated = await acme.rotateKey(created.result?.id as string);
+		const next = await keyStore.findKeyById(rotated.result?.id as string);
+		expect(next?.tenantId).toBe("acme");
+	});
+
+	it("rejects an empty tenant id", () => {
+		const { uk } = setup();
+		expect(() => uk.forTenant("")).toThrow(
+			"tenantId must be a non-empty string",
+		);
+	});
+});
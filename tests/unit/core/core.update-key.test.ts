@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+import { ErrorCodes, MemoryKeyStore, usefulkey } from "../../../src";
+import type { UsefulKeyPluginHooks } from "../../../src/types/plugins";
+
+class InMemoryAnalytics {
+	public events: { event: string; payload: Record<string, unknown> }[] = [];
+	async track(event: string, payload: Record<string, unknown>): Promise<void> {
+		this.events.push({ event, payload });
+	}
+}
+
+describe("UsefulKey updateKey", () => {
+	it("deep-merges metadata and replaces scalar fields", async () => {
+		const keyStore = new MemoryKeyStore();
+		const analytics = new InMemoryAnalytics();
+		const uk = usefulkey({ adapters: { keyStore, analytics } });
+		const created = await uk.createKey({
+			userId: "u1",
+			metadata: {
+				plan: "free",
+				limits: { rpm: 10, burst: 20 },
+				scopes: ["read", "write"],
+				legacy: true,
+			},
+			usesRemaining: 5,
+		});
+		const id = created.result?.id as string;
+
+		const res = await uk.updateKey(id, {
+			metadata: {
+				plan: "pro",
+				limits: { rpm: 100 },
+				scopes: ["read"],
+				legacy: null,
+			},
+			userId: "u2",
+			expiresAt: 1_900_000_000_000,
+			usesRemaining: null,
+		});
+		expect(res.error).toBeFalsy();
+		expect(res.result).toMatchObject({
+			id,
+			userId: "u2",
+			expiresAt: 1_900_000_000_000,
+			usesRemaining: null,
+			metadata: {
+				plan: "pro",
+				limits: { rpm: 100, burst: 20 },
+				scopes: ["read"],
+			},
+		});
+		expect(res.result?.metadata).not.toHaveProperty("legacy");
+		expect(await keyStore.findKeyById(id)).toEqual(res.result);
+
+		const updated = analytics.events.find((e) => e.event === "key.updated");
+		expect(updated?.payload).toMatchObject({
+			keyId: id,
+			userId: "u2",
+			fields: ["metadata", "userId", "expiresAt", "usesRemaining"],
+		});
+	});
+
+	it("leaves omitted fields untouched", async () => {
+		const uk = usefulkey({ adapters: { analytics: new InMemoryAnalytics() } });
+		const created = await uk.createKey({
+			userId: "u1",
+			metadata: { plan: "pro" },
+			usesRemaining: 3,
+		});
+		const res = await uk.updateKey(created.result?.id as string, {
+			usesRemaining: 10,
+		});
+		expect(res.result).toMatchObject({
+			userId: "u1",
+			metadata: { plan: "pro" },
+			usesRemaining: 10,
+		});
+	});
+
+	it("replaces top-level metadata fields with replaceMetadataFields", async () => {
+		const analytics = new InMemoryAnalytics();
+		const uk = usefulkey({ adapters: { analytics } });
+		const created = await uk.createKey({
+			metadata: { plan: "pro", limits: { rpm: 10, burst: 20 } },
+		});
+		const res = await uk.updateKey(created.result?.id as string, {
+			metadata: { limits: { rpm: 100 } },
+			replaceMetadataFields: true,
+		});
+		expect(res.result?.metadata).toEqual({ plan: "pro", limits: { rpm: 100 } });
+		expect(
+			analytics.events.find((e) => e.event === "key.updated")?.payload.fields,
+		).toEqual(["metadata"]);
+	});
+
+	it("runs beforeUpdateKey and onKeyUpdated hooks", async () => {
+		const seen: unknown[] = [];
+		const plugin = (): UsefulKeyPluginHooks => ({
+			name: "guard",
+			async beforeUpdateKey(_ctx, { record, patch }) {
+				if (patch.userId === "intruder")
+					return { reject: true, reason: "owner_locked" };
+				seen.push(["before", record.userId]);
+			},
+			async onKeyUpdated(_ctx, { previous, record }) {
+				seen.push(["after", previous.userId, record.userId]);
+			},
+		});
+		const uk = usefulkey(
+			{ adapters: { analytics: new InMemoryAnalytics() } },
+			{ plugins: [plugin] },
+		);
+		const created = await uk.createKey({ userId: "u1" });
+		const id = created.result?.id as string;
+
+		const blocked = await uk.updateKey(id, { userId: "intruder" });
+		expect(blocked.error?.code).toBe("owner_locked");
+		expect((await uk.getKeyById(id)).result?.userId).toBe("u1");
+
+		await uk.updateKey(id, { userId: "u2" });
+		expect(seen).toEqual([
+			["before", "u1"],
+			["after", "u1", "u2"],
+		]);
+	});
+
+	it("returns null for unknown keys and rejects invalid patches", async () => {
+		const uk = usefulkey({ adapters: { analytics: new InMemoryAnalytics() } });
+		expect((await uk.updateKey("missing", { userId: "u" })).result).toBeNull();
+
+		const created = await uk.createKey();
+		const id = created.result?.id as string;
+		for (const patch of [
+			null,
+			{ metadata: ["x"] },
+			{ expiresAt: "tomorrow" },
+			{ usesRemaining: -1 },
+			{ replaceMetadataFields: "yes" },
+		]) {
+			const res = await uk.updateKey(id, patch as never);
+			expect(res.error?.code).toBe("INVALID_INPUT");
+		}
+	});
+
+	it("wraps keystore write failures", async () => {
+		const keyStore = new MemoryKeyStore();
+		const uk = usefulkey({
+			adapters: { keyStore, analytics: new InMemoryAnalytics() },
+		});
+		const created = await uk.createKey();
+		keyStore.updateKey = async () => {
+			throw new Error("boom");
+		};
+		const res = await uk.updateKey(created.result?.id as string, {
+			metadata: { a: 1 },
+		});
+		expect(res.error?.code).toBe(ErrorCodes.KEYSTORE_WRITE_FAILED);
+		expect(res.error?.meta).toEqual({ op: "updateKey" });
+	});
+});
@@ -0,0 +1,182 @@
+import { describe, expect, it } from "vitest";
+import {
+	ErrorCodes,
+	type KeyRecord,
+	type KeyStoreAdapter,
+	MemoryKeyStore,
+	MemoryRateLimitStore,
+	NoopAnalytics,
+	usefulkey,
+} from "../../../src";
+import { ratelimit } from "../../../src/plugins/rate-limit";
+import type { UsefulKeyPluginHooks } from "../../../src/types/plugins";
+
+class CountingMemoryKeyStore extends MemoryKeyStore {
+	batches: string[][] = [];
+	singles = 0;
+	async findKeysByHashes(keyHashes: string[]): Promise<KeyRecord[]> {
+		this.batches.push(keyHashes);
+		return super.findKeysByHashes(keyHashes);
+	}
+	async findKeyByHash(keyHash: string): Promise<KeyRecord | null> {
+		this.singles++;
+		return super.findKeyByHash(keyHash);
+	}
+}
+
+describe("UsefulKey verifyKeys", () => {
+	it("returns one result per input in order with a single batched lookup", async () => {
+		const keyStore = new CountingMemoryKeyStore();
+		const uk = usefulkey({
+			adapters: { keyStore, analytics: new NoopAnalytics() },
+		});
+		const a = await uk.createKey({ userId: "u1", metadata: { plan: "pro" } });
+		const b = await uk.createKey({ userId: "u2" });
+		await uk.revokeKey(b.result?.id as string);
+
+		const res = await uk.verifyKeys(
+			[
+				{ key: a.result?.key as string },
+				{ key: "uk_doesnotexist" },
+				{ key: b.result?.key as string },
+			],
+			true,
+		);
+		expect(res.error).toBeFalsy();
+		expect(res.result?.map((r) => r.result)).toEqual([
+			{
+				valid: true,
+				keyId: a.result?.id,
+				userId: "u1",
+				metadata: { plan: "pro" },
+			},
+			{ valid: false, reason: "not_found" },
+			{ valid: false, reason: "revoked" },
+		]);
+		expect(keyStore.batches).toHaveLength(1);
+		expect(keyStore.batches[0]).toHaveLength(3);
+		expect(keyStore.singles).toBe(0);
+	});
+
+	it("runs every plugin hook for each input", async () => {
+		const calls: string[] = [];
+		const plugin = (): UsefulKeyPluginHooks => ({
+			name: "audit",
+			async beforeVerify(_ctx, { key, identifier }) {
+				calls.push(`before:${identifier}`);
+				if (key.endsWith("blocked")) return { reject: true, reason: "nope" };
+			},
+			async onKeyRecordLoaded(_ctx, { input }) {
+				calls.push(`loaded:${input.identifier}`);
+			},
+			async onVerifySuccess(_ctx, { input }) {
+				calls.push(`success:${input.identifier}`);
+			},
+		});
+		const uk = usefulkey(
+			{ adapters: { analytics: new NoopAnalytics() } },
+			{ plugins: [plugin] },
+		);
+		const a = await uk.createKey();
+		const b = await uk.createKey();
+
+		const res = await uk.verifyKeys([
+			{ key: a.result?.key as string, identifier: "a" },
+			{ key: "uk_blocked", identifier: "x" },
+			{ key: b.result?.key as string, identifier: "b" },
+		]);
+		expect(res.result?.map((r) => r.result?.valid)).toEqual([
+			true,
+			false,
+			true,
+		]);
+		expect(res.result?.[1].result?.reason).toBe("nope");
+		expect(calls).toEqual([
+			"before:a",
+			"before:x",
+			"before:b",
+			"loaded:a",
+			"success:a",
+			"loaded:b",
+			"success:b",
+		]);
+	});
+
+	it("falls back to findKeyByHash and reports lookup failures", async () => {
+		const records = new Map<string, KeyRecord>();
+		const keyStore = {
+			createKey: async (r: KeyRecord) => {
+				records.set(r.keyHash, r);
+			},
+			findKeyById: async () => null,
+			findKeyByHash: async (h: string) => records.get(h) ?? null,
+			updateKey: async () => {},
+			revokeKeyById: async () => {},
+			hardRemoveKeyById: async () => {},
+		} satisfies KeyStoreAdapter;
+		const uk = usefulkey({
+			adapters: { keyStore, analytics: new NoopAnalytics() },
+		});
+		const a = await uk.createKey();
+		const ok = await uk.verifyKeys([{ key: a.result?.key as string }]);
+		expect(ok.result?.[0].result?.keyId).toBe(a.result?.id);
+
+		keyStore.findKeyByHash = async () => {
+			throw new Error("boom");
+		};
+		const failed = await uk.verifyKeys([{ key: a.result?.key as string }]);
+		expect(failed.error?.code).toBe(ErrorCodes.KEYSTORE_READ_FAILED);
+		expect(failed.error?.meta).toEqual({ op: "verifyKeys" });
+	});
+
+	it("matches keys hashed with older secrets and rehashes them", async () => {
+		const keyStore = new CountingMemoryKeyStore();
+		const analytics = new NoopAnalytics();
+		const created = await usefulkey({
+			adapters: { keyStore, analytics },
+			secrets: [{ id: "s1", value: "pepper-1" }],
+		}).createKey();
+
+		const uk = usefulkey({
+			adapters: { keyStore, analytics },
+			secrets: [
+				{ id: "s2", value: "pepper-2" },
+				{ id: "s1", value: "pepper-1" },
+			],
+		});
+		const res = await uk.verifyKeys([{ key: created.result?.key as string }]);
+		expect(res.result?.[0].result?.valid).toBe(true);
+		expect(keyStore.batches[0]).toHaveLength(2);
+		const stored = await keyStore.findKeyById(created.result?.id as string);
+		expect(stored?.secretId).toBe("s2");
+	});
+
+	it("counts a repeated input object once per entry", async () => {
+		const uk = usefulkey(
+			{
+				adapters: {
+					analytics: new NoopAnalytics(),
+					rateLimitStore: new MemoryRateLimitStore(),
+				},
+			},
+			{
+				plugins: [
+					ratelimit({ limit: 2, duration: "1m", identifyBy: "userId" }),
+				],
+			},
+		);
+		const key = (await uk.createKey({ userId: "u1" })).result?.key as string;
+		const input = { key, namespace: "api", identifier: "acct_1" };
+
+		const res = await uk.verifyKeys([input, input]);
+		expect(res.result?.map((r) => r.result?.valid)).toEqual([true, true]);
+		expect((await uk.verifyKey(input)).result?.reason).toBe("rate_limited");
+	});
+
+	it("handles empty and non-array input", async () => {
+		const uk = usefulkey({ adapters: { analytics: new NoopAnalytics() } });
+		expect((await uk.verifyKeys([])).result).toEqual([]);
+		const res = await uk.verifyKeys(undefined as never);
+		expect(res.error?.code).toBe("INVALID_INPUT");
+	});
+});
@@ -146,4 +146,52 @@ describe("KEY kinds: defaultKeyKind override", () => {
 		expect(body).toHaveLength(16);
 		expect(body).toMatch(/^[0-9ABCDEFGHJKMNPQRSTVWXYZ]{16}$/);
 	});
+
+	function checksummedSetup() {
+		const keyStore = new MemoryKeyStore();
+		const lookups = { count: 0 };
+		const findKeyByHash = keyStore.findKeyByHash.bind(keyStore);
+		keyStore.findKeyByHash = async (hash) => {
+			lookups.count++;
+			return findKeyByHash(hash);
+		};
+		const uk = usefulkey({
+			adapters: { keyStore },
+			defaultKeyKind: KEY.Checksummed(),
+		});
+		return { uk, lookups };
+	}
+
+	it("Checksummed: create, verify and reject malformed keys before lookup", async () => {
+		const { uk, lookups } = checksummedSetup();
+		const created = await uk.createKey({ environment: "test" });
+		const key = created.result!.key;
+		expect(key).toMatch(/^uk_test_[0-9A-Za-z]{36}$/);
+
+		const v = await uk.verifyKey({ key });
+		expect(v.result?.valid).toBe(true);
+		expect(lookups.count).toBe(1);
+
+		const tampered = await uk.verifyKey({
+			key: `${key.slice(0, -1)}${key.endsWith("0") ? "1" : "0"}`,
+		});
+		expect(tampered.result).toEqual({ valid: false, reason: "malformed" });
+		expect(lookups.count).toBe(1);
+
+		// Input without the checksummed shape is looked up as usual.
+		const junk = await uk.verifyKey({ key: "Bearer not-a-key" });
+		expect(junk.result).toEqual({ valid: false, reason: "not_found" });
+	});
+
+	it("Checksummed: still verifies keys of other kinds and prefixes", async () => {
+		const { uk } = checksummedSetup();
+		const urlSafe = await uk.createKey({ keyKind: KEY.URLSafe() });
+		const hex = await uk.createKey({ keyKind: KEY.HEX() });
+		const acme = await uk.createKey({ prefix: "acme" });
+
+		for (const created of [urlSafe, hex, acme]) {
+			const v = await uk.verifyKey({ key: created.result!.key });
+			expect(v.result?.valid).toBe(true);
+		}
+	});
 });
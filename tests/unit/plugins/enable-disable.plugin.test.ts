@@ -69,6 +69,7 @@ describe("enableDisablePlugin", () => {
 		const events = analytics.events.map((e) => e.event);
 		expect(events).toContain("key.disabled");
 		expect(events).toContain("key.enabled");
+		expect(events.filter((e) => e === "key.updated")).toHaveLength(2);
 	});
 
 	it("ignores analytics failures on disable/enable while still toggling state", async () => {
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	MemoryKeyStore,
+	MemoryRateLimitStore,
+	type RateLimitStoreAdapter,
+	usefulkey,
+} from "../../../src";
+import { ratelimit } from "../../../src/plugins/rate-limit";
+
+describe("ratelimit plugin concurrency limits", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+	});
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	function setup(rateLimitStore: RateLimitStoreAdapter) {
+		const keyStore = new MemoryKeyStore();
+		const uk = usefulkey(
+			{ adapters: { keyStore, rateLimitStore } },
+			{
+				plugins: [
+					ratelimit({
+						default: { kind: "concurrency", limit: 2, ttl: "30s" },
+					}),
+				],
+			},
+		);
+		const verify = (key: string) =>
+			uk.verifyKey({ key, namespace: "jobs", identifier: "acct_1" });
+		return { uk, keyStore, verify };
+	}
+
+	it("returns a lease per in-flight request and frees the slot on release", async () => {
+		const { uk, verify } = setup(new MemoryRateLimitStore());
+		const key = (await uk.createKey()).result?.key as string;
+
+		const a = await verify(key);
+		const b = await verify(key);
+		expect(a.result?.lease).toEqual({
+			id: expect.any(String),
+			namespace: "jobs",
+			identifier: "acct_1",
+			expiresAt: Date.now() + 30_000,
+		});
+		expect(b.result?.lease?.id).not.toBe(a.result?.lease?.id);
+		expect((await verify(key)).result).toMatchObject({
+			valid: false,
+			reason: "rate_limited",
+		});
+
+		expect(await uk.release(a.result?.lease as never)).toEqual({
+			result: undefined,
+		});
+		expect((await verify(key)).result?.valid).toBe(true);
+	});
+
+	it("expires leases that are never released", async () => {
+		const { uk, verify } = setup(new MemoryRateLimitStore());
+		const key = (await uk.createKey()).result?.key as string;
+		await verify(key);
+		await verify(key);
+		expect((await verify(key)).result?.valid).toBe(false);
+
+		await vi.advanceTimersByTimeAsync(30_000);
+		expect((await verify(key)).result?.valid).toBe(true);
+	});
+
+	it("gives the slot back when verification fails after the lease was taken", async () => {
+		const store = new MemoryRateLimitStore();
+		const released: string[] = [];
+		const releaseLease = store.releaseLease.bind(store);
+		store.releaseLease = async (ns, id, leaseId) => {
+			released.push(leaseId);
+			await releaseLease(ns, id, leaseId);
+		};
+		const { uk, verify } = setup(store);
+		const created = await uk.createKey({ usesRemaining: 0 });
+		const key = created.result?.key as string;
+
+		for (let i = 0; i < 3; i++) {
+			expect((await verify(key)).result?.reason).toBe("usage_exceeded");
+		}
+		expect(released).toHaveLength(3);
+	});
+
+	it("rejects invalid leases and stores without lease support", async () => {
+		const { uk } = setup(new MemoryRateLimitStore());
+		const invalid = await uk.release({} as never);
+		expect(invalid.error?.code).toBe("INVALID_INPUT");
+
+		const store = new MemoryRateLimitStore() as RateLimitStoreAdapter;
+		store.acquireLease = undefined;
+		store.releaseLease = undefined;
+		const unsupported = setup(store);
+		const res = await unsupported.uk.release({
+			id: "l1",
+			namespace: "jobs",
+			identifier: "acct_1",
+			expiresAt: 0,
+		});
+		expect(res.error?.code).toBe("RATELIMIT_LEASES_UNSUPPORTED");
+	});
+});
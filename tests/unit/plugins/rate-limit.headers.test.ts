@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	MemoryKeyStore,
+	MemoryRateLimitStore,
+	type RateLimitConfig,
+	rateLimitHeaders,
+	usefulkey,
+} from "../../../src";
+import { ratelimit } from "../../../src/plugins/rate-limit";
+
+describe("ratelimit plugin state and headers", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+	});
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	function setup(rateLimit: RateLimitConfig) {
+		const uk = usefulkey(
+			{
+				adapters: {
+					keyStore: new MemoryKeyStore(),
+					rateLimitStore: new MemoryRateLimitStore(),
+				},
+			},
+			{ plugins: [ratelimit({ default: rateLimit })] },
+		);
+		const verify = (key: string) =>
+			uk.verifyKey({ key, namespace: "api", identifier: "acct_1" });
+		return { uk, verify };
+	}
+
+	it("reports remaining and reset, and the retry delay once blocked", async () => {
+		const { uk, verify } = setup({ kind: "fixed", limit: 2, duration: "1m" });
+		const key = (await uk.createKey()).result?.key as string;
+		const start = Date.now();
+
+		expect((await verify(key)).result?.ratelimit).toEqual({
+			limit: 2,
+			remaining: 1,
+			reset: start + 60_000,
+			windowMs: 60_000,
+		});
+		await verify(key);
+		await vi.advanceTimersByTimeAsync(15_000);
+		expect((await verify(key)).result).toEqual({
+			valid: false,
+			reason: "rate_limited",
+			ratelimit: {
+				limit: 2,
+				remaining: 0,
+				reset: start + 60_000,
+				retryAfterMs: 45_000,
+				windowMs: 60_000,
+			},
+		});
+	});
+
+	it("reports the stacked limit closest to tripping, or the one that tripped", async () => {
+		const { uk, verify } = setup([
+			{ name: "second", kind: "gcra", rate: 5, period: "1s", burst: 5 },
+			{ name: "daily", kind: "fixed", limit: 2, duration: "1d" },
+		]);
+		const key = (await uk.createKey()).result?.key as string;
+
+		expect((await verify(key)).result?.ratelimit).toMatchObject({
+			name: "daily",
+			limit: 2,
+			remaining: 1,
+		});
+		await verify(key);
+		expect((await verify(key)).result?.ratelimit).toMatchObject({
+			name: "daily",
+			remaining: 0,
+			retryAfterMs: 86_400_000,
+		});
+	});
+
+	it("builds RateLimit-Policy, RateLimit and Retry-After headers", () => {
+		const reset = Date.now() + 30_500;
+		expect(
+			rateLimitHeaders({
+				limit: 100,
+				remaining: 40,
+				reset,
+				windowMs: 60_000,
+			}),
+		).toEqual({
+			"RateLimit-Policy": '"default";q=100;w=60',
+			RateLimit: '"default";r=40;t=31',
+		});
+		expect(
+			rateLimitHeaders({
+				name: 'da"ily',
+				limit: 1000,
+				remaining: 0,
+				reset,
+				retryAfterMs: 30_500,
+				windowMs: 86_400_000,
+			}),
+		).toEqual({
+			"RateLimit-Policy": '"da\\"ily";q=1000;w=86400',
+			RateLimit: '"da\\"ily";r=0;t=31',
+			"Retry-After": "31",
+		});
+		expect(
+			rateLimitHeaders({ limit: 5, remaining: 2, reset: Date.now() }),
+		).toEqual({
+			"RateLimit-Policy": '"default";q=5',
+			RateLimit: '"default";r=2;t=0',
+		});
+		expect(rateLimitHeaders(undefined)).toEqual({});
+	});
+});
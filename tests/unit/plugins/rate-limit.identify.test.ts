@@ -0,0 +1,166 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+	MemoryKeyStore,
+	MemoryRateLimitStore,
+	type RatelimitArgs,
+	type UsefulKeyConfig,
+	usefulkey,
+} from "../../../src";
+import { ratelimit } from "../../../src/plugins/rate-limit";
+import { hashKey, hashKeyWithConfig } from "../../../src/utils/key";
+
+describe("ratelimit plugin identifiers", () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	function setup(
+		args: Partial<RatelimitArgs> = {},
+		config: Partial<UsefulKeyConfig> = {},
+	) {
+		const keyStore = new MemoryKeyStore();
+		const rateLimitStore = new MemoryRateLimitStore();
+		const identifiers: string[] = [];
+		const incrementAndCheck =
+			rateLimitStore.incrementAndCheck.bind(rateLimitStore);
+		rateLimitStore.incrementAndCheck = (ns, id, limit, windowMs) => {
+			identifiers.push(id);
+			return incrementAndCheck(ns, id, limit, windowMs);
+		};
+		let lookups = 0;
+		const findKeyByHash = keyStore.findKeyByHash.bind(keyStore);
+		keyStore.findKeyByHash = async (hash) => {
+			lookups++;
+			return findKeyByHash(hash);
+		};
+		const uk = usefulkey(
+			{ ...config, adapters: { keyStore, rateLimitStore } },
+			{
+				plugins: [
+					ratelimit({
+						default: { kind: "fixed", limit: 2, duration: "1m" },
+						...args,
+					} as RatelimitArgs),
+				],
+			},
+		);
+		return { uk, identifiers, lookups: () => lookups };
+	}
+
+	it("falls back to a hash of the key rather than the plaintext key", async () => {
+		const { uk, identifiers } = setup();
+		const key = (await uk.createKey()).result?.key as string;
+
+		await uk.verifyKey({ key, namespace: "api" });
+		await uk.verifyKey({ key, namespace: "api", ip: "10.0.0.1" });
+		expect(identifiers).toEqual([hashKey(key), "10.0.0.1"]);
+	});
+
+	it("keys the key hash with the configured secret", async () => {
+		const { uk, identifiers } = setup({}, { secret: "rl-secret" });
+		const key = (await uk.createKey()).result?.key as string;
+
+		await uk.verifyKey({ key, namespace: "api" });
+		expect(identifiers).toEqual([hashKeyWithConfig(key, uk.config)]);
+		expect(identifiers[0]).not.toBe(hashKey(key));
+	});
+
+	it("limits unknown keys before looking them up", async () => {
+		const { uk, lookups } = setup();
+		const verify = () =>
+			uk.verifyKey({ key: "uk_guess", namespace: "api", identifier: "bot" });
+
+		expect((await verify()).result?.reason).toBe("not_found");
+		expect((await verify()).result?.reason).toBe("not_found");
+		expect((await verify()).result?.reason).toBe("rate_limited");
+		expect(lookups()).toBe(2);
+	});
+
+	it("does not split the count before the lookup by the key's prefix", async () => {
+		const { uk, lookups } = setup();
+		const verify = (key: string) =>
+			uk.verifyKey({ key, namespace: "api", identifier: "bot" });
+
+		expect((await verify("uk_test_guess")).result?.reason).toBe("not_found");
+		expect((await verify("uk_live_guess")).result?.reason).toBe("not_found");
+		expect((await verify("uk_guess")).result?.reason).toBe("rate_limited");
+		expect(lookups()).toBe(2);
+	});
+
+	it("hands back the count of keys that turn out expired", async () => {
+		vi.useFakeTimers();
+		const { uk } = setup();
+		const expiring = await uk.createKey({ expiresAt: Date.now() + 1000 });
+		const valid = await uk.createKey();
+		vi.advanceTimersByTime(1000);
+		const verify = (key: string) =>
+			uk.verifyKey({ key, namespace: "api", identifier: "acct_1" });
+
+		for (let i = 0; i < 3; i++) {
+			expect(
+				(await verify(expiring.result?.key as string)).result?.reason,
+			).toBe("expired");
+		}
+		expect((await verify(valid.result?.key as string)).result?.valid).toBe(
+			true,
+		);
+		expect((await verify(valid.result?.key as string)).result?.valid).toBe(
+			true,
+		);
+	});
+
+	it("hashes an identifier that is the plaintext key", async () => {
+		const { uk, identifiers } = setup({ identify: (i) => i.key });
+		const key = (await uk.createKey()).result?.key as string;
+
+		await uk.verifyKey({ key, namespace: "api" });
+		await uk.verifyKey({ key, namespace: "api", identifier: key });
+		expect(identifiers).toEqual([hashKey(key), hashKey(key)]);
+	});
+
+	it("shares a limit across a user's keys with identifyBy userId", async () => {
+		const { uk, identifiers } = setup({ identifyBy: "userId" });
+		const a = (await uk.createKey({ userId: "user_1" })).result?.key as string;
+		const b = (await uk.createKey({ userId: "user_1" })).result?.key as string;
+		const other = await uk.createKey();
+		const otherKey = other.result?.key as string;
+		const verify = (key: string) => uk.verifyKey({ key, namespace: "api" });
+
+		expect((await verify(a)).result?.valid).toBe(true);
+		expect((await verify(b)).result?.valid).toBe(true);
+		expect((await verify(a)).result?.reason).toBe("rate_limited");
+		// Keys without an owner are limited on their own.
+		expect((await verify(otherKey)).result?.valid).toBe(true);
+		// Each request is counted by key before the lookup, then by its owner.
+		expect(identifiers).toEqual([
+			hashKey(a),
+			"user_1",
+			hashKey(b),
+			"user_1",
+			hashKey(a),
+			"user_1",
+			hashKey(otherKey),
+			other.result?.id,
+		]);
+	});
+
+	it("ignores request identifiers with identifyBy keyId", async () => {
+		const { uk, identifiers } = setup({ identifyBy: "keyId" });
+		const created = await uk.createKey({ userId: "user_1" });
+		const key = created.result?.key as string;
+
+		await uk.verifyKey({ key, namespace: "api", identifier: "acct_1" });
+		expect(identifiers).toEqual(["acct_1", created.result?.id]);
+	});
+
+	it("passes the loaded record to a custom identify", async () => {
+		const { uk, identifiers } = setup({
+			identify: (i, record) => `${record.userId}:${i.ip}`,
+		});
+		const key = (await uk.createKey({ userId: "user_1" })).result
+			?.key as string;
+
+		await uk.verifyKey({ key, namespace: "api", ip: "10.0.0.1" });
+		expect(identifiers).toEqual(["user_1:10.0.0.1"]);
+	});
+});
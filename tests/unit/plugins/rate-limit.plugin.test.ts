@@ -3,6 +3,7 @@ import {
 	ConsoleAnalytics,
 	MemoryKeyStore,
 	MemoryRateLimitStore,
+	type RateLimitStoreAdapter,
 	usefulkey,
 } from "../../../src";
 import { ratelimit } from "../../../src/plugins/rate-limit";
@@ -219,4 +220,212 @@ describe("ratelimit plugin", () => {
 		});
 		expect(b.result?.valid).toBe(false);
 	});
+
+	it("dispatches slidingWindow limits and fails when the store lacks consumeSlidingWindow", async () => {
+		const rl = new MemoryRateLimitStore();
+		const calls: unknown[][] = [];
+		const consume = rl.consumeSlidingWindow.bind(rl);
+		rl.consumeSlidingWindow = async (...args) => {
+			calls.push(args);
+			return consume(...args);
+		};
+		const uk = usefulkey(
+			{ adapters: { rateLimitStore: rl } },
+			{
+				plugins: [
+					ratelimit({
+						default: { kind: "slidingWindow", limit: 1, duration: "1m" },
+					}),
+				],
+			},
+		);
+		const created = await uk.createKey();
+		const key = created.result?.key ?? "";
+		const verify = () =>
+			uk.verifyKey({ key, namespace: "ns", identifier: "sw" });
+
+		expect((await verify()).result?.valid).toBe(true);
+		expect((await verify()).result?.reason).toBe("rate_limited");
+		expect(calls[0]).toEqual(["ns", "sw", 1, 60_000]);
+
+		const store = new MemoryRateLimitStore() as RateLimitStoreAdapter;
+		store.consumeSlidingWindow = undefined;
+		const unsupported = usefulkey(
+			{ adapters: { rateLimitStore: store } },
+			{
+				plugins: [
+					ratelimit({
+						default: { kind: "slidingWindow", limit: 1, duration: "1m" },
+					}),
+				],
+			},
+		);
+		const other = await unsupported.createKey({ id: "other" });
+		const res = await unsupported.verifyKey({
+			key: other.result?.key ?? "",
+			namespace: "ns",
+		});
+		expect(res.result).toMatchObject({ valid: false, reason: "plugin_error" });
+	});
+
+	it("dispatches gcra limits and fails when the store lacks consumeGcra", async () => {
+		const uk = usefulkey(
+			{ adapters: { rateLimitStore: new MemoryRateLimitStore() } },
+			{ plugins: [ratelimit({})] },
+		);
+		const created = await uk.createKey({ id: "gcra" });
+		const key = created.result?.key ?? "";
+		const rateLimit = {
+			kind: "gcra" as const,
+			rate: 1,
+			period: "1h",
+			burst: 2,
+		};
+		const verify = () =>
+			uk.verifyKey({ key, namespace: "ns", identifier: "g", rateLimit });
+		expect((await verify()).result?.valid).toBe(true);
+		expect((await verify()).result?.valid).toBe(true);
+		expect((await verify()).result?.reason).toBe("rate_limited");
+
+		const store = new MemoryRateLimitStore() as RateLimitStoreAdapter;
+		store.consumeGcra = undefined;
+		const unsupported = usefulkey(
+			{ adapters: { rateLimitStore: store } },
+			{ plugins: [ratelimit({})] },
+		);
+		const other = await unsupported.createKey({ id: "other" });
+		const res = await unsupported.verifyKey({
+			key: other.result?.key ?? "",
+			namespace: "ns",
+			rateLimit,
+		});
+		expect(res.result).toMatchObject({ valid: false, reason: "plugin_error" });
+	});
+
+	it("keeps separate counters for test and live keys", async () => {
+		const blocked: any[] = [];
+		const uk = usefulkey(
+			{ adapters: { rateLimitStore: new MemoryRateLimitStore() } },
+			{ plugins: [ratelimit({ limit: 1, duration: "1m" })] },
+		);
+		uk.on("ratelimit.blocked", (payload) => {
+			blocked.push(payload);
+		});
+		const test = await uk.createKey({ environment: "test" });
+		const live = await uk.createKey({ environment: "live" });
+		const verify = (key: string) =>
+			uk.verifyKey({ key, namespace: "api", identifier: "acct_1" });
+
+		expect((await verify(test.result!.key)).result?.valid).toBe(true);
+		expect((await verify(test.result!.key)).result?.reason).toBe(
+			"rate_limited",
+		);
+		expect((await verify(live.result!.key)).result?.valid).toBe(true);
+		expect(blocked).toHaveLength(1);
+		expect(blocked[0]).toMatchObject({
+			namespace: "api:test",
+			environment: "test",
+		});
+	});
+
+	it("applies a key's own limit over the per-call and default limits", async () => {
+		const uk = usefulkey(
+			{ adapters: { rateLimitStore: new MemoryRateLimitStore() } },
+			{ plugins: [ratelimit({ limit: 1, duration: "1m" })] },
+		);
+		const enterprise = await uk.createKey({ id: "enterprise" });
+		const regular = await uk.createKey({ id: "regular" });
+		const id = enterprise.result!.id;
+		await uk.setKeyRateLimit(id, { kind: "fixed", limit: 3, duration: "1m" });
+		expect((await uk.getKeyById(id)).result?.metadata?.rateLimit).toEqual({
+			kind: "fixed",
+			limit: 3,
+			duration: "1m",
+		});
+
+		const verify = (key: string) =>
+			uk.verifyKey({
+				key,
+				namespace: "api",
+				rateLimit: { kind: "fixed", limit: 2, duration: "1m" },
+			});
+		const outcomes: Array<boolean | undefined> = [];
+		for (let i = 0; i < 4; i++) {
+			outcomes.push((await verify(enterprise.result!.key)).result?.valid);
+		}
+		expect(outcomes).toEqual([true, true, true, false]);
+		expect((await verify(regular.result!.key)).result?.valid).toBe(true);
+		expect((await verify(regular.result!.key)).result?.valid).toBe(true);
+		expect((await verify(regular.result!.key)).result?.valid).toBe(false);
+
+		await uk.setKeyRateLimit(id, null);
+		expect((await uk.getKeyById(id)).result?.metadata).toEqual({});
+	});
+
+	it("replaces a stored limit instead of merging it with the previous one", async () => {
+		const uk = usefulkey(
+			{ adapters: { rateLimitStore: new MemoryRateLimitStore() } },
+			{ plugins: [ratelimit()] },
+		);
+		const id = (await uk.createKey({ metadata: { plan: "pro" } })).result!.id;
+		let updates = 0;
+		uk.on("key.updated", () => {
+			updates++;
+		});
+		await uk.setKeyRateLimit(id, {
+			kind: "tokenBucket",
+			capacity: 10,
+			refill: { tokens: 1, interval: "1s" },
+			cost: 5,
+		});
+		await uk.setKeyRateLimit(id, {
+			kind: "tokenBucket",
+			capacity: 20,
+			refill: { tokens: 2, interval: "1s" },
+		});
+		expect((await uk.getKeyById(id)).result?.metadata).toEqual({
+			plan: "pro",
+			rateLimit: {
+				kind: "tokenBucket",
+				capacity: 20,
+				refill: { tokens: 2, interval: "1s" },
+			},
+		});
+		// One write per call, so update hooks and events fire once.
+		expect(updates).toBe(2);
+
+		await uk.setKeyRateLimit(id, { kind: "concurrency", limit: 2 });
+		expect((await uk.getKeyById(id)).result?.metadata?.rateLimit).toEqual({
+			kind: "concurrency",
+			limit: 2,
+		});
+	});
+
+	it("reads overrides from a custom metadata key and validates setKeyRateLimit", async () => {
+		const uk = usefulkey(
+			{ adapters: { rateLimitStore: new MemoryRateLimitStore() } },
+			{ plugins: [ratelimit({ metadataKey: "limits" })] },
+		);
+		const created = await uk.createKey({
+			metadata: { limits: { kind: "fixed", limit: 1, duration: "1h" } },
+		});
+		const key = created.result!.key;
+		expect((await uk.verifyKey({ key, namespace: "api" })).result?.valid).toBe(
+			true,
+		);
+		expect((await uk.verifyKey({ key, namespace: "api" })).result?.reason).toBe(
+			"rate_limited",
+		);
+
+		await expect(
+			uk.setKeyRateLimit(created.result!.id, {
+				kind: "fixed",
+				limit: 0,
+				duration: "1m",
+			}),
+		).rejects.toMatchObject({ code: "INVALID_INPUT" });
+		await expect(uk.setKeyRateLimit("missing", null)).rejects.toMatchObject({
+			code: "KEY_NOT_FOUND",
+		});
+	});
 });
@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	CloudflareKvRateLimitStore,
+	type KvLikeClient,
+	MemoryKeyStore,
+	MemoryRateLimitStore,
+	type RateLimitConfig,
+	type RateLimitStoreAdapter,
+	usefulkey,
+} from "../../../src";
+import { ratelimit } from "../../../src/plugins/rate-limit";
+
+describe("ratelimit plugin stacked limits", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+	});
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	function setup(
+		rateLimit: RateLimitConfig,
+		rateLimitStore: RateLimitStoreAdapter = new MemoryRateLimitStore(),
+	) {
+		const keyStore = new MemoryKeyStore();
+		const uk = usefulkey(
+			{ adapters: { keyStore, rateLimitStore } },
+			{ plugins: [ratelimit({ default: rateLimit })] },
+		);
+		const verify = (key: string) =>
+			uk.verifyKey({ key, namespace: "api", identifier: "acct_1" });
+		return { uk, verify, rateLimitStore };
+	}
+
+	it("names the limit that tripped and keeps each limit's own count", async () => {
+		const { uk, verify, rateLimitStore } = setup([
+			{ name: "second", kind: "fixed", limit: 2, duration: "1s" },
+			{ name: "daily", kind: "fixed", limit: 3, duration: "1d" },
+		]);
+		const blocked: (string | undefined)[] = [];
+		uk.on("ratelimit.blocked", (payload) => {
+			blocked.push(payload.name);
+		});
+		const key = (await uk.createKey()).result?.key as string;
+
+		expect((await verify(key)).result?.valid).toBe(true);
+		expect((await verify(key)).result?.valid).toBe(true);
+		expect((await verify(key)).result).toMatchObject({
+			valid: false,
+			reason: "rate_limited:second",
+		});
+		expect(blocked).toEqual(["second"]);
+
+		await vi.advanceTimersByTimeAsync(1000);
+		expect((await verify(key)).result?.valid).toBe(true);
+		expect((await verify(key)).result?.reason).toBe("rate_limited:daily");
+		expect(
+			(await rateLimitStore.check("api/daily", "acct_1", 3, 86_400_000))
+				.success,
+		).toBe(false);
+	});
+
+	it("rolls back the limits that passed when a later one fails", async () => {
+		const { uk, verify } = setup([
+			{ name: "daily", kind: "fixed", limit: 3, duration: "1d" },
+			{
+				name: "monthly",
+				kind: "tokenBucket",
+				capacity: 3,
+				refill: { tokens: 1, interval: "30d" },
+			},
+			{ name: "second", kind: "gcra", rate: 1, period: "1s", burst: 1 },
+		]);
+		const key = (await uk.createKey()).result?.key as string;
+
+		expect((await verify(key)).result?.valid).toBe(true);
+		for (let i = 0; i < 5; i++) {
+			expect((await verify(key)).result?.reason).toBe("rate_limited:second");
+		}
+
+		// The blocked requests did not use up the daily or monthly quota.
+		await vi.advanceTimersByTimeAsync(1000);
+		expect((await verify(key)).result?.valid).toBe(true);
+		await vi.advanceTimersByTimeAsync(1000);
+		expect((await verify(key)).result?.valid).toBe(true);
+		await vi.advanceTimersByTimeAsync(1000);
+		expect((await verify(key)).result?.reason).toBe("rate_limited:daily");
+	});
+
+	it("frees a concurrency slot when a later limit fails", async () => {
+		const { uk, verify } = setup([
+			{ name: "inflight", kind: "concurrency", limit: 1 },
+			{ name: "second", kind: "slidingWindow", limit: 1, duration: "1s" },
+		]);
+		const key = (await uk.createKey()).result?.key as string;
+
+		const first = await verify(key);
+		expect(first.result?.lease?.namespace).toBe("api/inflight");
+		await uk.release(first.result?.lease as never);
+
+		expect((await verify(key)).result?.reason).toBe("rate_limited:second");
+		await vi.advanceTimersByTimeAsync(2000);
+		expect((await verify(key)).result?.valid).toBe(true);
+	});
+
+	it("refuses stacks on a store without refunds instead of failing open", async () => {
+		const errors = vi.spyOn(console, "error").mockImplementation(() => {});
+		const kv = new Map<string, string>();
+		const store = new CloudflareKvRateLimitStore({
+			async get(k: string) {
+				return kv.get(k) ?? null;
+			},
+			async put(k: string, v: string) {
+				kv.set(k, v);
+			},
+		} as KvLikeClient);
+		const stack: RateLimitConfig = [
+			{ name: "second", kind: "fixed", limit: 1, duration: "1s" },
+			{ name: "daily", kind: "fixed", limit: 10, duration: "1d" },
+		];
+		const { uk } = setup(stack, store);
+		await uk.ready;
+		expect(errors).toHaveBeenCalledWith(
+			"Plugin setup error",
+			expect.objectContaining({ code: "RATELIMIT_CONFIG_UNSUPPORTED" }),
+		);
+
+		const created = await uk.createKey();
+		const key = created.result?.key as string;
+		const res = await uk.verifyKey({ key, namespace: "api" });
+		expect(res.result).toMatchObject({ valid: false, reason: "plugin_error" });
+		expect(kv.size).toBe(0);
+
+		const single = setup({ kind: "fixed", limit: 10, duration: "1m" }, store);
+		const id = (await single.uk.createKey()).result?.id as string;
+		await expect(single.uk.setKeyRateLimit(id, stack)).rejects.toMatchObject({
+			code: "RATELIMIT_CONFIG_UNSUPPORTED",
+		});
+		errors.mockRestore();
+	});
+
+	it("validates stacks passed to setKeyRateLimit", async () => {
+		const { uk } = setup({ kind: "fixed", limit: 10, duration: "1m" });
+		const created = await uk.createKey();
+		const id = created.result?.id as string;
+
+		for (const cfg of [
+			[],
+			[{ kind: "fixed", limit: 1, duration: "1s" }],
+			[
+				{ name: "a", kind: "fixed", limit: 1, duration: "1s" },
+				{ name: "a", kind: "fixed", limit: 5, duration: "1m" },
+			],
+			[
+				{ name: "a", kind: "concurrency", limit: 1 },
+				{ name: "b", kind: "concurrency", limit: 2 },
+			],
+		]) {
+			await expect(uk.setKeyRateLimit(id, cfg as never)).rejects.toMatchObject({
+				code: "INVALID_INPUT",
+			});
+		}
+
+		await uk.setKeyRateLimit(id, [
+			{ name: "burst", kind: "fixed", limit: 1, duration: "1s" },
+			{ name: "daily", kind: "fixed", limit: 100, duration: "1d" },
+		]);
+		const key = created.result?.key as string;
+		const verify = () =>
+			uk.verifyKey({ key, namespace: "api", identifier: "acct_1" });
+		expect((await verify()).result?.valid).toBe(true);
+		expect((await verify()).result?.reason).toBe("rate_limited:burst");
+	});
+});
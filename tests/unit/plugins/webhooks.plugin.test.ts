@@ -0,0 +1,202 @@
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MemoryKeyStore, NoopAnalytics, usefulkey } from "../../../src";
+import {
+	verifyWebhookSignature,
+	webhooks,
+} from "../../../src/plugins/webhooks";
+
+type Received = { headers: IncomingHttpHeaders; body: string };
+
+describe("webhooks plugin", () => {
+	let server: Server;
+	let url: string;
+	let received: Received[];
+	let statuses: number[];
+	let onRequest: (() => void) | null;
+
+	beforeEach(async () => {
+		received = [];
+		statuses = [];
+		onRequest = null;
+		server = createServer((req, res) => {
+			let body = "";
+			req.on("data", (chunk) => {
+				body += chunk;
+			});
+			req.on("end", () => {
+				received.push({ headers: req.headers, body });
+				res.statusCode = statuses.shift() ?? 200;
+				res.end();
+				onRequest?.();
+			});
+		});
+		await new Promise<void>((resolve) => server.listen(0, resolve));
+		url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+	});
+
+	afterEach(async () => {
+		vi.useRealTimers();
+		await new Promise<void>((resolve) => server.close(() => resolve()));
+	});
+
+	function nextRequest(): Promise<void> {
+		return new Promise((resolve) => {
+			onRequest = resolve;
+		});
+	}
+
+	it("posts signed payloads for subscribed events", async () => {
+		const uk = usefulkey(
+			{
+				adapters: {
+					keyStore: new MemoryKeyStore(),
+					analytics: new NoopAnalytics(),
+				},
+			},
+			{
+				plugins: [
+					webhooks({
+						pollIntervalMs: 0,
+						endpoints: [
+							{ id: "all", url, secret: "whsec" },
+							{ id: "revokes", url, secret: "other", events: ["key.revoked"] },
+						],
+					}),
+				],
+			},
+		);
+
+		const arrived = nextRequest();
+		const created = await uk.createKey({ userId: "u1" });
+		await arrived;
+
+		expect(received).toHaveLength(1);
+		const [req] = received;
+		expect(req.headers["usefulkey-event"]).toBe("key.created");
+		expect(
+			verifyWebhookSignature(
+				req.body,
+				req.headers["usefulkey-signature"] as string,
+				"whsec",
+			),
+		).toBe(true);
+		expect(
+			verifyWebhookSignature(
+				req.body,
+				req.headers["usefulkey-signature"] as string,
+				"wrong",
+			),
+		).toBe(false);
+		const body = JSON.parse(req.body);
+		expect(body).toMatchObject({
+			id: req.headers["usefulkey-delivery"],
+			event: "key.created",
+			payload: { keyId: created.result?.id, userId: "u1" },
+		});
+
+		const revoked = nextRequest();
+		await uk.revokeKey(created.result?.id as string);
+		await revoked;
+		await uk.webhooks.deliverDue();
+		expect(received.map((r) => r.headers["usefulkey-event"])).toEqual([
+			"key.created",
+			"key.revoked",
+			"key.revoked",
+		]);
+		expect(await uk.webhooks.listDeliveries()).toEqual([]);
+		await uk.close();
+	});
+
+	it("retries failed deliveries with exponential backoff", async () => {
+		vi.useFakeTimers({ toFake: ["Date"] });
+		vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+		const start = Date.now();
+		const analytics = new NoopAnalytics();
+		const tracked: string[] = [];
+		const uk = usefulkey(
+			{ adapters: { analytics } },
+			{
+				plugins: [
+					webhooks({
+						pollIntervalMs: 0,
+						maxAttempts: 3,
+						retryBaseMs: 1000,
+						endpoints: [{ id: "ep", url, secret: "s" }],
+					}),
+				],
+			},
+		);
+		uk.on("webhook.failed", ({ attempts }) => {
+			tracked.push(`failed:${attempts}`);
+		});
+
+		statuses.push(500, 503, 500);
+		const arrived = nextRequest();
+		await uk.createKey();
+		await arrived;
+		await uk.webhooks.deliverDue();
+
+		let [delivery] = await uk.webhooks.listDeliveries("pending");
+		expect(delivery).toMatchObject({
+			attempts: 1,
+			nextAttemptAt: start + 1000,
+		});
+		expect(delivery.lastError).toContain("500");
+
+		expect(await uk.webhooks.deliverDue()).toEqual({
+			delivered: 0,
+			retried: 0,
+			failed: 0,
+		});
+
+		vi.setSystemTime(start + 1000);
+		expect((await uk.webhooks.deliverDue()).retried).toBe(1);
+		[delivery] = await uk.webhooks.listDeliveries("pending");
+		expect(delivery).toMatchObject({
+			attempts: 2,
+			nextAttemptAt: start + 1000 + 2000,
+		});
+
+		vi.setSystemTime(start + 3000);
+		expect((await uk.webhooks.deliverDue()).failed).toBe(1);
+		const [failed] = await uk.webhooks.listDeliveries("failed");
+		expect(failed.attempts).toBe(3);
+		expect(tracked).toEqual(["failed:3"]);
+		expect(received).toHaveLength(3);
+		await uk.close();
+	});
+
+	it("keeps delivered entries when removeDelivered is false", async () => {
+		const uk = usefulkey(
+			{ adapters: { analytics: new NoopAnalytics() } },
+			{
+				plugins: [
+					webhooks({
+						pollIntervalMs: 0,
+						removeDelivered: false,
+						events: ["key.created"],
+					}),
+				],
+			},
+		);
+		await uk.createKey();
+		expect(await uk.webhooks.listDeliveries()).toEqual([]);
+
+		uk.webhooks.addEndpoint({ id: "late", url, secret: "s" });
+		expect(uk.webhooks.listEndpoints().map((e) => e.id)).toEqual(["late"]);
+		const arrived = nextRequest();
+		await uk.createKey();
+		await arrived;
+		await uk.webhooks.deliverDue();
+		const [delivery] = await uk.webhooks.listDeliveries();
+		expect(delivery).toMatchObject({ status: "delivered", attempts: 1 });
+
+		expect(uk.webhooks.removeEndpoint("late")).toBe(true);
+		expect(() =>
+			uk.webhooks.addEndpoint({ id: "bad", url: "", secret: "" }),
+		).toThrow();
+		await uk.close();
+	});
+});
@@ -1,6 +1,14 @@
 import { beforeEach, describe, expect, it } from "vitest";
 import { configureCryptoProvider } from "../../../src/utils/crypto";
-import { hashKey, KEY, renderKey } from "../../../src/utils/key";
+import {
+	hasChecksummedShape,
+	hashKey,
+	KEY,
+	keyEnvironment,
+	keyHint,
+	renderKey,
+	validateKeyFormat,
+} from "../../../src/utils/key";
 
 beforeEach(() => {
 	let seed = 12345;
@@ -65,6 +73,89 @@ describe("KEY and renderKey", () => {
 	});
 });
 
+describe("key environments", () => {
+	it("adds the environment after the prefix", () => {
+		const t = renderKey(KEY.URLSafe(8), "sk", true, "test");
+		expect(t).toMatch(/^sk_test_.{8}$/);
+		expect(keyEnvironment(t, "sk")).toBe("test");
+		expect(renderKey(KEY.HEX(8), "sk", false, "live")).toMatch(/^[0-9a-f]{8}$/);
+	});
+
+	it("reads the environment from the prefix", () => {
+		expect(keyEnvironment("uk_live_abc", "uk")).toBe("live");
+		expect(keyEnvironment("acme_sk_test_abc", "acme_sk")).toBe("test");
+		expect(keyEnvironment("uk_abc", "uk")).toBeNull();
+		expect(keyEnvironment("uk_testing_abc", "uk")).toBeNull();
+	});
+
+	it("only reads the environment right after the configured prefix", () => {
+		// A urlsafe body may contain `_test_` by chance.
+		expect(keyEnvironment("uk_a1_test_b2", "uk")).toBeNull();
+		expect(keyEnvironment("xx_test_abc", "uk")).toBeNull();
+		expect(keyEnvironment("uk_test_abc", undefined)).toBeNull();
+	});
+});
+
+describe("checksummed keys", () => {
+	it("renders a Base62 body with a CRC32 suffix that validates", () => {
+		const t = renderKey(KEY.Checksummed(30), "uk");
+		expect(t).toMatch(/^uk_[0-9A-Za-z]{36}$/);
+		expect(validateKeyFormat(t, KEY.Checksummed())).toBe(true);
+		expect(validateKeyFormat(t.slice(3), KEY.Checksummed())).toBe(true);
+	});
+
+	it("uses the standard CRC32 of the random part", () => {
+		// CRC32("123456789") = 0xCBF43926, Base62-encoded
+		expect(validateKeyFormat("uk_1234567893jZRME", KEY.Checksummed())).toBe(
+			true,
+		);
+		expect(validateKeyFormat("uk_1234567893jZRMF", KEY.Checksummed())).toBe(
+			false,
+		);
+	});
+
+	it("rejects malformed input", () => {
+		const kind = KEY.Checksummed();
+		const t = renderKey(kind, "uk");
+		const flipped = `${t.slice(0, 5)}${t[5] === "a" ? "b" : "a"}${t.slice(6)}`;
+		expect(validateKeyFormat(flipped, kind)).toBe(false);
+		expect(validateKeyFormat("", kind)).toBe(false);
+		expect(validateKeyFormat("uk_", kind)).toBe(false);
+		expect(validateKeyFormat("uk_abc", kind)).toBe(false);
+		expect(validateKeyFormat(`${t}-`, kind)).toBe(false);
+	});
+
+	it("recognizes the checksummed shape regardless of the checksum", () => {
+		const kind = KEY.Checksummed();
+		const body = "a".repeat(36);
+		expect(hasChecksummedShape(`uk_${body}`, kind, "uk")).toBe(true);
+		expect(hasChecksummedShape(`uk_live_${body}`, kind, "uk")).toBe(true);
+		expect(hasChecksummedShape(body, kind)).toBe(true);
+		expect(hasChecksummedShape(`acme_${body}`, kind, "uk")).toBe(false);
+		expect(hasChecksummedShape(`uk_${body}a`, kind, "uk")).toBe(false);
+		expect(hasChecksummedShape(`uk_${body.slice(1)}-`, kind, "uk")).toBe(false);
+		expect(hasChecksummedShape(`uk_${body}`, KEY.URLSafe(36), "uk")).toBe(
+			false,
+		);
+	});
+
+	it("accepts any key for kinds without a checksum", () => {
+		expect(validateKeyFormat("anything", KEY.URLSafe())).toBe(true);
+	});
+});
+
+describe("keyHint", () => {
+	it("keeps the prefix and the last 4 characters", () => {
+		expect(keyHint("uk_abcdefghijklmnopx9Qa", "uk")).toBe("uk_…x9Qa");
+		expect(keyHint("abcdefghijklmnopx9Qa")).toBe("…x9Qa");
+		expect(keyHint("other_abcdefghijklmnopx9Qa", "uk")).toBe("…x9Qa");
+	});
+
+	it("omits the tail for short keys", () => {
+		expect(keyHint("uk_short", "uk")).toBe("uk_…");
+	});
+});
+
 describe("hashKey", () => {
 	it("delegates to configured hashSha256", () => {
 		configureCryptoProvider({ hashSha256: (s: string) => `sha256:${s}` });